@@ -0,0 +1,59 @@
+/**
+ * Calendar Resolution for Work Centers
+ *
+ * Work centers can define calendar exceptions inline and/or reference shared
+ * calendars by ID. Before scheduling, referenced calendars are merged into
+ * each work center so that the date utilities only ever need to look at
+ * `workCenter.data`.
+ */
+
+import { Calendar, MissingCalendarError, WorkCenter } from './types';
+
+/**
+ * Returns a copy of the work center with all referenced shared calendars
+ * merged into its inline exceptions.
+ *
+ * Inline exceptions are listed first, so a work center's own shift override
+ * for a date wins over an override from a shared calendar.
+ *
+ * @param workCenter - Work center to resolve
+ * @param calendars - Shared calendars indexed by docId
+ * @returns Work center with merged holidays, overrides and overtime
+ * @throws MissingCalendarError if a referenced calendar does not exist
+ */
+export function resolveWorkCenterCalendars(
+  workCenter: WorkCenter,
+  calendars: Map<string, Calendar>,
+): WorkCenter {
+  const calendarIds = workCenter.data.calendarIds ?? [];
+
+  if (calendarIds.length === 0) {
+    return workCenter;
+  }
+
+  const holidays = [...(workCenter.data.holidays ?? [])];
+  const shiftOverrides = [...(workCenter.data.shiftOverrides ?? [])];
+  const overtimeWindows = [...(workCenter.data.overtimeWindows ?? [])];
+
+  for (const calendarId of calendarIds) {
+    const calendar = calendars.get(calendarId);
+
+    if (!calendar) {
+      throw new MissingCalendarError(workCenter.docId, calendarId);
+    }
+
+    holidays.push(...(calendar.data.holidays ?? []));
+    shiftOverrides.push(...(calendar.data.shiftOverrides ?? []));
+    overtimeWindows.push(...(calendar.data.overtimeWindows ?? []));
+  }
+
+  return {
+    ...workCenter,
+    data: {
+      ...workCenter.data,
+      holidays,
+      shiftOverrides,
+      overtimeWindows,
+    },
+  };
+}
@@ -0,0 +1,412 @@
+/**
+ * Critical Path and Float Analysis
+ *
+ * Runs on a reflowed plan and tells planners which orders drive the makespan.
+ * The network combines dependency links with the machine sequence: an order
+ * that slips also delays the next order in its lane, so both kinds of edges
+ * can make an order critical.
+ *
+ * The reflow already placed each order as early as possible, so its scheduled
+ * times are the earliest times. A backward pass from the end of the plan then
+ * gives the latest times, and float is the working time between the two.
+ * Fixed maintenance orders cannot move; they only act as constraints.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  CriticalPathAnalysis,
+  CriticalPathEntry,
+  DependencyType,
+  LagType,
+  ReflowOutput,
+  ReflowResult,
+  SchedulerConfig,
+  WorkCenter,
+  WorkOrder,
+} from './types';
+import { buildDependencyGraph, getDependencyLinks } from './dag.service';
+import { resolveWorkCenterCalendars } from './calendar.service';
+import { expandRoutings } from './routing.service';
+import {
+  calculateEndDateWithShifts,
+  calculateStartDateWithShifts,
+  calculateWorkingMinutesBetween,
+  maxDateTime,
+  minDateTime,
+} from '../utils/date-utils';
+
+/**
+ * A scheduled order in the network.
+ */
+interface NetworkNode {
+  result: ReflowResult;
+  workCenter: WorkCenter;
+  start: DateTime;
+  end: DateTime;
+  /** Working minutes between scheduled start and end */
+  durationMinutes: number;
+  /** Setup minutes booked before the order */
+  setupMinutes: number;
+}
+
+/**
+ * A precedence edge between two scheduled orders.
+ */
+interface NetworkEdge {
+  from: string;
+  to: string;
+  type: DependencyType;
+  lagMinutes: number;
+  lagType: LagType;
+  /** Work center working-time lag is counted on */
+  lagWorkCenter: WorkCenter;
+}
+
+/**
+ * Latest time a predecessor may start or finish so that an edge holds.
+ */
+interface EdgeBound {
+  on: 'start' | 'finish';
+  time: DateTime;
+}
+
+/**
+ * Computes earliest/latest times, total and free float, and the critical
+ * chains of a reflowed plan.
+ *
+ * @param workOrders - Work orders that were reflowed; routed orders are
+ *                     analysed by operation
+ * @param workCenters - Work centers used by the reflow
+ * @param output - Output of the reflow
+ * @param config - Timezone and shared calendars used by the reflow
+ * @returns Float per movable order and the critical chains
+ * @throws MissingCalendarError if a work center references an unknown calendar
+ */
+export function analyzeCriticalPath(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  output: ReflowOutput,
+  config: Pick<SchedulerConfig, 'timezone' | 'calendars'> = {},
+): CriticalPathAnalysis {
+  const timezone = config.timezone ?? 'UTC';
+  const calendars = new Map((config.calendars ?? []).map((c) => [c.docId, c]));
+  const workCenterById = new Map(
+    workCenters.map((wc) => [
+      wc.docId,
+      resolveWorkCenterCalendars(wc, calendars),
+    ]),
+  );
+  const graph = buildDependencyGraph(expandRoutings(workOrders));
+  const scheduled = graph.allIds.map((id) => graph.nodes.get(id)!.workOrder);
+
+  // Index scheduled orders
+  const nodes = new Map<string, NetworkNode>();
+  for (const result of output.results.flatMap((r) => r.operations ?? [r])) {
+    const workCenter = workCenterById.get(result.workCenterId)!;
+    const start = DateTime.fromISO(result.newStartDate, { zone: timezone });
+    const end = DateTime.fromISO(result.newEndDate, { zone: timezone });
+    nodes.set(result.workOrderId, {
+      result,
+      workCenter,
+      start,
+      end,
+      durationMinutes: calculateWorkingMinutesBetween(
+        start,
+        end,
+        workCenter,
+        timezone,
+      ),
+      setupMinutes: result.setupMinutes,
+    });
+  }
+
+  const edges = [
+    ...buildDependencyEdges(graph.allIds, scheduled, workCenterById),
+    ...buildSequenceEdges(nodes),
+  ];
+  const outgoing = new Map<string, NetworkEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+  }
+
+  const movable = [...nodes.values()].filter((n) => !n.result.isFixed);
+  if (movable.length === 0) {
+    return { orders: [], criticalChains: [] };
+  }
+  const projectEnd = maxDateTime(...movable.map((n) => n.end))!;
+
+  /**
+   * Translates an edge bound into a latest finish for the predecessor.
+   */
+  function toFinishBound(node: NetworkNode, bound: EdgeBound): DateTime {
+    return bound.on === 'finish'
+      ? bound.time
+      : calculateEndDateWithShifts(
+          bound.time,
+          node.durationMinutes,
+          node.workCenter,
+          timezone,
+        );
+  }
+
+  // Backward pass: latest times, successors first.
+  // Orders on a cycle fall back to their scheduled times.
+  const latest = new Map<string, { start: DateTime; end: DateTime }>();
+  const visiting = new Set<string>();
+
+  function latestTimes(id: string): { start: DateTime; end: DateTime } {
+    const cached = latest.get(id);
+    if (cached) return cached;
+
+    const node = nodes.get(id)!;
+    if (node.result.isFixed || visiting.has(id)) {
+      return { start: node.start, end: node.end };
+    }
+
+    visiting.add(id);
+    let latestEnd = projectEnd;
+    for (const edge of outgoing.get(id) ?? []) {
+      const successor = latestTimes(edge.to);
+      const bound = edgeBound(edge, successor.start, successor.end, timezone);
+      latestEnd = minDateTime(latestEnd, toFinishBound(node, bound))!;
+    }
+    visiting.delete(id);
+
+    const times = {
+      start: calculateStartDateWithShifts(
+        latestEnd,
+        node.durationMinutes,
+        node.workCenter,
+        timezone,
+      ),
+      end: latestEnd,
+    };
+    latest.set(id, times);
+    return times;
+  }
+
+  // Slack of each edge against the successor's scheduled times;
+  // an edge is binding when the predecessor cannot slip at all
+  const edgeSlack = new Map<NetworkEdge, number>();
+  for (const edge of edges) {
+    const from = nodes.get(edge.from)!;
+    const to = nodes.get(edge.to)!;
+    const bound = edgeBound(edge, to.start, to.end, timezone);
+    const anchor = bound.on === 'finish' ? from.end : from.start;
+    edgeSlack.set(
+      edge,
+      calculateWorkingMinutesBetween(
+        anchor,
+        bound.time,
+        from.workCenter,
+        timezone,
+      ),
+    );
+  }
+
+  const orders: CriticalPathEntry[] = movable.map((node) => {
+    const id = node.result.workOrderId;
+    const { start: latestStart, end: latestEnd } = latestTimes(id);
+    const totalFloat = Math.round(
+      calculateWorkingMinutesBetween(
+        node.start,
+        latestStart,
+        node.workCenter,
+        timezone,
+      ),
+    );
+
+    // Orders without successors are only bound by the end of the plan
+    const outgoingSlack = (outgoing.get(id) ?? []).map(
+      (e) => edgeSlack.get(e)!,
+    );
+    const freeFloat = Math.round(
+      outgoingSlack.length > 0
+        ? Math.min(...outgoingSlack)
+        : calculateWorkingMinutesBetween(
+            node.end,
+            projectEnd,
+            node.workCenter,
+            timezone,
+          ),
+    );
+
+    return {
+      workOrderId: id,
+      workOrderNumber: node.result.workOrderNumber,
+      workCenterId: node.result.workCenterId,
+      earliestStartDate: node.result.newStartDate,
+      earliestEndDate: node.result.newEndDate,
+      latestStartDate: latestStart.toISO()!,
+      latestEndDate: latestEnd.toISO()!,
+      totalFloatMinutes: totalFloat,
+      freeFloatMinutes: Math.min(freeFloat, totalFloat),
+      isCritical: totalFloat <= 0,
+    };
+  });
+
+  const critical = new Set(
+    orders.filter((o) => o.isCritical).map((o) => o.workOrderId),
+  );
+  const bindingEdges = edges.filter(
+    (e) => critical.has(e.from) && critical.has(e.to) && edgeSlack.get(e)! <= 0,
+  );
+
+  return {
+    projectEndDate: projectEnd.toISO()!,
+    orders,
+    criticalChains: findChains(critical, bindingEdges, nodes),
+  };
+}
+
+/**
+ * Creates one edge per dependency link. Working-time lag is counted on the
+ * successor's assigned work center, as in the scheduler.
+ */
+function buildDependencyEdges(
+  ids: string[],
+  workOrders: WorkOrder[],
+  workCenterById: Map<string, WorkCenter>,
+): NetworkEdge[] {
+  const orderById = new Map(workOrders.map((o) => [o.docId, o]));
+
+  return ids.flatMap((id) => {
+    const order = orderById.get(id)!;
+    return getDependencyLinks(order).map((link) => ({
+      from: link.workOrderId,
+      to: id,
+      type: link.type,
+      lagMinutes: link.lagMinutes,
+      lagType: link.lagType,
+      lagWorkCenter: workCenterById.get(order.data.workCenterId)!,
+    }));
+  });
+}
+
+/**
+ * Links consecutive orders in each lane of each work center. The later
+ * order's setup has to fit in between, so it acts as working-time lag.
+ * Fixed maintenance orders block every lane and appear in each of them;
+ * completed orders no longer occupy the machine.
+ */
+function buildSequenceEdges(nodes: Map<string, NetworkNode>): NetworkEdge[] {
+  const byWorkCenter = new Map<string, NetworkNode[]>();
+  for (const node of nodes.values()) {
+    if (node.result.fixedReason === 'completed') continue;
+    const id = node.result.workCenterId;
+    byWorkCenter.set(id, [...(byWorkCenter.get(id) ?? []), node]);
+  }
+
+  const edges: NetworkEdge[] = [];
+  for (const workCenterNodes of byWorkCenter.values()) {
+    const lanes = new Set(
+      workCenterNodes
+        .map((n) => n.result.lane)
+        .filter((lane) => lane !== undefined),
+    );
+
+    for (const lane of lanes) {
+      const sequence = workCenterNodes
+        .filter((n) => n.result.lane === undefined || n.result.lane === lane)
+        .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+
+      for (let i = 1; i < sequence.length; i++) {
+        const [previous, next] = [sequence[i - 1], sequence[i]];
+        edges.push({
+          from: previous.result.workOrderId,
+          to: next.result.workOrderId,
+          type: 'FS',
+          lagMinutes: next.setupMinutes,
+          lagType: 'working',
+          lagWorkCenter: next.workCenter,
+        });
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Latest start or finish of an edge's predecessor, given its successor's times.
+ */
+function edgeBound(
+  edge: NetworkEdge,
+  successorStart: DateTime,
+  successorEnd: DateTime,
+  timezone: string,
+): EdgeBound {
+  const anchor =
+    edge.type === 'FS' || edge.type === 'SS' ? successorStart : successorEnd;
+  const on = edge.type === 'FS' || edge.type === 'FF' ? 'finish' : 'start';
+
+  if (edge.lagMinutes === 0) {
+    return { on, time: anchor };
+  }
+
+  if (edge.lagType === 'calendar') {
+    return { on, time: anchor.minus({ minutes: edge.lagMinutes }) };
+  }
+
+  const time =
+    edge.lagMinutes > 0
+      ? calculateStartDateWithShifts(
+          anchor,
+          edge.lagMinutes,
+          edge.lagWorkCenter,
+          timezone,
+        )
+      : calculateEndDateWithShifts(
+          anchor,
+          -edge.lagMinutes,
+          edge.lagWorkCenter,
+          timezone,
+        );
+  return { on, time };
+}
+
+/**
+ * Lists every path through the binding edges, from critical orders with no
+ * binding predecessor to critical orders with no binding successor.
+ */
+function findChains(
+  critical: Set<string>,
+  bindingEdges: NetworkEdge[],
+  nodes: Map<string, NetworkNode>,
+): string[][] {
+  const next = new Map<string, string[]>();
+  const hasPredecessor = new Set<string>();
+  for (const edge of bindingEdges) {
+    const targets = next.get(edge.from) ?? [];
+    if (!targets.includes(edge.to)) {
+      next.set(edge.from, [...targets, edge.to]);
+    }
+    hasPredecessor.add(edge.to);
+  }
+
+  const byStart = (a: string, b: string) =>
+    nodes.get(a)!.start.toMillis() - nodes.get(b)!.start.toMillis();
+
+  const chains: string[][] = [];
+  function walk(path: string[]): void {
+    const targets = (next.get(path[path.length - 1]) ?? [])
+      .filter((id) => !path.includes(id))
+      .sort(byStart);
+
+    if (targets.length === 0) {
+      chains.push(path);
+      return;
+    }
+    for (const target of targets) {
+      walk([...path, target]);
+    }
+  }
+
+  for (const id of [...critical]
+    .filter((id) => !hasPredecessor.has(id))
+    .sort(byStart)) {
+    walk([id]);
+  }
+
+  return chains;
+}
@@ -1,11 +1,12 @@
 /**
  * Directed Acyclic Graph (DAG) Service for Work Order Dependencies
- * 
+ *
  * This module builds a dependency graph from work orders and performs
  * topological sorting to determine the correct scheduling order.
- * 
+ *
  * Key Concepts:
- * - Each work order is a node in the graph
+ * - Each work order is a node in the graph; a routed order contributes one
+ *   node per operation
  * - Dependencies create directed edges (dependency -> dependent)
  * - Topological sort ensures we process dependencies before dependents
  * - Circular dependencies are detected and reported as errors
@@ -13,24 +14,31 @@
 
 import {
   WorkOrder,
+  DependencyLink,
+  DependencyEdge,
+  CyclicComponent,
   CircularDependencyError,
   MissingDependencyError,
 } from './types';
+import { expandRoutings } from './routing.service';
 
 /**
  * Represents a node in the dependency graph.
  * Each node corresponds to one work order.
  */
-interface GraphNode {
+export interface GraphNode {
   /** The work order this node represents */
   workOrder: WorkOrder;
-  
+
   /** IDs of work orders that this order depends on (incoming edges) */
   dependencies: Set<string>;
-  
+
+  /** Typed links to the dependencies, with defaults applied */
+  dependencyLinks: Required<DependencyLink>[];
+
   /** IDs of work orders that depend on this order (outgoing edges) */
   dependents: Set<string>;
-  
+
   /** Used during topological sort: number of unprocessed incoming edges */
   inDegree: number;
 }
@@ -38,21 +46,24 @@ interface GraphNode {
 /**
  * The complete dependency graph structure.
  */
-interface DependencyGraph {
+export interface DependencyGraph {
   /** Map of work order ID to graph node */
   nodes: Map<string, GraphNode>;
-  
+
   /** All work order IDs in no particular order */
   allIds: string[];
 }
 
 /**
  * Builds a dependency graph from an array of work orders.
- * 
+ *
  * The graph represents the "must complete before" relationships:
  * - If order B depends on order A, there's an edge from A to B
  * - This means A must be scheduled (and complete) before B can start
- * 
+ *
+ * Routed orders must already be expanded into their operations (see
+ * `expandRoutings`), so the nodes are the orders that actually get scheduled.
+ *
  * @param workOrders - Array of work orders to build graph from
  * @returns The constructed dependency graph
  * @throws MissingDependencyError if a dependency reference is invalid
@@ -63,12 +74,19 @@ export function buildDependencyGraph(workOrders: WorkOrder[]): DependencyGraph {
 
   // First pass: Create all nodes
   for (const order of workOrders) {
+    const dependencyLinks = getDependencyLinks(order);
+    const dependencies = new Set(
+      dependencyLinks.map((link) => link.workOrderId),
+    );
+
     allIds.push(order.docId);
     nodes.set(order.docId, {
       workOrder: order,
-      dependencies: new Set(order.data.dependsOnWorkOrderIds),
+      dependencies,
+      dependencyLinks,
       dependents: new Set(),
-      inDegree: order.data.dependsOnWorkOrderIds.length,
+      // Several links to the same predecessor are a single edge
+      inDegree: dependencies.size,
     });
   }
 
@@ -76,11 +94,11 @@ export function buildDependencyGraph(workOrders: WorkOrder[]): DependencyGraph {
   for (const [id, node] of nodes) {
     for (const depId of node.dependencies) {
       const depNode = nodes.get(depId);
-      
+
       if (!depNode) {
         throw new MissingDependencyError(id, depId);
       }
-      
+
       // Add reverse edge: depNode knows that 'node' depends on it
       depNode.dependents.add(id);
     }
@@ -89,27 +107,57 @@ export function buildDependencyGraph(workOrders: WorkOrder[]): DependencyGraph {
   return { nodes, allIds };
 }
 
+/**
+ * Normalizes an order's dependencies into typed links. Plain docIds become
+ * finish-to-start links with no lag.
+ *
+ * @param order - Work order whose dependencies to read
+ * @returns Dependency links with defaults applied
+ */
+export function getDependencyLinks(
+  order: WorkOrder,
+): Required<DependencyLink>[] {
+  return order.data.dependsOnWorkOrderIds.map((dep) =>
+    typeof dep === 'string'
+      ? { workOrderId: dep, type: 'FS', lagMinutes: 0, lagType: 'calendar' }
+      : {
+          workOrderId: dep.workOrderId,
+          type: dep.type ?? 'FS',
+          lagMinutes: dep.lagMinutes ?? 0,
+          lagType: dep.lagType ?? 'calendar',
+        },
+  );
+}
+
 /**
  * Performs topological sort on the dependency graph using Kahn's algorithm.
- * 
+ *
  * The algorithm:
  * 1. Find all nodes with no incoming edges (in-degree = 0)
  * 2. Add them to the result and remove their outgoing edges
  * 3. This may create new nodes with in-degree = 0
  * 4. Repeat until all nodes are processed or a cycle is detected
- * 
+ *
  * Why Kahn's algorithm?
  * - It naturally detects cycles (if we can't process all nodes, there's a cycle)
  * - It provides a valid processing order in one pass
  * - It's efficient: O(V + E) where V = nodes, E = edges
- * 
+ *
+ * When several nodes are ready at once, `compare` decides which goes first
+ * (this is where dispatch rules plug in). Ties, and the default ordering,
+ * fall back to original start date, then ID.
+ *
  * @param graph - The dependency graph to sort
+ * @param compare - Optional comparator for ready nodes
  * @returns Array of work orders in topological order
  * @throws CircularDependencyError if the graph contains cycles
  */
-export function topologicalSort(graph: DependencyGraph): WorkOrder[] {
+export function topologicalSort(
+  graph: DependencyGraph,
+  compare?: (a: WorkOrder, b: WorkOrder) => number,
+): WorkOrder[] {
   const result: WorkOrder[] = [];
-  
+
   // Create a working copy of in-degrees (we'll modify these)
   const inDegrees = new Map<string, number>();
   for (const [id, node] of graph.nodes) {
@@ -130,15 +178,18 @@ export function topologicalSort(graph: DependencyGraph): WorkOrder[] {
   // Process nodes in order
   while (readyQueue.length > 0) {
     // Sort ready nodes by some criteria for deterministic ordering
-    // Here we sort by work order start date, then by ID
+    // Here we sort by the dispatch comparator (if any), then start date, then ID
     readyQueue.sort((a, b) => {
       const nodeA = graph.nodes.get(a)!;
       const nodeB = graph.nodes.get(b)!;
-      
+
+      const ruleComparison = compare?.(nodeA.workOrder, nodeB.workOrder) ?? 0;
+      if (ruleComparison !== 0) return ruleComparison;
+
       const dateComparison = nodeA.workOrder.data.startDate.localeCompare(
-        nodeB.workOrder.data.startDate
+        nodeB.workOrder.data.startDate,
       );
-      
+
       if (dateComparison !== 0) return dateComparison;
       return a.localeCompare(b);
     });
@@ -146,14 +197,14 @@ export function topologicalSort(graph: DependencyGraph): WorkOrder[] {
     // Take the first ready node
     const currentId = readyQueue.shift()!;
     const currentNode = graph.nodes.get(currentId)!;
-    
+
     result.push(currentNode.workOrder);
 
     // "Remove" outgoing edges by decrementing in-degree of dependents
     for (const dependentId of currentNode.dependents) {
       const newInDegree = inDegrees.get(dependentId)! - 1;
       inDegrees.set(dependentId, newInDegree);
-      
+
       // If dependent now has no more dependencies, it's ready to process
       if (newInDegree === 0) {
         readyQueue.push(dependentId);
@@ -163,81 +214,249 @@ export function topologicalSort(graph: DependencyGraph): WorkOrder[] {
 
   // Check if we processed all nodes
   if (result.length !== graph.nodes.size) {
-    // There's a cycle - find and report it
-    const cycle = findCycle(graph, inDegrees);
-    throw new CircularDependencyError(cycle);
+    // There's at least one cycle - report every group
+    throw new CircularDependencyError(findCyclicComponents(graph));
   }
 
   return result;
 }
 
 /**
- * Finds a cycle in the graph when topological sort fails.
- * Used to provide a helpful error message.
- * 
- * Uses DFS to find a back edge, then traces the cycle.
- * 
+ * Finds every group of work orders caught in circular dependencies, using
+ * Tarjan's strongly connected components algorithm. Each group comes with
+ * one cycle through it and a minimal set of links to break.
+ *
+ * The depth-first search keeps an explicit stack rather than recursing,
+ * so long dependency chains in large imported plans cannot overflow it.
+ *
  * @param graph - The dependency graph
- * @param remainingInDegrees - In-degrees after partial topological sort
- * @returns Array of work order IDs forming the cycle
+ * @returns Groups with more than one order, or a single self-dependent order,
+ *          in the order their first member appears in the graph
  */
-function findCycle(
+export function findCyclicComponents(
   graph: DependencyGraph,
-  remainingInDegrees: Map<string, number>,
-): string[] {
-  // Find nodes that weren't processed (still have in-degree > 0)
-  const unprocessed = new Set<string>();
-  for (const [id, inDegree] of remainingInDegrees) {
-    if (inDegree > 0) {
-      unprocessed.add(id);
+): CyclicComponent[] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  for (const root of graph.allIds) {
+    if (index.has(root)) continue;
+
+    const frames: { id: string; dependencies: Iterator<string> }[] = [];
+    const visit = (id: string) => {
+      index.set(id, index.size);
+      lowLink.set(id, index.get(id)!);
+      stack.push(id);
+      onStack.add(id);
+      frames.push({
+        id,
+        dependencies: graph.nodes.get(id)!.dependencies.values(),
+      });
+    };
+    visit(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const next = frame.dependencies.next();
+
+      if (!next.done) {
+        const depId = next.value;
+        if (!index.has(depId)) {
+          visit(depId);
+        } else if (onStack.has(depId)) {
+          lowLink.set(
+            frame.id,
+            Math.min(lowLink.get(frame.id)!, index.get(depId)!),
+          );
+        }
+        continue;
+      }
+
+      // All dependencies explored: pass the low-link up to the caller
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].id;
+        lowLink.set(
+          parent,
+          Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!),
+        );
+      }
+
+      // A root of a component: everything above it on the stack belongs to it
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let id: string;
+        do {
+          id = stack.pop()!;
+          onStack.delete(id);
+          component.push(id);
+        } while (id !== frame.id);
+        components.push(component);
+      }
     }
   }
 
-  if (unprocessed.size === 0) {
-    return ['unknown cycle'];
+  const position = new Map(graph.allIds.map((id, i) => [id, i]));
+  return components
+    .filter(
+      (c) => c.length > 1 || graph.nodes.get(c[0])!.dependencies.has(c[0]),
+    )
+    .map((c) => c.sort((a, b) => position.get(a)! - position.get(b)!))
+    .sort((a, b) => position.get(a[0])! - position.get(b[0])!)
+    .map((workOrderIds) => {
+      const members = new Set(workOrderIds);
+      return {
+        workOrderIds,
+        cycle: traceCycle(graph, members, workOrderIds[0]),
+        edgesToBreak: findEdgesToBreak(graph, members, workOrderIds[0]),
+      };
+    });
+}
+
+/**
+ * Follows dependencies inside a component from `start` until an order
+ * repeats. Every order in a component has a dependency inside it, so the
+ * walk always closes a cycle.
+ */
+function traceCycle(
+  graph: DependencyGraph,
+  members: Set<string>,
+  start: string,
+): string[] {
+  const path: string[] = [];
+  let current = start;
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = [...graph.nodes.get(current)!.dependencies].find((id) =>
+      members.has(id),
+    )!;
   }
 
-  // Use DFS to find the cycle
+  return [...path.slice(path.indexOf(current)), current];
+}
+
+/**
+ * Most back edges a component may have for `findEdgesToBreak` to prune them.
+ * Pruning re-checks the whole component once per back edge, so beyond this
+ * the back edges are reported as they are.
+ */
+const MAX_EDGES_TO_PRUNE = 50;
+
+/**
+ * Picks links to break inside a component: the back edges of a depth-first
+ * search (removing them always leaves the component acyclic), then drops
+ * any that turn out not to be needed. Like `findCyclicComponents`, the
+ * search keeps an explicit stack, since a component can be large too.
+ */
+function findEdgesToBreak(
+  graph: DependencyGraph,
+  members: Set<string>,
+  start: string,
+): DependencyEdge[] {
+  const backEdges: DependencyEdge[] = [];
   const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const path: string[] = [];
+  const path = new Set<string>();
+
+  const frames: { id: string; dependencies: Iterator<string> }[] = [];
+  const visit = (id: string) => {
+    visited.add(id);
+    path.add(id);
+    frames.push({
+      id,
+      dependencies: graph.nodes.get(id)!.dependencies.values(),
+    });
+  };
+  visit(start);
 
-  function dfs(nodeId: string): string[] | null {
-    visited.add(nodeId);
-    recursionStack.add(nodeId);
-    path.push(nodeId);
+  while (frames.length > 0) {
+    const frame = frames[frames.length - 1];
+    const next = frame.dependencies.next();
 
-    const node = graph.nodes.get(nodeId);
-    if (!node) return null;
+    if (next.done) {
+      frames.pop();
+      path.delete(frame.id);
+      continue;
+    }
 
-    // Check dependencies (following edges backward to find cycle)
-    for (const depId of node.dependencies) {
-      if (!visited.has(depId)) {
-        const result = dfs(depId);
-        if (result) return result;
-      } else if (recursionStack.has(depId)) {
-        // Found a cycle! Extract it from the path
-        const cycleStart = path.indexOf(depId);
-        return [...path.slice(cycleStart), depId];
-      }
+    const depId = next.value;
+    if (!members.has(depId)) continue;
+    if (path.has(depId)) {
+      backEdges.push({ workOrderId: frame.id, dependsOnWorkOrderId: depId });
+    } else if (!visited.has(depId)) {
+      visit(depId);
+    }
+  }
+
+  if (backEdges.length > MAX_EDGES_TO_PRUNE) {
+    return backEdges;
+  }
+
+  const edges = [...backEdges];
+  for (const edge of backEdges) {
+    const without = edges.filter((e) => e !== edge);
+    if (isAcyclicWithout(graph, members, without)) {
+      edges.splice(edges.indexOf(edge), 1);
     }
+  }
+  return edges;
+}
 
-    path.pop();
-    recursionStack.delete(nodeId);
-    return null;
+/**
+ * Whether a component has no cycles once the given links are removed
+ * (Kahn's algorithm restricted to the component).
+ */
+function isAcyclicWithout(
+  graph: DependencyGraph,
+  members: Set<string>,
+  removed: DependencyEdge[],
+): boolean {
+  const removedDependencies = new Map<string, Set<string>>();
+  for (const e of removed) {
+    const dependencies =
+      removedDependencies.get(e.workOrderId) ?? new Set<string>();
+    removedDependencies.set(
+      e.workOrderId,
+      dependencies.add(e.dependsOnWorkOrderId),
+    );
+  }
+  const isRemoved = (id: string, depId: string) =>
+    removedDependencies.get(id)?.has(depId) ?? false;
+  const inDegrees = new Map<string, number>();
+  for (const id of members) {
+    const dependencies = [...graph.nodes.get(id)!.dependencies];
+    inDegrees.set(
+      id,
+      dependencies.filter(
+        (depId) => members.has(depId) && !isRemoved(id, depId),
+      ).length,
+    );
   }
 
-  // Start DFS from any unprocessed node
-  const startNode = unprocessed.values().next().value;
-  const cycle = dfs(startNode);
-  
-  return cycle || [startNode, '...', startNode];
+  const ready = [...members].filter((id) => inDegrees.get(id) === 0);
+  let processed = 0;
+  while (ready.length > 0) {
+    const id = ready.pop()!;
+    processed++;
+    for (const dependentId of graph.nodes.get(id)!.dependents) {
+      if (!members.has(dependentId) || isRemoved(dependentId, id)) continue;
+      inDegrees.set(dependentId, inDegrees.get(dependentId)! - 1);
+      if (inDegrees.get(dependentId) === 0) {
+        ready.push(dependentId);
+      }
+    }
+  }
+
+  return processed === members.size;
 }
 
 /**
  * Gets all work orders that depend (directly or transitively) on a given order.
  * Useful for understanding the "blast radius" of a schedule change.
- * 
+ *
  * @param graph - The dependency graph
  * @param workOrderId - ID of the work order to check
  * @returns Set of work order IDs that depend on the given order
@@ -252,7 +471,7 @@ export function getTransitiveDependents(
   while (queue.length > 0) {
     const currentId = queue.shift()!;
     const node = graph.nodes.get(currentId);
-    
+
     if (!node) continue;
 
     for (const dependentId of node.dependents) {
@@ -269,7 +488,7 @@ export function getTransitiveDependents(
 /**
  * Gets all work orders that a given order depends on (directly or transitively).
  * Useful for understanding what must complete before an order can start.
- * 
+ *
  * @param graph - The dependency graph
  * @param workOrderId - ID of the work order to check
  * @returns Set of work order IDs that must complete before this order
@@ -284,7 +503,7 @@ export function getTransitiveDependencies(
   while (queue.length > 0) {
     const currentId = queue.shift()!;
     const node = graph.nodes.get(currentId);
-    
+
     if (!node) continue;
 
     for (const depId of node.dependencies) {
@@ -304,28 +523,30 @@ export function getTransitiveDependencies(
  * - Missing dependency references
  * - Circular dependencies
  * - Self-dependencies
- * 
- * @param workOrders - Array of work orders to validate
+ *
+ * @param workOrders - Array of work orders to validate; routed orders are
+ *                     checked by operation, so links may name an operation
  * @returns Object with isValid flag and any error messages
  */
-export function validateDependencies(
-  workOrders: WorkOrder[],
-): { isValid: boolean; errors: string[] } {
+export function validateDependencies(workOrders: WorkOrder[]): {
+  isValid: boolean;
+  errors: string[];
+} {
   const errors: string[] = [];
-  const orderIds = new Set(workOrders.map(o => o.docId));
+  const orders = expandRoutings(workOrders);
+  const orderIds = new Set(orders.map((o) => o.docId));
 
   // Check for missing dependencies and self-references
-  for (const order of workOrders) {
-    for (const depId of order.data.dependsOnWorkOrderIds) {
-      
+  for (const order of orders) {
+    for (const { workOrderId: depId } of getDependencyLinks(order)) {
       if (depId === order.docId) {
         errors.push(
-          `Work order "${order.data.workOrderNumber}" (${order.docId}) depends on itself`
+          `Work order "${order.data.workOrderNumber}" (${order.docId}) depends on itself`,
         );
       } else if (!orderIds.has(depId)) {
         errors.push(
           `Work order "${order.data.workOrderNumber}" (${order.docId}) ` +
-          `depends on non-existent order "${depId}"`
+            `depends on non-existent order "${depId}"`,
         );
       }
     }
@@ -334,7 +555,7 @@ export function validateDependencies(
   // If basic validation passed, check for cycles
   if (errors.length === 0) {
     try {
-      const graph = buildDependencyGraph(workOrders);
+      const graph = buildDependencyGraph(orders);
       topologicalSort(graph);
     } catch (e) {
       if (e instanceof CircularDependencyError) {
@@ -352,4 +573,3 @@ export function validateDependencies(
     errors,
   };
 }
-
@@ -0,0 +1,246 @@
+/**
+ * Schedule Diffs
+ *
+ * A reflow returns every order, changed or not. A diff reduces two schedules
+ * to what a downstream system needs to hear about: orders that moved (in
+ * calendar and working minutes), work centers whose sequence changed,
+ * orders that became late, and orders that moved to another work center.
+ *
+ * The previous schedule is either an earlier reflow's results, or the
+ * original dates embedded in the new results.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  MissingWorkCenterError,
+  NewlyLateOrder,
+  OrderMove,
+  OrderReassignment,
+  ScheduleDiff,
+  ScheduledOrder,
+  SchedulerConfig,
+  WorkCenter,
+  WorkCenterResequence,
+} from './types';
+import { resolveWorkCenterCalendars } from './calendar.service';
+import { calculateWorkingMinutesBetween } from '../utils/date-utils';
+
+/**
+ * Where an order sits in one of the two schedules.
+ */
+interface Placement {
+  workOrderId: string;
+  workOrderNumber: string;
+  workCenterId: string;
+  start: string;
+  end: string;
+  dueDate?: string;
+}
+
+/**
+ * Compares two schedules.
+ *
+ * @param previous - Earlier results; if omitted, the original dates and work
+ *                   centers embedded in `current` are used
+ * @param current - New results
+ * @param workCenters - Work centers, for working-minute shifts
+ * @param config - Timezone and shared calendars
+ * @returns Normalized change set from `previous` to `current`
+ * @throws MissingWorkCenterError if a moved order's work center is not provided
+ */
+export function diffSchedules(
+  previous: ScheduledOrder[] | undefined,
+  current: ScheduledOrder[],
+  workCenters: WorkCenter[],
+  config: Pick<SchedulerConfig, 'timezone' | 'calendars'> = {},
+): ScheduleDiff {
+  const timezone = config.timezone ?? 'UTC';
+  const toTime = (iso: string) => DateTime.fromISO(iso, { zone: timezone });
+  const calendars = new Map((config.calendars ?? []).map((c) => [c.docId, c]));
+  const workCenterById = new Map(
+    workCenters.map((wc) => [
+      wc.docId,
+      resolveWorkCenterCalendars(wc, calendars),
+    ]),
+  );
+
+  const before = new Map(
+    (previous?.map(newPlacement) ?? current.map(originalPlacement)).map((p) => [
+      p.workOrderId,
+      p,
+    ]),
+  );
+  const after = new Map(
+    current.map(newPlacement).map((p) => [p.workOrderId, p]),
+  );
+
+  const movedOrders: OrderMove[] = [];
+  const newlyLateOrders: NewlyLateOrder[] = [];
+  const reassignedOrders: OrderReassignment[] = [];
+
+  for (const next of after.values()) {
+    const prev = before.get(next.workOrderId);
+    if (!prev) continue;
+
+    const startMoved = !toTime(prev.start).equals(toTime(next.start));
+    const endMoved = !toTime(prev.end).equals(toTime(next.end));
+    if (startMoved || endMoved) {
+      const workCenter = workCenterById.get(next.workCenterId);
+      if (!workCenter) {
+        throw new MissingWorkCenterError(next.workOrderId, next.workCenterId);
+      }
+      const shift = (from: string, to: string) => ({
+        calendar: Math.round(toTime(to).diff(toTime(from), 'minutes').minutes),
+        working: Math.round(
+          calculateWorkingMinutesBetween(
+            toTime(from),
+            toTime(to),
+            workCenter,
+            timezone,
+          ),
+        ),
+      });
+      const startShift = shift(prev.start, next.start);
+      const endShift = shift(prev.end, next.end);
+
+      movedOrders.push({
+        workOrderId: next.workOrderId,
+        workOrderNumber: next.workOrderNumber,
+        workCenterId: next.workCenterId,
+        previousStartDate: prev.start,
+        previousEndDate: prev.end,
+        newStartDate: next.start,
+        newEndDate: next.end,
+        startShiftMinutes: startShift.calendar,
+        startShiftWorkingMinutes: startShift.working,
+        endShiftMinutes: endShift.calendar,
+        endShiftWorkingMinutes: endShift.working,
+      });
+    }
+
+    const dueDate = next.dueDate ?? prev.dueDate;
+    if (
+      dueDate &&
+      toTime(next.end) > toTime(dueDate) &&
+      toTime(prev.end) <= toTime(dueDate)
+    ) {
+      newlyLateOrders.push({
+        workOrderId: next.workOrderId,
+        workOrderNumber: next.workOrderNumber,
+        dueDate,
+        newEndDate: next.end,
+        latenessMinutes: Math.round(
+          toTime(next.end).diff(toTime(dueDate), 'minutes').minutes,
+        ),
+      });
+    }
+
+    if (prev.workCenterId !== next.workCenterId) {
+      reassignedOrders.push({
+        workOrderId: next.workOrderId,
+        workOrderNumber: next.workOrderNumber,
+        fromWorkCenterId: prev.workCenterId,
+        toWorkCenterId: next.workCenterId,
+      });
+    }
+  }
+
+  const resequencedWorkCenters = findResequencedWorkCenters(
+    [...before.values()],
+    [...after.values()],
+    toTime,
+  );
+  const addedOrderIds = [...after.keys()].filter((id) => !before.has(id));
+  const removedOrderIds = [...before.keys()].filter((id) => !after.has(id));
+
+  return {
+    hasChanges:
+      movedOrders.length > 0 ||
+      resequencedWorkCenters.length > 0 ||
+      reassignedOrders.length > 0 ||
+      addedOrderIds.length > 0 ||
+      removedOrderIds.length > 0,
+    movedOrders,
+    resequencedWorkCenters,
+    newlyLateOrders,
+    reassignedOrders,
+    addedOrderIds,
+    removedOrderIds,
+  };
+}
+
+/**
+ * Finds work centers whose orders run in a different order. Only orders on
+ * the work center in both schedules count, so an order arriving or leaving
+ * does not by itself resequence the rest.
+ */
+function findResequencedWorkCenters(
+  before: Placement[],
+  after: Placement[],
+  toTime: (iso: string) => DateTime,
+): WorkCenterResequence[] {
+  const sequence = (placements: Placement[], workCenterId: string) =>
+    placements
+      .filter((p) => p.workCenterId === workCenterId)
+      .sort(
+        (a, b) =>
+          toTime(a.start).toMillis() - toTime(b.start).toMillis() ||
+          a.workOrderId.localeCompare(b.workOrderId),
+      )
+      .map((p) => p.workOrderId);
+
+  const workCenterIds = [...new Set(after.map((p) => p.workCenterId))];
+  const resequenced: WorkCenterResequence[] = [];
+
+  for (const workCenterId of workCenterIds) {
+    const previousSequence = sequence(before, workCenterId);
+    const newSequence = sequence(after, workCenterId);
+    const common = new Set(
+      previousSequence.filter((id) => newSequence.includes(id)),
+    );
+    const previousCommon = previousSequence.filter((id) => common.has(id));
+    const newCommon = newSequence.filter((id) => common.has(id));
+
+    const resequencedOrderIds = newCommon.filter(
+      (id, i) => previousCommon[i] !== id,
+    );
+    if (resequencedOrderIds.length > 0) {
+      resequenced.push({
+        workCenterId,
+        previousSequence,
+        newSequence,
+        resequencedOrderIds,
+      });
+    }
+  }
+
+  return resequenced;
+}
+
+/**
+ * Where an order sits according to its new dates.
+ */
+function newPlacement(result: ScheduledOrder): Placement {
+  return {
+    workOrderId: result.workOrderId,
+    workOrderNumber: result.workOrderNumber,
+    workCenterId: result.workCenterId,
+    start: result.newStartDate,
+    end: result.newEndDate,
+    dueDate: result.dueDate,
+  };
+}
+
+/**
+ * Where an order sat before the reflow that produced the result.
+ */
+function originalPlacement(result: ScheduledOrder): Placement {
+  return {
+    workOrderId: result.workOrderId,
+    workOrderNumber: result.workOrderNumber,
+    workCenterId: result.originalWorkCenterId ?? result.workCenterId,
+    start: result.originalStartDate,
+    end: result.originalEndDate,
+    dueDate: result.dueDate,
+  };
+}
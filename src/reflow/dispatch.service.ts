@@ -0,0 +1,155 @@
+/**
+ * Dispatch Rules for Work Order Sequencing
+ *
+ * When several work orders are ready at the same time, the order in which
+ * the scheduler places them decides who gets a contended machine first.
+ * Dispatch rules are comparators plugged into the topological sort.
+ *
+ * Built-in rules cover the common heuristics; custom rules can be added by
+ * name through `SchedulerConfig.customDispatchRules` or passed directly as
+ * functions.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  WorkOrder,
+  DispatchRuleName,
+  DispatchComparator,
+  DispatchContext,
+  UnknownDispatchRuleError,
+  DispatchRuleConflictError,
+} from './types';
+import { DependencyGraph } from './dag.service';
+
+/**
+ * Built-in comparators. Each one only expresses its own criterion;
+ * the topological sort breaks ties by start date and ID.
+ */
+const BUILT_IN_RULES: Record<DispatchRuleName, DispatchComparator> = {
+  'original-start': (a, b) => a.data.startDate.localeCompare(b.data.startDate),
+
+  'earliest-due-date': (a, b) =>
+    compareNumbers(dueDateMillis(a), dueDateMillis(b)),
+
+  'shortest-processing-time': (a, b) =>
+    a.data.durationMinutes - b.data.durationMinutes,
+
+  priority: (a, b) => (b.data.priority ?? 0) - (a.data.priority ?? 0),
+
+  'critical-ratio': (a, b, context) =>
+    compareNumbers(criticalRatio(a, context), criticalRatio(b, context)),
+
+  'longest-remaining-chain': (a, b, context) =>
+    (context.remainingChainMinutes.get(b.docId) ?? 0) -
+    (context.remainingChainMinutes.get(a.docId) ?? 0),
+};
+
+/**
+ * Looks up a dispatch rule by name, or returns a comparator as-is.
+ *
+ * @param rule - Rule name or comparator function
+ * @param customRules - Custom rules that may be selected by name
+ * @returns The comparator for the rule
+ * @throws DispatchRuleConflictError if a custom rule reuses a built-in name
+ * @throws UnknownDispatchRuleError if the name is not built in or custom
+ */
+export function resolveDispatchRule(
+  rule: string | DispatchComparator,
+  customRules: Record<string, DispatchComparator> = {},
+): DispatchComparator {
+  const conflict = Object.keys(customRules).find(
+    (name) => name in BUILT_IN_RULES,
+  );
+  if (conflict) {
+    throw new DispatchRuleConflictError(conflict);
+  }
+
+  if (typeof rule === 'function') {
+    return rule;
+  }
+
+  const comparator =
+    BUILT_IN_RULES[rule as DispatchRuleName] ??
+    (Object.hasOwn(customRules, rule) ? customRules[rule] : undefined);
+
+  if (!comparator) {
+    throw new UnknownDispatchRuleError(rule);
+  }
+  return comparator;
+}
+
+/**
+ * Computes the plan-wide context that dispatch comparators may use.
+ *
+ * @param graph - Dependency graph of the plan
+ * @returns Context with remaining chain lengths and the reference date
+ */
+export function buildDispatchContext(graph: DependencyGraph): DispatchContext {
+  const remainingChainMinutes = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  // Longest path (by duration) from a node through its dependents.
+  // Nodes on a cycle count as 0; the topological sort reports the cycle.
+  function chainLength(id: string): number {
+    const cached = remainingChainMinutes.get(id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const node = graph.nodes.get(id)!;
+    let longestDependent = 0;
+    for (const dependentId of node.dependents) {
+      longestDependent = Math.max(longestDependent, chainLength(dependentId));
+    }
+    visiting.delete(id);
+
+    const length = node.workOrder.data.durationMinutes + longestDependent;
+    remainingChainMinutes.set(id, length);
+    return length;
+  }
+
+  let referenceDate = '';
+  for (const [id, node] of graph.nodes) {
+    chainLength(id);
+    const startDate = node.workOrder.data.startDate;
+    if (!referenceDate || startDate < referenceDate) {
+      referenceDate = startDate;
+    }
+  }
+
+  return { remainingChainMinutes, referenceDate };
+}
+
+/**
+ * Due date in epoch milliseconds; orders without a due date sort last.
+ */
+function dueDateMillis(order: WorkOrder): number {
+  return order.data.dueDate
+    ? DateTime.fromISO(order.data.dueDate).toMillis()
+    : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Critical ratio = minutes until due (from the reference date) / duration.
+ * Below 1 means the order is already behind; orders without a due date sort last.
+ */
+function criticalRatio(order: WorkOrder, context: DispatchContext): number {
+  if (!order.data.dueDate) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  const minutesUntilDue = DateTime.fromISO(order.data.dueDate).diff(
+    DateTime.fromISO(context.referenceDate),
+    'minutes',
+  ).minutes;
+
+  return minutesUntilDue / Math.max(order.data.durationMinutes, 1);
+}
+
+/**
+ * Ascending numeric comparison that treats two infinities as equal.
+ */
+function compareNumbers(a: number, b: number): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
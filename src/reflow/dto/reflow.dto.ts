@@ -1,16 +1,157 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType, PickType } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import {
   IsArray,
   IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
   IsNumber,
   IsOptional,
+  IsPositive,
   IsString,
+  Max,
+  Min,
+  ValidateBy,
+  ValidateIf,
   ValidateNested,
+  ValidationOptions,
 } from 'class-validator';
+import type {
+  ConstraintType,
+  DependencyLink,
+  DependencyType,
+  FixedReason,
+  PlanEdit,
+  RoutingObjective,
+  SchedulingDirection,
+  ValidationIssueCode,
+  WarningCode,
+  WarningSeverity,
+  WorkOrderStatus,
+} from '../types';
+
+const DEPENDENCY_TYPES = ['FS', 'SS', 'FF', 'SF'];
+const LAG_TYPES = ['calendar', 'working'];
+const WORK_ORDER_STATUSES = ['planned', 'released', 'in-progress', 'completed'];
+const PLAN_EDIT_TYPES = ['move-order', 'change-duration', 'add-maintenance', 'remove-shift', 'add-order'];
+
+/**
+ * Accepts a work order docId or a `DependencyLink` object.
+ */
+function IsDependencyReference(validationOptions?: ValidationOptions) {
+  return ValidateBy(
+    {
+      name: 'isDependencyReference',
+      validator: {
+        validate: (value: unknown) => {
+          if (typeof value === 'string') {
+            return true;
+          }
+          if (typeof value !== 'object' || value === null) {
+            return false;
+          }
+          const link = value as Partial<DependencyLink>;
+          return (
+            typeof link.workOrderId === 'string' &&
+            (link.type === undefined || DEPENDENCY_TYPES.includes(link.type)) &&
+            (link.lagMinutes === undefined || Number.isFinite(link.lagMinutes)) &&
+            (link.lagType === undefined || LAG_TYPES.includes(link.lagType))
+          );
+        },
+        defaultMessage: () =>
+          'each value in $property must be a work order ID or ' +
+          '{ workOrderId, type?: FS|SS|FF|SF, lagMinutes?, lagType?: calendar|working }',
+      },
+    },
+    validationOptions,
+  );
+}
+
+/**
+ * Validates a plan edit field only for the edit types that use it.
+ */
+function ForEditTypes(...types: PlanEdit['type'][]) {
+  return ValidateIf((edit: Pick<PlanEdit, 'type'>) => types.includes(edit.type));
+}
 
 // ============== Work Order DTOs ==============
 
+export class AlternateWorkCenterDto {
+  @ApiProperty({ example: 'machine-b', description: 'Eligible alternate work center ID' })
+  @IsString()
+  workCenterId: string;
+
+  @ApiPropertyOptional({ example: 1.5, description: 'Duration factor on this work center', default: 1 })
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  durationMultiplier?: number;
+}
+
+export class RoutingOperationDto {
+  @ApiProperty({ example: 'weld', description: 'Operation ID, unique within the order' })
+  @IsString()
+  operationId: string;
+
+  @ApiProperty({ example: 'welder-1', description: 'Work center the operation runs on' })
+  @IsString()
+  workCenterId: string;
+
+  @ApiPropertyOptional({ type: [AlternateWorkCenterDto], description: 'Other work centers that can run the operation' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AlternateWorkCenterDto)
+  @IsOptional()
+  alternateWorkCenters?: AlternateWorkCenterDto[];
+
+  @ApiPropertyOptional({ example: ['certified-welders'], description: 'Secondary resources the operation needs for its whole run' })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  requiredResourceIds?: string[];
+
+  @ApiProperty({ example: 90, description: 'Working time required in minutes' })
+  @IsNumber()
+  @Min(0)
+  durationMinutes: number;
+
+  @ApiPropertyOptional({ example: '2025-12-08T11:00:00Z', description: "Scheduled start date (ISO 8601 UTC); defaults to the order's" })
+  @IsString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-08T12:30:00Z', description: "Scheduled end date (ISO 8601 UTC); defaults to the order's" })
+  @IsString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiPropertyOptional({ example: 'planned', enum: WORK_ORDER_STATUSES, description: "Shop floor status; defaults to the order's" })
+  @IsIn(WORK_ORDER_STATUSES)
+  @IsOptional()
+  status?: WorkOrderStatus;
+
+  @ApiPropertyOptional({ example: 30, description: 'Working minutes already done on an in-progress operation' })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  completedMinutes?: number;
+
+  @ApiPropertyOptional({ example: 'steel', description: "Product family for setup lookup; defaults to the order's" })
+  @IsString()
+  @IsOptional()
+  productFamily?: string;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Working minutes per transfer batch; the operation then overlaps the previous one instead of waiting for it to finish',
+  })
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  transferBatchMinutes?: number;
+}
+
 export class WorkOrderDataDto {
   @ApiProperty({ example: 'WO-001', description: 'Human-readable work order number' })
   @IsString()
@@ -20,6 +161,25 @@ export class WorkOrderDataDto {
   @IsString()
   workCenterId: string;
 
+  @ApiPropertyOptional({
+    type: [AlternateWorkCenterDto],
+    description: 'Other work centers that can process this order',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AlternateWorkCenterDto)
+  @IsOptional()
+  alternateWorkCenters?: AlternateWorkCenterDto[];
+
+  @ApiPropertyOptional({
+    example: ['operator-pool', 'mold-7'],
+    description: 'Secondary resources (work centers) the order needs for its whole run, alongside its own work center',
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  requiredResourceIds?: string[];
+
   @ApiProperty({ example: '2025-12-08T09:00:00Z', description: 'Scheduled start date (ISO 8601 UTC)' })
   @IsString()
   startDate: string;
@@ -37,15 +197,64 @@ export class WorkOrderDataDto {
   @IsOptional()
   isMaintenance?: boolean;
 
+  @ApiPropertyOptional({ example: false, description: 'If true, the order is released or in progress and keeps its times' })
+  @IsBoolean()
+  @IsOptional()
+  pinned?: boolean;
+
   @ApiPropertyOptional({
-    example: [],
-    description: 'Work order IDs that must complete before this order can start',
-    type: [String],
+    example: 'in-progress',
+    description: 'Shop floor status; completed orders take no capacity',
+    enum: WORK_ORDER_STATUSES,
+    default: 'planned',
+  })
+  @IsIn(WORK_ORDER_STATUSES)
+  @IsOptional()
+  status?: WorkOrderStatus;
+
+  @ApiPropertyOptional({ example: 90, description: 'Working minutes already done on an in-progress order' })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  completedMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: ['wo-000', { workOrderId: 'wo-001', type: 'SS', lagMinutes: 30, lagType: 'working' }],
+    description:
+      'Predecessor work orders: a docId (finish-to-start, no lag) or ' +
+      '{ workOrderId, type?: FS|SS|FF|SF, lagMinutes? (negative = lead), lagType?: calendar|working }',
+    type: 'array',
+    items: {},
   })
   @IsArray()
-  @IsString({ each: true })
+  @IsDependencyReference({ each: true })
+  @IsOptional()
+  dependsOnWorkOrderIds?: (string | DependencyLink)[];
+
+  @ApiPropertyOptional({ example: '2025-12-09T17:00:00Z', description: 'Date by which the order should be complete (ISO 8601 UTC)' })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  dueDate?: string;
+
+  @ApiPropertyOptional({ example: 0, description: 'Relative importance; higher values are more urgent', default: 0 })
+  @IsNumber()
+  @IsOptional()
+  priority?: number;
+
+  @ApiPropertyOptional({ example: 'red-paint', description: 'Product family used for setup time lookup' })
+  @IsString()
+  @IsOptional()
+  productFamily?: string;
+
+  @ApiPropertyOptional({
+    type: [RoutingOperationDto],
+    description: 'Ordered operations, each on its own work center; scheduled instead of the order itself',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RoutingOperationDto)
   @IsOptional()
-  dependsOnWorkOrderIds?: string[];
+  operations?: RoutingOperationDto[];
 }
 
 export class WorkOrderDto {
@@ -59,20 +268,131 @@ export class WorkOrderDto {
   data: WorkOrderDataDto;
 }
 
-// ============== Work Center DTOs ==============
-
-export class ShiftDefinitionDto {
-  @ApiProperty({ example: 1, description: 'Day of week: 0=Sunday, 1=Monday, ..., 6=Saturday' })
-  @IsNumber()
-  dayOfWeek: number;
+// ============== Calendar DTOs ==============
 
+export class ShiftWindowDto {
   @ApiProperty({ example: 8, description: 'Start hour (0-23)' })
-  @IsNumber()
+  @IsInt()
+  @Min(0)
+  @Max(23)
   startHour: number;
 
-  @ApiProperty({ example: 17, description: 'End hour (0-23)' })
-  @IsNumber()
+  @ApiPropertyOptional({ example: 30, description: 'Start minute (0-59)', default: 0 })
+  @IsInt()
+  @Min(0)
+  @Max(59)
+  @IsOptional()
+  startMinute?: number;
+
+  @ApiProperty({ example: 17, description: 'End hour (0-24, 24 = midnight)' })
+  @IsInt()
+  @Min(0)
+  @Max(24)
   endHour: number;
+
+  @ApiPropertyOptional({ example: 45, description: 'End minute (0-59)', default: 0 })
+  @IsInt()
+  @Min(0)
+  @Max(59)
+  @IsOptional()
+  endMinute?: number;
+}
+
+export class HolidayDto {
+  @ApiProperty({ example: '2025-12-25', description: 'Calendar date (yyyy-MM-dd)' })
+  @IsISO8601({ strict: true })
+  date: string;
+
+  @ApiPropertyOptional({ example: 'Christmas Day', description: 'Holiday name' })
+  @IsString()
+  @IsOptional()
+  name?: string;
+}
+
+export class ShiftOverrideDto {
+  @ApiProperty({ example: '2025-12-13', description: 'Calendar date (yyyy-MM-dd)' })
+  @IsISO8601({ strict: true })
+  date: string;
+
+  @ApiProperty({
+    type: [ShiftWindowDto],
+    description: 'Shifts that replace the weekly pattern on this date (empty = closed)',
+    example: [{ startHour: 6, endHour: 14 }],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShiftWindowDto)
+  shifts: ShiftWindowDto[];
+
+  @ApiPropertyOptional({ example: 'Saturday catch-up shift', description: 'Reason for the override' })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class OvertimeWindowDto {
+  @ApiProperty({ example: '2025-12-10T17:00:00Z', description: 'Start of overtime (ISO 8601 UTC)' })
+  @IsString()
+  startDate: string;
+
+  @ApiProperty({ example: '2025-12-10T20:00:00Z', description: 'End of overtime (ISO 8601 UTC)' })
+  @IsString()
+  endDate: string;
+
+  @ApiPropertyOptional({ example: 'Approved by plant manager', description: 'Reason for overtime' })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class CalendarExceptionsDto {
+  @ApiPropertyOptional({ type: [HolidayDto], description: 'Dates on which the weekly pattern does not run' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HolidayDto)
+  @IsOptional()
+  holidays?: HolidayDto[];
+
+  @ApiPropertyOptional({ type: [ShiftOverrideDto], description: 'Date-specific shift replacements' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShiftOverrideDto)
+  @IsOptional()
+  shiftOverrides?: ShiftOverrideDto[];
+
+  @ApiPropertyOptional({ type: [OvertimeWindowDto], description: 'Approved extra working windows' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OvertimeWindowDto)
+  @IsOptional()
+  overtimeWindows?: OvertimeWindowDto[];
+}
+
+export class CalendarDataDto extends CalendarExceptionsDto {
+  @ApiProperty({ example: 'Plant holidays 2025', description: 'Human-readable name' })
+  @IsString()
+  name: string;
+}
+
+export class CalendarDto {
+  @ApiProperty({ example: 'plant-holidays', description: 'Unique document ID' })
+  @IsString()
+  docId: string;
+
+  @ApiProperty({ type: CalendarDataDto })
+  @ValidateNested()
+  @Type(() => CalendarDataDto)
+  data: CalendarDataDto;
+}
+
+// ============== Work Center DTOs ==============
+
+export class ShiftDefinitionDto extends ShiftWindowDto {
+  @ApiProperty({ example: 1, description: 'Day of week: 0=Sunday, 1=Monday, ..., 6=Saturday' })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
 }
 
 export class MaintenanceWindowDto {
@@ -90,7 +410,22 @@ export class MaintenanceWindowDto {
   reason?: string;
 }
 
-export class WorkCenterDataDto {
+export class SetupTransitionDto {
+  @ApiProperty({ example: 'red-paint', description: 'Product family of the preceding order' })
+  @IsString()
+  fromFamily: string;
+
+  @ApiProperty({ example: 'white-paint', description: 'Product family of the following order' })
+  @IsString()
+  toFamily: string;
+
+  @ApiProperty({ example: 45, description: 'Working minutes of setup required' })
+  @IsNumber()
+  @Min(0)
+  setupMinutes: number;
+}
+
+export class WorkCenterDataDto extends CalendarExceptionsDto {
   @ApiProperty({ example: 'Machine A', description: 'Human-readable name' })
   @IsString()
   name: string;
@@ -121,6 +456,47 @@ export class WorkCenterDataDto {
   @Type(() => MaintenanceWindowDto)
   @IsOptional()
   maintenanceWindows?: MaintenanceWindowDto[];
+
+  @ApiPropertyOptional({
+    example: 1,
+    description: 'Number of identical parallel units; up to this many orders run at once',
+    default: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number;
+
+  @ApiPropertyOptional({
+    type: [SetupTransitionDto],
+    description: 'Sequence-dependent setup times between product families',
+    default: [],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SetupTransitionDto)
+  @IsOptional()
+  setupMatrix?: SetupTransitionDto[];
+
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Setup minutes on a product family change without a matrix entry',
+    default: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  defaultSetupMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: ['plant-holidays'],
+    description: 'IDs of shared calendars (from the request `calendars`) that apply to this work center',
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  calendarIds?: string[];
 }
 
 export class WorkCenterDto {
@@ -134,9 +510,120 @@ export class WorkCenterDto {
   data: WorkCenterDataDto;
 }
 
-// ============== Request DTO ==============
+// ============== Request DTOs ==============
+
+/**
+ * Scheduler options shared by every reflow request variant.
+ */
+export class ReflowOptionsDto {
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Allow scheduling earlier than original start date',
+  })
+  @IsBoolean()
+  @IsOptional()
+  allowEarlierStart?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'UTC',
+    description: 'Timezone for shift calculations',
+  })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    example: 'original-start',
+    description:
+      'Rule for ordering competing work orders: original-start, earliest-due-date, ' +
+      'shortest-processing-time, priority, critical-ratio, longest-remaining-chain, ' +
+      'or the name of a custom registered rule',
+    default: 'original-start',
+  })
+  @IsString()
+  @IsOptional()
+  dispatchRule?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Place competing orders strictly by priority (highest first); dispatchRule breaks ties',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  priorityScheduling?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'earliest-finish',
+    description: 'How to choose among assigned and alternate work centers',
+    enum: ['earliest-finish', 'earliest-start'],
+    default: 'earliest-finish',
+  })
+  @IsIn(['earliest-finish', 'earliest-start'])
+  @IsOptional()
+  routingObjective?: RoutingObjective;
+
+  @ApiPropertyOptional({
+    example: 'forward',
+    description:
+      'forward: as early as possible; backward: as late as possible from due dates and successors',
+    enum: ['forward', 'backward'],
+    default: 'forward',
+  })
+  @IsIn(['forward', 'backward'])
+  @IsOptional()
+  direction?: SchedulingDirection;
+
+  @ApiPropertyOptional({
+    example: '2025-12-08T06:00:00Z',
+    description: 'Time treated as now; backward-scheduled orders starting earlier are infeasible',
+  })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  currentTime?: string;
+
+  @ApiPropertyOptional({
+    example: 2880,
+    description: 'Orders starting before currentTime plus this many minutes are not moved',
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  frozenHorizonMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: 1440,
+    description: 'Warn when an order waits longer than this many minutes for the next shift',
+    default: 1440,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  shiftGapWarningMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Add a per-work-center load report (available, booked and idle time) to the response',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  includeUtilization?: boolean;
+
+  @ApiPropertyOptional({
+    type: [CalendarDto],
+    description: 'Shared calendars referenced by work centers via calendarIds',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CalendarDto)
+  @IsOptional()
+  calendars?: CalendarDto[];
+}
 
-export class ReflowRequestDto {
+export class ReflowRequestDto extends ReflowOptionsDto {
   @ApiProperty({
     type: [WorkOrderDto],
     description: 'Work orders to schedule',
@@ -154,29 +641,400 @@ export class ReflowRequestDto {
   @ValidateNested({ each: true })
   @Type(() => WorkCenterDto)
   workCenters: WorkCenterDto[];
+}
 
+export class StoredReflowRequestDto extends ReflowOptionsDto {
   @ApiPropertyOptional({
     example: false,
-    description: 'Allow scheduling earlier than original start date',
+    description: 'Write the new start/end dates of rescheduled orders back to the database',
   })
   @IsBoolean()
   @IsOptional()
-  allowEarlierStart?: boolean;
-
-  @ApiPropertyOptional({
-    example: 'UTC',
-    description: 'Timezone for shift calculations',
-  })
-  @IsString()
-  @IsOptional()
-  timezone?: string;
+  persist?: boolean;
 }
 
-// ============== Response DTOs ==============
+// ============== Plan Validation DTOs ==============
 
-export class ReflowResultDto {
-  @ApiProperty({ example: 'wo-001' })
-  workOrderId: string;
+// Plan validation reports out-of-range shifts, bad dates and negative
+// durations as issues, so its request only checks types and shape
+
+export class RawShiftWindowDto {
+  @ApiProperty({ example: 8 })
+  @IsNumber()
+  startHour: number;
+
+  @ApiPropertyOptional({ example: 30 })
+  @IsNumber()
+  @IsOptional()
+  startMinute?: number;
+
+  @ApiProperty({ example: 17 })
+  @IsNumber()
+  endHour: number;
+
+  @ApiPropertyOptional({ example: 45 })
+  @IsNumber()
+  @IsOptional()
+  endMinute?: number;
+}
+
+export class RawShiftDefinitionDto extends RawShiftWindowDto {
+  @ApiProperty({ example: 1 })
+  @IsNumber()
+  dayOfWeek: number;
+}
+
+export class RawShiftOverrideDto extends OmitType(ShiftOverrideDto, ['shifts']) {
+  @ApiProperty({ type: [RawShiftWindowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawShiftWindowDto)
+  shifts: RawShiftWindowDto[];
+}
+
+export class RawWorkCenterDataDto extends OmitType(WorkCenterDataDto, ['shifts', 'shiftOverrides']) {
+  @ApiProperty({ type: [RawShiftDefinitionDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawShiftDefinitionDto)
+  shifts: RawShiftDefinitionDto[];
+
+  @ApiPropertyOptional({ type: [RawShiftOverrideDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawShiftOverrideDto)
+  @IsOptional()
+  shiftOverrides?: RawShiftOverrideDto[];
+}
+
+export class RawWorkCenterDto extends OmitType(WorkCenterDto, ['data']) {
+  @ApiProperty({ type: RawWorkCenterDataDto })
+  @ValidateNested()
+  @Type(() => RawWorkCenterDataDto)
+  data: RawWorkCenterDataDto;
+}
+
+export class RawRoutingOperationDto extends OmitType(RoutingOperationDto, ['durationMinutes']) {
+  @ApiProperty({ example: 90 })
+  @IsNumber()
+  durationMinutes: number;
+}
+
+export class RawWorkOrderDataDto extends OmitType(WorkOrderDataDto, ['dueDate', 'operations']) {
+  @ApiPropertyOptional({ example: '2025-12-09T17:00:00Z' })
+  @IsString()
+  @IsOptional()
+  dueDate?: string;
+
+  @ApiPropertyOptional({ type: [RawRoutingOperationDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawRoutingOperationDto)
+  @IsOptional()
+  operations?: RawRoutingOperationDto[];
+}
+
+export class RawWorkOrderDto extends OmitType(WorkOrderDto, ['data']) {
+  @ApiProperty({ type: RawWorkOrderDataDto })
+  @ValidateNested()
+  @Type(() => RawWorkOrderDataDto)
+  data: RawWorkOrderDataDto;
+}
+
+export class PlanValidationRequestDto extends PickType(ReflowRequestDto, ['calendars']) {
+  @ApiProperty({ type: [RawWorkOrderDto], description: 'Work orders to check' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawWorkOrderDto)
+  workOrders: RawWorkOrderDto[];
+
+  @ApiProperty({ type: [RawWorkCenterDto], description: 'Work centers to check' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RawWorkCenterDto)
+  workCenters: RawWorkCenterDto[];
+}
+
+export class PlanEditDto {
+  @ApiProperty({ example: 'move-order', enum: PLAN_EDIT_TYPES })
+  @IsIn(PLAN_EDIT_TYPES)
+  type: PlanEdit['type'];
+
+  @ApiPropertyOptional({ example: 'wo-002', description: 'Order to change (move-order, change-duration)' })
+  @ForEditTypes('move-order', 'change-duration')
+  @IsString()
+  workOrderId?: string;
+
+  @ApiPropertyOptional({ example: 'machine-a', description: 'Work center to change (add-maintenance, remove-shift)' })
+  @ForEditTypes('add-maintenance', 'remove-shift')
+  @IsString()
+  workCenterId?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-12-08T10:00:00Z',
+    description: 'New start of the order (move-order) or start of the downtime (add-maintenance)',
+  })
+  @ForEditTypes('move-order', 'add-maintenance')
+  @IsISO8601({ strict: true })
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-08T14:00:00Z', description: 'End of the downtime (add-maintenance)' })
+  @ForEditTypes('add-maintenance')
+  @IsISO8601({ strict: true })
+  endDate?: string;
+
+  @ApiPropertyOptional({ example: 'Spindle repair', description: 'Reason for the downtime (add-maintenance)' })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @ApiPropertyOptional({ example: 'weld', description: 'Operation to change, required for routed orders (change-duration)' })
+  @IsString()
+  @IsOptional()
+  operationId?: string;
+
+  @ApiPropertyOptional({ example: 180, description: 'New working duration (change-duration)' })
+  @ForEditTypes('change-duration')
+  @IsNumber()
+  @Min(0)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({ example: 5, description: 'Day whose shifts are removed, 0=Sunday (remove-shift)' })
+  @ForEditTypes('remove-shift')
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek?: number;
+
+  @ApiPropertyOptional({ example: 14, description: 'Only remove the shift starting at this hour (remove-shift)' })
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  @IsOptional()
+  startHour?: number;
+
+  @ApiPropertyOptional({ type: WorkOrderDto, description: 'Order to add, e.g. a rush order (add-order)' })
+  @ForEditTypes('add-order')
+  @ValidateNested()
+  @Type(() => WorkOrderDto)
+  workOrder?: WorkOrderDto;
+}
+
+export class IncrementalReflowRequestDto extends ReflowRequestDto {
+  @ApiProperty({
+    type: [PlanEditDto],
+    description: 'Changes to the plan in workOrders, which holds the current schedule',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PlanEditDto)
+  edits: PlanEditDto[];
+}
+
+export class ScenarioDto {
+  @ApiProperty({ example: 'Machine A down Friday' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ type: [PlanEditDto], description: 'Changes applied to the baseline plan' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PlanEditDto)
+  edits: PlanEditDto[];
+}
+
+export class ScenarioRequestDto extends ReflowRequestDto {
+  @ApiProperty({
+    type: [ScenarioDto],
+    description: 'Scenarios to compare with the baseline plan in workOrders',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScenarioDto)
+  scenarios: ScenarioDto[];
+}
+
+export class ScheduledOrderDto {
+  @ApiProperty({ example: 'wo-001' })
+  @IsString()
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-001' })
+  @IsString()
+  workOrderNumber: string;
+
+  @ApiProperty({ example: '2025-12-08T09:00:00Z' })
+  @IsISO8601({ strict: true })
+  originalStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T11:00:00Z' })
+  @IsISO8601({ strict: true })
+  originalEndDate: string;
+
+  @ApiPropertyOptional({ example: 'machine-a', description: 'Defaults to workCenterId' })
+  @IsString()
+  @IsOptional()
+  originalWorkCenterId?: string;
+
+  @ApiProperty({ example: '2025-12-08T10:00:00Z' })
+  @IsISO8601({ strict: true })
+  newStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T12:00:00Z' })
+  @IsISO8601({ strict: true })
+  newEndDate: string;
+
+  @ApiProperty({ example: 'machine-a' })
+  @IsString()
+  workCenterId: string;
+
+  @ApiPropertyOptional({ example: '2025-12-09T17:00:00Z' })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  dueDate?: string;
+}
+
+export class ScheduleDiffRequestDto {
+  @ApiPropertyOptional({
+    type: [ScheduledOrderDto],
+    description: 'Earlier results; if omitted, the original dates in current are compared instead',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScheduledOrderDto)
+  @IsOptional()
+  previous?: ScheduledOrderDto[];
+
+  @ApiProperty({ type: [ScheduledOrderDto], description: 'New results, e.g. from POST /reflow' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScheduledOrderDto)
+  current: ScheduledOrderDto[];
+
+  @ApiProperty({ type: [WorkCenterDto], description: 'Work centers, for shifts in working minutes' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WorkCenterDto)
+  workCenters: WorkCenterDto[];
+
+  @ApiPropertyOptional({ example: 'UTC', description: 'Timezone for shift calculations' })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    type: [CalendarDto],
+    description: 'Shared calendars referenced by work centers via calendarIds',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CalendarDto)
+  @IsOptional()
+  calendars?: CalendarDto[];
+}
+
+export class PromiseOrderDataDto extends OmitType(WorkOrderDataDto, [
+  'startDate',
+  'endDate',
+  'isMaintenance',
+  'pinned',
+  'status',
+  'completedMinutes',
+] as const) {
+  @ApiPropertyOptional({
+    example: '2025-12-08T06:00:00Z',
+    description: 'Earliest time the order may start; defaults to currentTime (or now)',
+  })
+  @IsISO8601({ strict: true })
+  @IsOptional()
+  earliestStartDate?: string;
+}
+
+export class PromiseOrderDto {
+  @ApiProperty({ example: 'quote-1', description: 'Must not clash with an existing work order' })
+  @IsString()
+  docId: string;
+
+  @ApiProperty({ type: PromiseOrderDataDto })
+  @ValidateNested()
+  @Type(() => PromiseOrderDataDto)
+  data: PromiseOrderDataDto;
+}
+
+export class PromiseRequestDto extends ReflowRequestDto {
+  @ApiProperty({
+    type: [PromiseOrderDto],
+    description: 'Hypothetical orders to quote against the plan in workOrders',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PromiseOrderDto)
+  orders: PromiseOrderDto[];
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Let existing orders of lower priority than the new orders move out of their way',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  shiftLowerPriority?: boolean;
+}
+
+// ============== Persistence DTOs ==============
+
+export class UpdateWorkOrderDataDto extends PartialType(WorkOrderDataDto) {}
+
+export class UpdateWorkOrderDto {
+  @ApiProperty({ type: UpdateWorkOrderDataDto, description: 'Fields to change' })
+  @ValidateNested()
+  @Type(() => UpdateWorkOrderDataDto)
+  data: UpdateWorkOrderDataDto;
+}
+
+export class UpdateWorkCenterDataDto extends PartialType(WorkCenterDataDto) {}
+
+export class UpdateWorkCenterDto {
+  @ApiProperty({ type: UpdateWorkCenterDataDto, description: 'Fields to change' })
+  @ValidateNested()
+  @Type(() => UpdateWorkCenterDataDto)
+  data: UpdateWorkCenterDataDto;
+}
+
+// ============== Response DTOs ==============
+
+export class ScheduleConstraintDto {
+  @ApiProperty({
+    example: 'machine-busy',
+    enum: ['original-start', 'original-end', 'current-time', 'due-date', 'dependency', 'machine-busy', 'setup', 'shift', 'maintenance', 'resource'],
+  })
+  type: ConstraintType;
+
+  @ApiProperty({ example: '2025-12-08T11:00:00Z', description: 'Time the constraint moved the start to (end, when scheduling backward)' })
+  time: string;
+
+  @ApiPropertyOptional({ example: 'wo-002', description: 'Dependency, or order occupying the work center or resource' })
+  workOrderId?: string;
+
+  @ApiPropertyOptional({ example: 'FS', enum: DEPENDENCY_TYPES })
+  dependencyType?: DependencyType;
+
+  @ApiPropertyOptional({ example: 45 })
+  setupMinutes?: number;
+
+  @ApiPropertyOptional({ type: MaintenanceWindowDto })
+  maintenanceWindow?: MaintenanceWindowDto;
+
+  @ApiPropertyOptional({ example: 'operator-pool', description: 'Resource constraints only: the secondary resource that blocked the order' })
+  resourceId?: string;
+
+  @ApiProperty({ example: 'Work center occupied by "wo-002"; moved to 2025-12-08T11:00:00Z' })
+  message: string;
+}
+
+export class ReflowResultDto {
+  @ApiProperty({ example: 'wo-001' })
+  workOrderId: string;
 
   @ApiProperty({ example: 'WO-001' })
   workOrderNumber: string;
@@ -187,6 +1045,9 @@ export class ReflowResultDto {
   @ApiProperty({ example: '2025-12-08T11:00:00Z' })
   originalEndDate: string;
 
+  @ApiProperty({ example: 'machine-a', description: 'Work center the order was assigned to before reflow' })
+  originalWorkCenterId: string;
+
   @ApiProperty({ example: '2025-12-08T09:00:00Z' })
   newStartDate: string;
 
@@ -198,6 +1059,128 @@ export class ReflowResultDto {
 
   @ApiProperty({ example: false })
   isFixed: boolean;
+
+  @ApiPropertyOptional({ example: 'pinned', enum: ['completed', 'maintenance', 'pinned', 'frozen'] })
+  fixedReason?: FixedReason;
+
+  @ApiProperty({ example: 'machine-a', description: 'Work center the order is scheduled on' })
+  workCenterId: string;
+
+  @ApiProperty({ example: false })
+  wasReassigned: boolean;
+
+  @ApiPropertyOptional({ example: '2025-12-09T17:00:00Z' })
+  dueDate?: string;
+
+  @ApiPropertyOptional({ example: -120, description: 'Minutes after the due date (negative = early)' })
+  latenessMinutes?: number;
+
+  @ApiProperty({ example: false })
+  isLate: boolean;
+
+  @ApiPropertyOptional({ example: 1, description: 'Parallel unit (1-based) the order runs on' })
+  lane?: number;
+
+  @ApiPropertyOptional({ example: 150, description: 'In-progress orders only: working minutes still to do' })
+  remainingMinutes?: number;
+
+  @ApiProperty({ example: 0, description: 'Changeover minutes performed before the order' })
+  setupMinutes: number;
+
+  @ApiPropertyOptional({ example: '2025-12-08T08:15:00Z', description: 'Start of changeover, if any' })
+  setupStartDate?: string;
+
+  @ApiPropertyOptional({ type: [ScheduleConstraintDto], description: 'Constraints that moved the order, in the order they applied' })
+  constraintTrace?: ScheduleConstraintDto[];
+
+  @ApiPropertyOptional({ type: ScheduleConstraintDto, description: 'The constraint that decided the final position' })
+  bindingConstraint?: ScheduleConstraintDto;
+
+  @ApiPropertyOptional({ example: ['operator-pool'], description: 'Secondary resources the order occupies for its whole run' })
+  requiredResourceIds?: string[];
+
+  @ApiPropertyOptional({ example: 'operator-pool', description: 'Orders with required resources only: work center or resource whose availability decided the position' })
+  bindingResourceId?: string;
+
+  @ApiPropertyOptional({ example: ['wo-007'], description: 'Higher-priority orders that pushed this order back' })
+  displacedBy?: string[];
+
+  @ApiPropertyOptional({ example: ['wo-003'], description: 'Lower-priority orders this order pushed back' })
+  displacedOrders?: string[];
+
+  @ApiPropertyOptional({ example: false, description: 'Backward only: would have to start before now' })
+  isInfeasible?: boolean;
+
+  @ApiPropertyOptional({ example: false, description: 'No working time was left to place the order; it keeps its original times' })
+  isUnscheduled?: boolean;
+
+  @ApiPropertyOptional({ type: () => [ReflowResultDto], description: 'Routed orders only: a result per operation, in routing order' })
+  operations?: ReflowResultDto[];
+}
+
+export class DueDateWarningDto {
+  @ApiProperty({ example: 'wo-001' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-001' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: '2025-12-08T12:00:00Z' })
+  dueDate: string;
+
+  @ApiProperty({ example: '2025-12-08T11:00:00Z' })
+  originalEndDate: string;
+
+  @ApiProperty({ example: '2025-12-08T13:00:00Z' })
+  newEndDate: string;
+
+  @ApiProperty({ example: 60 })
+  latenessMinutes: number;
+}
+
+export class ScheduleWarningDto {
+  @ApiProperty({
+    example: 'order-delayed',
+    enum: [
+      'order-delayed',
+      'order-reassigned',
+      'order-displaced',
+      'due-date-missed',
+      'fixed-order-overlap',
+      'fixed-dependency-violated',
+      'deadline-infeasible',
+      'long-shift-gap',
+      'no-workable-slot',
+    ],
+  })
+  code: WarningCode;
+
+  @ApiProperty({ example: 'info', enum: ['info', 'warning', 'error'] })
+  severity: WarningSeverity;
+
+  @ApiProperty({ example: 'Work order "WO-002" delayed by 60 minutes' })
+  message: string;
+
+  @ApiPropertyOptional({ example: 'wo-002' })
+  workOrderId?: string;
+
+  @ApiPropertyOptional({ example: 'machine-a' })
+  workCenterId?: string;
+
+  @ApiPropertyOptional({ example: ['wo-001'], description: 'The dependency, or the displacing orders' })
+  relatedWorkOrderIds?: string[];
+
+  @ApiPropertyOptional({ example: 60, description: 'order-delayed: minutes later than the original start' })
+  delayMinutes?: number;
+
+  @ApiPropertyOptional({ example: 30, description: 'due-date-missed: minutes past the due date' })
+  latenessMinutes?: number;
+
+  @ApiPropertyOptional({ example: 15, description: 'fixed-dependency-violated: minutes the dependency is broken by' })
+  violationMinutes?: number;
+
+  @ApiPropertyOptional({ example: 3840, description: 'long-shift-gap: calendar minutes waited for the next shift' })
+  waitMinutes?: number;
 }
 
 export class ReflowMetadataDto {
@@ -210,10 +1193,102 @@ export class ReflowMetadataDto {
   @ApiProperty({ example: 0 })
   fixedCount: number;
 
+  @ApiProperty({ example: 0 })
+  reassignedCount: number;
+
+  @ApiProperty({ example: 45 })
+  totalSetupMinutes: number;
+
+  @ApiProperty({ example: 0 })
+  infeasibleCount: number;
+
+  @ApiProperty({ example: 1 })
+  lateCount: number;
+
+  @ApiProperty({ example: 60 })
+  totalTardinessMinutes: number;
+
+  @ApiProperty({ example: 60 })
+  maxTardinessMinutes: number;
+
+  @ApiProperty({ example: 66.67 })
+  onTimePercentage: number;
+
   @ApiProperty({ example: 5 })
   processingTimeMs: number;
 }
 
+export class IdleGapDto {
+  @ApiProperty({ example: '2025-12-08T14:00:00Z' })
+  startDate: string;
+
+  @ApiProperty({ example: '2025-12-08T16:00:00Z' })
+  endDate: string;
+
+  @ApiProperty({ example: 120, description: 'Working minutes in the gap' })
+  minutes: number;
+}
+
+export class LoadPeriodDto {
+  @ApiProperty({ example: '2025-12-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2025-12-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({ example: 480, description: 'Working minutes of all parallel units, after maintenance' })
+  availableMinutes: number;
+
+  @ApiProperty({ example: 360, description: 'Working minutes of setup and production booked' })
+  bookedMinutes: number;
+
+  @ApiProperty({ example: 75 })
+  utilizationPercentage: number;
+
+  @ApiProperty({ example: 0, description: 'Booked minutes beyond what is available' })
+  overloadMinutes: number;
+}
+
+export class WorkCenterUtilizationReportDto {
+  @ApiProperty({ example: 'machine-a' })
+  workCenterId: string;
+
+  @ApiProperty({ example: 960 })
+  availableMinutes: number;
+
+  @ApiProperty({ example: 720 })
+  bookedMinutes: number;
+
+  @ApiProperty({ example: 60, description: 'Working minutes taken by maintenance orders' })
+  maintenanceMinutes: number;
+
+  @ApiProperty({ example: 75 })
+  utilizationPercentage: number;
+
+  @ApiProperty({ example: 0 })
+  overloadMinutes: number;
+
+  @ApiProperty({ type: [IdleGapDto], description: 'Working time with no order running on any unit' })
+  idleGaps: IdleGapDto[];
+
+  @ApiProperty({ type: [LoadPeriodDto] })
+  daily: LoadPeriodDto[];
+
+  @ApiProperty({ type: [LoadPeriodDto], description: 'Weeks start on Monday' })
+  weekly: LoadPeriodDto[];
+}
+
+export class UtilizationReportDto {
+  @ApiPropertyOptional({ example: '2025-12-08T08:00:00.000Z', description: 'Earliest start; omitted when there are no orders' })
+  horizonStart?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-09T17:00:00.000Z', description: 'Latest end' })
+  horizonEnd?: string;
+
+  @ApiProperty({ type: [WorkCenterUtilizationReportDto] })
+  workCenters: WorkCenterUtilizationReportDto[];
+}
+
 export class ReflowResponseDto {
   @ApiProperty({ type: [ReflowResultDto] })
   results: ReflowResultDto[];
@@ -221,7 +1296,397 @@ export class ReflowResponseDto {
   @ApiProperty({ type: [String], example: [] })
   warnings: string[];
 
+  @ApiProperty({ type: [ScheduleWarningDto], description: 'The same warnings with codes and severities' })
+  warningDetails: ScheduleWarningDto[];
+
+  @ApiProperty({ type: [DueDateWarningDto] })
+  dueDateWarnings: DueDateWarningDto[];
+
   @ApiProperty({ type: ReflowMetadataDto })
   metadata: ReflowMetadataDto;
+
+  @ApiPropertyOptional({ type: UtilizationReportDto, description: 'Only present when includeUtilization is set' })
+  utilization?: UtilizationReportDto;
+}
+
+export class CriticalPathEntryDto {
+  @ApiProperty({ example: 'wo-001' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-001' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: 'machine-a' })
+  workCenterId: string;
+
+  @ApiProperty({ example: '2025-12-08T08:00:00Z', description: 'Scheduled start' })
+  earliestStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T10:00:00Z', description: 'Scheduled end' })
+  earliestEndDate: string;
+
+  @ApiProperty({ example: '2025-12-08T09:00:00Z', description: 'Latest start not delaying the plan end' })
+  latestStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T11:00:00Z' })
+  latestEndDate: string;
+
+  @ApiProperty({ example: 60, description: 'Working minutes of slip before the plan end moves' })
+  totalFloatMinutes: number;
+
+  @ApiProperty({ example: 0, description: 'Working minutes of slip before any successor moves' })
+  freeFloatMinutes: number;
+
+  @ApiProperty({ example: false })
+  isCritical: boolean;
+}
+
+export class CriticalPathResponseDto {
+  @ApiPropertyOptional({ example: '2025-12-08T16:00:00Z', description: 'End of the plan' })
+  projectEndDate?: string;
+
+  @ApiProperty({ type: [CriticalPathEntryDto] })
+  orders: CriticalPathEntryDto[];
+
+  @ApiProperty({
+    type: 'array',
+    items: { type: 'array', items: { type: 'string' } },
+    example: [['wo-001', 'wo-003']],
+    description: 'Chains of critical orders in time order',
+  })
+  criticalChains: string[][];
+}
+
+export class DependencyEdgeDto {
+  @ApiProperty({ example: 'wo-002' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'wo-001' })
+  dependsOnWorkOrderId: string;
 }
 
+export class ValidationIssueDto {
+  @ApiProperty({
+    example: 'missing-dependency',
+    enum: [
+      'missing-dependency',
+      'self-dependency',
+      'circular-dependency',
+      'missing-work-center',
+      'missing-calendar',
+      'invalid-date',
+      'end-before-start',
+      'negative-duration',
+      'invalid-shift',
+      'maintenance-overlap',
+    ],
+  })
+  code: ValidationIssueCode;
+
+  @ApiProperty({ example: 'Work order "wo-002" depends on non-existent order "wo-009"' })
+  message: string;
+
+  @ApiPropertyOptional({ example: 'wo-002' })
+  workOrderId?: string;
+
+  @ApiPropertyOptional({ example: 'machine-a' })
+  workCenterId?: string;
+
+  @ApiPropertyOptional({ example: 'shifts[2].endHour', description: 'Offending field' })
+  field?: string;
+
+  @ApiPropertyOptional({ example: 'wo-009', description: 'Unknown document, or the other order involved' })
+  referenceId?: string;
+
+  @ApiPropertyOptional({ example: ['wo-001', 'wo-002', 'wo-001'], description: 'Orders around a cycle' })
+  cycle?: string[];
+
+  @ApiPropertyOptional({ example: ['wo-001', 'wo-002'], description: 'All orders in the cycle group' })
+  component?: string[];
+
+  @ApiPropertyOptional({ type: [DependencyEdgeDto], description: 'Links to remove to break the group' })
+  edgesToBreak?: DependencyEdgeDto[];
+}
+
+export class ValidationReportDto {
+  @ApiProperty({ example: false })
+  isValid: boolean;
+
+  @ApiProperty({ type: [ValidationIssueDto] })
+  issues: ValidationIssueDto[];
+}
+
+export class IncrementalReflowSummaryDto {
+  @ApiProperty({ example: 4, description: 'Orders recomputed because the edits could affect them' })
+  impactedCount: number;
+
+  @ApiProperty({ example: 2, description: 'Impacted orders whose start, end or work center changed' })
+  changedCount: number;
+
+  @ApiProperty({ example: 46, description: 'Orders left exactly as they were' })
+  untouchedCount: number;
+
+  @ApiProperty({ example: 120, description: 'Largest start shift, in calendar minutes (negative = earlier)' })
+  maxStartShiftMinutes: number;
+
+  @ApiProperty({ example: 60, description: 'Change of the plan end, in calendar minutes' })
+  makespanDeltaMinutes: number;
+}
+
+export class IncrementalReflowResponseDto {
+  @ApiProperty({ type: [ReflowResultDto], description: 'Only the orders that changed' })
+  results: ReflowResultDto[];
+
+  @ApiProperty({ type: [String], example: [] })
+  warnings: string[];
+
+  @ApiProperty({ type: [ScheduleWarningDto] })
+  warningDetails: ScheduleWarningDto[];
+
+  @ApiProperty({ type: IncrementalReflowSummaryDto })
+  summary: IncrementalReflowSummaryDto;
+}
+
+export class WorkCenterUtilizationDto {
+  @ApiProperty({ example: 'machine-a' })
+  workCenterId: string;
+
+  @ApiProperty({ example: 62.5 })
+  utilizationPercentage: number;
+}
+
+export class ScenarioMetricsDto {
+  @ApiPropertyOptional({ example: '2025-12-09T16:00:00Z', description: 'Latest end of any order' })
+  makespanEndDate?: string;
+
+  @ApiProperty({ example: 1920, description: 'Calendar minutes from the earliest start to the latest end' })
+  makespanMinutes: number;
+
+  @ApiProperty({ example: 1 })
+  lateCount: number;
+
+  @ApiProperty({ example: 60 })
+  totalTardinessMinutes: number;
+
+  @ApiProperty({ type: [WorkCenterUtilizationDto] })
+  utilization: WorkCenterUtilizationDto[];
+}
+
+export class ScenarioOrderDeltaDto {
+  @ApiProperty({ example: 'wo-002' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-002' })
+  workOrderNumber: string;
+
+  @ApiPropertyOptional({ example: '2025-12-08T10:00:00Z', description: 'Omitted for orders added by the scenario' })
+  baselineStartDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-08T12:00:00Z' })
+  baselineEndDate?: string;
+
+  @ApiProperty({ example: '2025-12-08T12:00:00Z' })
+  scenarioStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T14:00:00Z' })
+  scenarioEndDate: string;
+
+  @ApiPropertyOptional({ example: 120, description: 'Calendar minutes the start moved (negative = earlier)' })
+  startDeltaMinutes?: number;
+
+  @ApiPropertyOptional({ example: 120 })
+  endDeltaMinutes?: number;
+}
+
+export class WorkCenterUtilizationDeltaDto {
+  @ApiProperty({ example: 'machine-a' })
+  workCenterId: string;
+
+  @ApiProperty({ example: -12.5, description: 'Percentage points gained (or lost)' })
+  deltaPercentage: number;
+}
+
+export class ScenarioBaselineDto {
+  @ApiProperty({ type: ReflowResponseDto })
+  output: ReflowResponseDto;
+
+  @ApiProperty({ type: ScenarioMetricsDto })
+  metrics: ScenarioMetricsDto;
+}
+
+export class ScenarioResultDto extends ScenarioBaselineDto {
+  @ApiProperty({ example: 'Machine A down Friday' })
+  name: string;
+
+  @ApiProperty({ type: [ScenarioOrderDeltaDto] })
+  orderDeltas: ScenarioOrderDeltaDto[];
+
+  @ApiProperty({ example: 120 })
+  makespanDeltaMinutes: number;
+
+  @ApiProperty({ example: 1 })
+  lateCountDelta: number;
+
+  @ApiProperty({ example: 60 })
+  tardinessDeltaMinutes: number;
+
+  @ApiProperty({ type: [WorkCenterUtilizationDeltaDto] })
+  utilizationDeltas: WorkCenterUtilizationDeltaDto[];
+}
+
+export class ScenarioComparisonResponseDto {
+  @ApiProperty({ type: ScenarioBaselineDto })
+  baseline: ScenarioBaselineDto;
+
+  @ApiProperty({ type: [ScenarioResultDto] })
+  scenarios: ScenarioResultDto[];
+}
+
+export class OrderMoveDto {
+  @ApiProperty({ example: 'wo-002' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-002' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: 'machine-a', description: 'Work center in the new schedule' })
+  workCenterId: string;
+
+  @ApiProperty({ example: '2025-12-08T10:00:00Z' })
+  previousStartDate: string;
+
+  @ApiProperty({ example: '2025-12-08T12:00:00Z' })
+  previousEndDate: string;
+
+  @ApiProperty({ example: '2025-12-09T09:00:00Z' })
+  newStartDate: string;
+
+  @ApiProperty({ example: '2025-12-09T11:00:00Z' })
+  newEndDate: string;
+
+  @ApiProperty({ example: 1380, description: 'Calendar minutes the start moved (negative = earlier)' })
+  startShiftMinutes: number;
+
+  @ApiProperty({ example: 420, description: 'Working minutes the start moved' })
+  startShiftWorkingMinutes: number;
+
+  @ApiProperty({ example: 1380 })
+  endShiftMinutes: number;
+
+  @ApiProperty({ example: 420 })
+  endShiftWorkingMinutes: number;
+}
+
+export class WorkCenterResequenceDto {
+  @ApiProperty({ example: 'machine-a' })
+  workCenterId: string;
+
+  @ApiProperty({ example: ['wo-001', 'wo-002'] })
+  previousSequence: string[];
+
+  @ApiProperty({ example: ['wo-002', 'wo-001'] })
+  newSequence: string[];
+
+  @ApiProperty({ example: ['wo-002', 'wo-001'], description: 'Orders whose position changed' })
+  resequencedOrderIds: string[];
+}
+
+export class NewlyLateOrderDto {
+  @ApiProperty({ example: 'wo-002' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-002' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: '2025-12-08T17:00:00Z' })
+  dueDate: string;
+
+  @ApiProperty({ example: '2025-12-09T11:00:00Z' })
+  newEndDate: string;
+
+  @ApiProperty({ example: 1080, description: 'Calendar minutes after the due date' })
+  latenessMinutes: number;
+}
+
+export class OrderReassignmentDto {
+  @ApiProperty({ example: 'wo-002' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'WO-002' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: 'machine-a' })
+  fromWorkCenterId: string;
+
+  @ApiProperty({ example: 'machine-b' })
+  toWorkCenterId: string;
+}
+
+export class ScheduleDiffDto {
+  @ApiProperty({ example: true })
+  hasChanges: boolean;
+
+  @ApiProperty({ type: [OrderMoveDto] })
+  movedOrders: OrderMoveDto[];
+
+  @ApiProperty({ type: [WorkCenterResequenceDto] })
+  resequencedWorkCenters: WorkCenterResequenceDto[];
+
+  @ApiProperty({ type: [NewlyLateOrderDto] })
+  newlyLateOrders: NewlyLateOrderDto[];
+
+  @ApiProperty({ type: [OrderReassignmentDto] })
+  reassignedOrders: OrderReassignmentDto[];
+
+  @ApiProperty({ example: [], description: 'Orders only in the new schedule' })
+  addedOrderIds: string[];
+
+  @ApiProperty({ example: [], description: 'Orders only in the previous schedule' })
+  removedOrderIds: string[];
+}
+
+export class PromiseQuoteDto {
+  @ApiProperty({ example: 'quote-1' })
+  workOrderId: string;
+
+  @ApiProperty({ example: 'Q-1' })
+  workOrderNumber: string;
+
+  @ApiProperty({ example: 'machine-b', description: 'Work center the order would run on' })
+  workCenterId: string;
+
+  @ApiProperty({ example: '2025-12-09T13:00:00Z' })
+  startDate: string;
+
+  @ApiProperty({ example: '2025-12-10T10:00:00Z', description: 'Earliest time the order can be complete' })
+  promisedDate: string;
+
+  @ApiPropertyOptional({ example: '2025-12-12T17:00:00Z' })
+  dueDate?: string;
+
+  @ApiProperty({ example: false })
+  isLate: boolean;
+
+  @ApiPropertyOptional({ example: -3300 })
+  latenessMinutes?: number;
+
+  @ApiPropertyOptional({ type: ScheduleConstraintDto, description: 'What kept the order from starting sooner' })
+  bindingConstraint?: ScheduleConstraintDto;
+
+  @ApiProperty({ example: true, description: 'False if no work center had working time left for the order' })
+  canPromise: boolean;
+}
+
+export class PromiseResponseDto {
+  @ApiProperty({ type: [PromiseQuoteDto] })
+  quotes: PromiseQuoteDto[];
+
+  @ApiProperty({ type: [OrderMoveDto], description: 'Existing orders that would move (shiftLowerPriority only)' })
+  shiftedOrders: OrderMoveDto[];
+
+  @ApiProperty({ type: [String], example: [] })
+  warnings: string[];
+
+  @ApiProperty({ type: [ScheduleWarningDto] })
+  warningDetails: ScheduleWarningDto[];
+}
@@ -0,0 +1,245 @@
+/**
+ * Incremental Reflow
+ *
+ * A full reflow recomputes every order, even when a single order moved. An
+ * incremental reflow only recomputes the orders a change can reach: the
+ * edited orders, their transitive dependents, and the orders after them on
+ * the same work centers (including any alternate centers they could move
+ * to). Every other order is pinned at its current times, so it stays
+ * exactly as it was, and only the orders that actually changed are returned.
+ *
+ * The work orders passed in are the current plan, e.g. the dates written
+ * back by a previous reflow.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  IncrementalReflowOutput,
+  PlanEdit,
+  RoutingOperation,
+  SchedulerConfig,
+  WorkCenter,
+  WorkOrder,
+} from './types';
+import { applyPlanEdits } from './plan-edit.service';
+import { SchedulerService } from './scheduler.service';
+import {
+  buildDependencyGraph,
+  getTransitiveDependents,
+  DependencyGraph,
+} from './dag.service';
+import { expandRoutings } from './routing.service';
+import { maxDateTime } from '../utils/date-utils';
+
+/**
+ * Applies edits to the current plan and reflows only the impacted orders.
+ *
+ * @param workOrders - Current plan
+ * @param workCenters - Work centers of the plan
+ * @param edits - Changes to apply, e.g. an order moved or a machine down
+ * @param config - Scheduler configuration
+ * @returns Results for the orders that changed, and a summary
+ * @throws InvalidPlanEditError if an edit refers to an unknown order or work center
+ */
+export function reflowIncremental(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  edits: PlanEdit[],
+  config: SchedulerConfig = {},
+): IncrementalReflowOutput {
+  const timezone = config.timezone ?? 'UTC';
+  const edited = applyPlanEdits(workOrders, workCenters, edits);
+  const graph = buildDependencyGraph(expandRoutings(edited.workOrders));
+  const impacted = findImpactedOrders(
+    workOrders,
+    edited.workOrders,
+    graph,
+    edits,
+    timezone,
+  );
+
+  // Everything outside the impacted subgraph keeps its times
+  const orders = edited.workOrders.map((o) =>
+    impacted.has(o.docId) ? o : { ...o, data: { ...o.data, pinned: true } },
+  );
+  const output = new SchedulerService(edited.workCenters, config).reflow(
+    orders,
+  );
+
+  // Report changes against the plan before the edits
+  const before = new Map(workOrders.map((o) => [o.docId, o]));
+  const toTime = (iso: string) => DateTime.fromISO(iso, { zone: timezone });
+  const results = output.results
+    .filter((r) => impacted.has(r.workOrderId))
+    .map((r) => {
+      const original = before.get(r.workOrderId);
+      if (!original) return r;
+      const wasRescheduled =
+        !toTime(r.newStartDate).equals(toTime(original.data.startDate)) ||
+        !toTime(r.newEndDate).equals(toTime(original.data.endDate));
+      return {
+        ...r,
+        originalStartDate: original.data.startDate,
+        originalEndDate: original.data.endDate,
+        originalWorkCenterId: original.data.workCenterId,
+        wasRescheduled,
+      };
+    })
+    .filter(
+      (r) =>
+        !before.has(r.workOrderId) ||
+        r.wasRescheduled ||
+        r.workCenterId !== before.get(r.workOrderId)!.data.workCenterId,
+    );
+
+  const warningDetails = output.warningDetails.filter(
+    (w) => w.workOrderId === undefined || impacted.has(w.workOrderId),
+  );
+
+  const startShifts = results.map(
+    (r) =>
+      toTime(r.newStartDate).diff(toTime(r.originalStartDate), 'minutes')
+        .minutes,
+  );
+  const planEnd = (ends: string[]) =>
+    maxDateTime(...ends.map(toTime)) ?? DateTime.fromMillis(0);
+  const makespanDelta = planEnd(output.results.map((r) => r.newEndDate)).diff(
+    planEnd(workOrders.map((o) => o.data.endDate)),
+    'minutes',
+  ).minutes;
+
+  return {
+    results,
+    warnings: warningDetails.map((w) => w.message),
+    warningDetails,
+    summary: {
+      impactedCount: impacted.size,
+      changedCount: results.length,
+      untouchedCount: edited.workOrders.length - impacted.size,
+      maxStartShiftMinutes: Math.round(
+        startShifts.reduce(
+          (max, shift) => (Math.abs(shift) > Math.abs(max) ? shift : max),
+          0,
+        ),
+      ),
+      makespanDeltaMinutes: Math.round(makespanDelta),
+    },
+  };
+}
+
+/**
+ * Finds the orders an edit can reach, growing the set until it is closed:
+ * - the edited and added orders, or every order on a work center whose
+ *   calendar changed, from the change onwards
+ * - transitive dependents of impacted orders (through the operations of
+ *   routed orders)
+ * - orders that end after an impacted order starts (before or after the
+ *   edits) on a work center it may run on or a resource it needs
+ */
+function findImpactedOrders(
+  before: WorkOrder[],
+  after: WorkOrder[],
+  graph: DependencyGraph,
+  edits: PlanEdit[],
+  timezone: string,
+): Set<string> {
+  const toTime = (iso: string) => DateTime.fromISO(iso, { zone: timezone });
+  const startBefore = new Map(before.map((o) => [o.docId, o.data.startDate]));
+  const impacted = new Set<string>();
+
+  // Graph nodes are operations for routed orders; impact is tracked per order
+  const orderOf = (nodeId: string) =>
+    graph.nodes.get(nodeId)!.workOrder.data.parentWorkOrderId ?? nodeId;
+  const nodeIds = new Map<string, string[]>();
+  for (const nodeId of graph.allIds) {
+    const id = orderOf(nodeId);
+    nodeIds.set(id, [...(nodeIds.get(id) ?? []), nodeId]);
+  }
+
+  // Earliest time from which each work center's schedule may change
+  const changedFrom = new Map<string, DateTime>();
+  const markChanged = (workCenterId: string, from: DateTime) => {
+    const current = changedFrom.get(workCenterId);
+    if (!current || from < current) {
+      changedFrom.set(workCenterId, from);
+    }
+  };
+
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'move-order':
+      case 'change-duration':
+        impacted.add(edit.workOrderId);
+        break;
+      case 'add-order':
+        impacted.add(edit.workOrder.docId);
+        break;
+      case 'add-maintenance':
+        markChanged(edit.workCenterId, toTime(edit.startDate));
+        break;
+      case 'remove-shift':
+        markChanged(edit.workCenterId, DateTime.fromMillis(0));
+        break;
+    }
+  }
+
+  for (;;) {
+    const size = impacted.size;
+
+    for (const id of [...impacted]) {
+      for (const nodeId of nodeIds.get(id) ?? []) {
+        for (const dependentId of getTransitiveDependents(graph, nodeId)) {
+          impacted.add(orderOf(dependentId));
+        }
+      }
+    }
+
+    for (const order of after.filter((o) => impacted.has(o.docId))) {
+      const starts = [order.data.startDate, startBefore.get(order.docId)]
+        .filter((d) => d !== undefined)
+        .map(toTime);
+      const workCenterIds = getSteps(order).flatMap((step) => [
+        step.workCenterId,
+        ...(step.alternateWorkCenters ?? []).map((a) => a.workCenterId),
+        ...(step.requiredResourceIds ?? []),
+      ]);
+      for (const workCenterId of workCenterIds) {
+        for (const start of starts) {
+          markChanged(workCenterId, start);
+        }
+      }
+    }
+
+    for (const order of after) {
+      const changed = getSteps(order)
+        .flatMap((step) => [
+          step.workCenterId,
+          ...(step.requiredResourceIds ?? []),
+        ])
+        .some((id) => {
+          const from = changedFrom.get(id);
+          return from && toTime(order.data.endDate) > from;
+        });
+      if (changed) {
+        impacted.add(order.docId);
+      }
+    }
+
+    if (impacted.size === size) {
+      return impacted;
+    }
+  }
+}
+
+/**
+ * The parts of an order that occupy work centers: its operations if it is
+ * routed, or else the order itself.
+ */
+function getSteps(
+  order: WorkOrder,
+): Pick<
+  RoutingOperation,
+  'workCenterId' | 'alternateWorkCenters' | 'requiredResourceIds'
+>[] {
+  return order.data.operations?.length ? order.data.operations : [order.data];
+}
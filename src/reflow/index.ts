@@ -1,22 +1,22 @@
 /**
  * Production Schedule Reflow Module
- * 
+ *
  * This module provides finite capacity scheduling for manufacturing work orders.
  * It handles shift schedules, maintenance windows, dependencies, and machine capacity.
- * 
+ *
  * @example
  * ```typescript
  * import { SchedulerService, reflowSchedule, WorkOrder, WorkCenter } from './reflow';
- * 
+ *
  * // Create work centers with shift definitions
  * const workCenters: WorkCenter[] = [...];
- * 
+ *
  * // Create work orders with dependencies
  * const workOrders: WorkOrder[] = [...];
- * 
+ *
  * // Option 1: Use the convenience function
  * const result = reflowSchedule(workOrders, workCenters);
- * 
+ *
  * // Option 2: Use the service class for more control
  * const scheduler = new SchedulerService(workCenters, { timezone: 'America/New_York' });
  * const result = scheduler.reflow(workOrders);
@@ -26,12 +26,64 @@
 // Core types
 export type {
   WorkOrder,
+  WorkOrderStatus,
   WorkCenter,
+  AlternateWorkCenter,
+  RoutingOperation,
+  DependencyLink,
+  DependencyType,
+  LagType,
+  SetupTransition,
   ShiftDefinition,
+  ShiftWindow,
   MaintenanceWindow,
+  Calendar,
+  CalendarExceptions,
+  Holiday,
+  ShiftOverride,
+  OvertimeWindow,
   ReflowResult,
   ReflowOutput,
+  ScheduleWarning,
+  WarningCode,
+  WarningSeverity,
   SchedulerConfig,
+  RoutingObjective,
+  SchedulingDirection,
+  FixedReason,
+  ConstraintType,
+  ScheduleConstraint,
+  CriticalPathAnalysis,
+  CriticalPathEntry,
+  ValidationIssue,
+  DependencyEdge,
+  CyclicComponent,
+  ValidationIssueCode,
+  ValidationReport,
+  PlanEdit,
+  IncrementalReflowOutput,
+  IncrementalReflowSummary,
+  Scenario,
+  ScenarioMetrics,
+  ScenarioOrderDelta,
+  ScenarioResult,
+  ScenarioComparison,
+  ScheduledOrder,
+  ScheduleDiff,
+  OrderMove,
+  WorkCenterResequence,
+  NewlyLateOrder,
+  OrderReassignment,
+  UtilizationReport,
+  WorkCenterUtilization,
+  LoadPeriod,
+  IdleGap,
+  PromiseOptions,
+  PromiseQuote,
+  PromiseOutput,
+  DispatchRuleName,
+  DispatchComparator,
+  DispatchContext,
 } from './types';
 
 // Error classes
@@ -39,15 +91,76 @@ export {
   CircularDependencyError,
   MissingDependencyError,
   MissingWorkCenterError,
+  MissingCalendarError,
+  UnknownDispatchRuleError,
+  DispatchRuleConflictError,
+  NoWorkableSlotError,
+  InvalidPlanEditError,
 } from './types';
 
 // Main scheduler
 export { SchedulerService, reflowSchedule } from './scheduler.service';
 
+// Work center timelines (gap-filling placement)
+export { WorkCenterTimeline } from './timeline.service';
+export type { TimelineBooking } from './timeline.service';
+
+// Operation routings (multi-step orders expanded into chained operations)
+export {
+  expandRoutings,
+  getOperationOrderId,
+  isRoutedOrder,
+} from './routing.service';
+
+// Secondary resources (operators, fixtures) booked alongside the machine
+export {
+  findEarliestCommonSlot,
+  findLatestCommonSlot,
+  findBindingResource,
+} from './resource.service';
+export type { RequiredResource } from './resource.service';
+
+// Constraint traces (why an order was placed where it is)
+export { traceConstraint } from './trace.service';
+
+// Critical path and float analysis
+export { analyzeCriticalPath } from './critical-path.service';
+
+// Work center load (available, booked and idle time)
+export { buildUtilizationReport } from './utilization.service';
+
+// Plan validation (all problems at once, without scheduling)
+export { validatePlan } from './validation.service';
+
+// Plan edits, incremental reflow and what-if scenarios
+export { applyPlanEdits } from './plan-edit.service';
+export { reflowIncremental } from './incremental.service';
+export { compareScenarios } from './scenario.service';
+
+// Available-to-promise quotes for hypothetical orders
+export { promiseOrders } from './promise.service';
+
+// Schedule diffs (change sets for downstream systems)
+export { diffSchedules } from './diff.service';
+
+// Setup times between product families
+export { getSetupMinutes } from './setup.service';
+
+// Calendar utilities
+export { resolveWorkCenterCalendars } from './calendar.service';
+
+// Dispatch rules (custom comparators for competing orders)
+export {
+  resolveDispatchRule,
+  buildDispatchContext,
+} from './dispatch.service';
+
 // DAG utilities (for advanced use cases)
 export {
   buildDependencyGraph,
+  getDependencyLinks,
   topologicalSort,
+  findCyclicComponents,
   validateDependencies,
   getTransitiveDependents,
   getTransitiveDependencies,
@@ -56,10 +169,16 @@ export {
 // Date utilities (for custom scheduling logic)
 export {
   calculateEndDateWithShifts,
+  calculateStartDateWithShifts,
+  calculateWorkingMinutesBetween,
   findEarliestValidStart,
+  findLatestValidEnd,
   findNextWorkableSlot,
+  findPreviousWorkableSlot,
+  getShiftWindowsForDate,
   isWithinWorkingHours,
+  getShiftBounds,
   convertTimezone,
   maxDateTime,
+  minDateTime,
 } from '../utils/date-utils';
-
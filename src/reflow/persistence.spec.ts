@@ -0,0 +1,271 @@
+/**
+ * Persistence Test Suite
+ *
+ * Exercises the work order / work center stores and the stored-plan reflow
+ * against an in-memory stand-in for the Mongoose models, so no MongoDB
+ * instance is required.
+ */
+
+import { NotFoundException, ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ReflowService } from './reflow.service';
+import { WorkOrderService } from './work-order.service';
+import { WorkCenterService } from './work-center.service';
+import { WorkOrderEntity } from './schemas/work-order.schema';
+import { WorkCenterEntity } from './schemas/work-center.schema';
+import { WorkOrder, WorkCenter } from './types';
+
+type StoredDoc = { docId: string; data: Record<string, unknown> };
+
+/**
+ * Minimal in-memory implementation of the Model methods used by the stores.
+ * Queries resolve to deep copies, mirroring `.lean()` semantics.
+ */
+class InMemoryModel {
+  readonly docs = new Map<string, StoredDoc>();
+
+  find() {
+    const docs = [...this.docs.values()].sort((a, b) =>
+      a.docId.localeCompare(b.docId),
+    );
+    return this.query(docs);
+  }
+
+  findOne(filter: { docId: string }) {
+    return this.query(this.docs.get(filter.docId) ?? null);
+  }
+
+  create(doc: StoredDoc) {
+    this.docs.set(doc.docId, structuredClone(doc));
+    return Promise.resolve(doc);
+  }
+
+  findOneAndUpdate(
+    filter: { docId: string },
+    update: { $set: Record<string, unknown> },
+  ) {
+    const doc = this.docs.get(filter.docId);
+    if (doc) {
+      this.applySet(doc, update.$set);
+    }
+    return this.query(doc ?? null);
+  }
+
+  deleteOne(filter: { docId: string }) {
+    const deletedCount = this.docs.delete(filter.docId) ? 1 : 0;
+    return { exec: () => Promise.resolve({ deletedCount }) };
+  }
+
+  bulkWrite(
+    operations: {
+      updateOne: {
+        filter: { docId: string };
+        update: { $set: Record<string, unknown> };
+      };
+    }[],
+  ) {
+    let modifiedCount = 0;
+    for (const { updateOne } of operations) {
+      const doc = this.docs.get(updateOne.filter.docId);
+      if (doc) {
+        this.applySet(doc, updateOne.update.$set);
+        modifiedCount++;
+      }
+    }
+    return Promise.resolve({ modifiedCount });
+  }
+
+  private applySet(doc: StoredDoc, set: Record<string, unknown>) {
+    for (const [path, value] of Object.entries(set)) {
+      // Dotted paths reach into nested objects and arrays, as in MongoDB
+      const keys = path.replace(/^data\./, '').split('.');
+      const last = keys.pop()!;
+      const target = keys.reduce(
+        (obj, key) => obj[key] as Record<string, unknown>,
+        doc.data,
+      );
+      target[last] = value;
+    }
+  }
+
+  private query<T>(value: T) {
+    const chain = {
+      sort: () => chain,
+      lean: () => chain,
+      exec: () => Promise.resolve(structuredClone(value)),
+    };
+    return chain;
+  }
+}
+
+const workCenter: WorkCenter = {
+  docId: 'wc-1',
+  docType: 'workCenter',
+  data: {
+    name: 'Machine 1',
+    shifts: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }],
+    maintenanceWindows: [],
+    capacity: 1,
+    setupMatrix: [],
+    defaultSetupMinutes: 0,
+    holidays: [],
+    shiftOverrides: [],
+    overtimeWindows: [],
+    calendarIds: [],
+  },
+};
+
+function createWorkOrder(docId: string, startDate: string): WorkOrder {
+  return {
+    docId,
+    docType: 'workOrder',
+    data: {
+      workOrderNumber: docId.toUpperCase(),
+      workCenterId: 'wc-1',
+      alternateWorkCenters: [],
+      requiredResourceIds: [],
+      startDate,
+      endDate: startDate.replace('T09', 'T10'),
+      durationMinutes: 60,
+      isMaintenance: false,
+      pinned: false,
+      status: 'planned',
+      completedMinutes: 0,
+      dependsOnWorkOrderIds: [],
+    },
+  };
+}
+
+describe('Persistence', () => {
+  let workOrderModel: InMemoryModel;
+  let workCenterModel: InMemoryModel;
+  let workOrderService: WorkOrderService;
+  let workCenterService: WorkCenterService;
+  let reflowService: ReflowService;
+
+  beforeEach(async () => {
+    workOrderModel = new InMemoryModel();
+    workCenterModel = new InMemoryModel();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ReflowService,
+        WorkOrderService,
+        WorkCenterService,
+        {
+          provide: getModelToken(WorkOrderEntity.name),
+          useValue: workOrderModel,
+        },
+        {
+          provide: getModelToken(WorkCenterEntity.name),
+          useValue: workCenterModel,
+        },
+      ],
+    }).compile();
+
+    workOrderService = moduleRef.get(WorkOrderService);
+    workCenterService = moduleRef.get(WorkCenterService);
+    reflowService = moduleRef.get(ReflowService);
+  });
+
+  describe('WorkOrderService', () => {
+    it('should create, read, update and delete work orders', async () => {
+      const order = createWorkOrder('wo-1', '2024-01-15T09:00:00.000Z');
+
+      await workOrderService.create(order);
+      expect(await workOrderService.findOne('wo-1')).toEqual(order);
+
+      const updated = await workOrderService.update('wo-1', {
+        durationMinutes: 90,
+      });
+      expect(updated.data.durationMinutes).toBe(90);
+      expect(updated.data.startDate).toBe(order.data.startDate);
+
+      await workOrderService.remove('wo-1');
+      expect(await workOrderService.findAll()).toEqual([]);
+    });
+
+    it('should reject duplicate docIds', async () => {
+      const order = createWorkOrder('wo-1', '2024-01-15T09:00:00.000Z');
+      await workOrderService.create(order);
+
+      await expect(workOrderService.create(order)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should report missing work orders as not found', async () => {
+      await expect(workOrderService.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(workOrderService.remove('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('WorkCenterService', () => {
+    it('should round-trip work centers', async () => {
+      await workCenterService.create(workCenter);
+
+      expect(await workCenterService.findAll()).toEqual([workCenter]);
+    });
+  });
+
+  describe('ReflowService.reflowStored', () => {
+    beforeEach(async () => {
+      await workCenterService.create(workCenter);
+      // Both orders want Monday 9am on the same machine
+      await workOrderService.create(
+        createWorkOrder('wo-1', '2024-01-15T09:00:00.000Z'),
+      );
+      await workOrderService.create(
+        createWorkOrder('wo-2', '2024-01-15T09:00:00.000Z'),
+      );
+    });
+
+    it('should reflow the stored plan without writing by default', async () => {
+      const output = await reflowService.reflowStored({});
+
+      expect(output.metadata.rescheduledCount).toBe(1);
+      const stored = await workOrderService.findOne('wo-2');
+      expect(stored.data.startDate).toBe('2024-01-15T09:00:00.000Z');
+    });
+
+    it('should write new dates back when persist is set', async () => {
+      await reflowService.reflowStored({ persist: true });
+
+      const stored = await workOrderService.findOne('wo-2');
+      expect(stored.data.startDate).toBe('2024-01-15T10:00:00.000Z');
+      expect(stored.data.endDate).toBe('2024-01-15T11:00:00.000Z');
+    });
+
+    it('should write the operation dates of routed orders back', async () => {
+      const routed = createWorkOrder('wo-3', '2024-01-15T09:00:00.000Z');
+      routed.data.operations = [
+        { operationId: 'cut', workCenterId: 'wc-1', durationMinutes: 60 },
+        { operationId: 'pack', workCenterId: 'wc-1', durationMinutes: 60 },
+      ];
+      await workOrderService.create(routed);
+
+      await reflowService.reflowStored({ persist: true });
+
+      // wo-1 and wo-2 take 9-11am, so the routing runs 11am-1pm
+      const stored = await workOrderService.findOne('wo-3');
+      expect(stored.data.workCenterId).toBe('wc-1');
+      expect(stored.data.operations).toMatchObject([
+        {
+          startDate: '2024-01-15T11:00:00.000Z',
+          endDate: '2024-01-15T12:00:00.000Z',
+        },
+        {
+          startDate: '2024-01-15T12:00:00.000Z',
+          endDate: '2024-01-15T13:00:00.000Z',
+        },
+      ]);
+      const rerun = await reflowService.reflowStored({});
+      expect(rerun.metadata.rescheduledCount).toBe(0);
+    });
+  });
+});
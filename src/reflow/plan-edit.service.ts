@@ -0,0 +1,155 @@
+/**
+ * Plan Edits
+ *
+ * Incremental reflow and what-if scenarios both start from a plan and a list
+ * of changes to it. Edits are applied to copies, so the plan they start from
+ * is never modified.
+ */
+
+import { InvalidPlanEditError, PlanEdit, WorkCenter, WorkOrder } from './types';
+
+/**
+ * Applies edits to a plan, in order.
+ *
+ * @param workOrders - Work orders of the plan
+ * @param workCenters - Work centers of the plan
+ * @param edits - Changes to apply
+ * @returns Edited copies of the work orders and work centers
+ * @throws InvalidPlanEditError if an edit refers to an unknown order, operation
+ *         or work center, changes the duration of a routed order without
+ *         naming an operation, or adds an order that already exists
+ */
+export function applyPlanEdits(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  edits: PlanEdit[],
+): { workOrders: WorkOrder[]; workCenters: WorkCenter[] } {
+  let orders = workOrders;
+  let centers = workCenters;
+
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'move-order':
+        orders = updateOrder(orders, edit, () => ({
+          startDate: edit.startDate,
+        }));
+        break;
+      case 'change-duration':
+        orders = updateOrder(orders, edit, (data) =>
+          changeDuration(data, edit),
+        );
+        break;
+      case 'add-maintenance':
+        centers = updateWorkCenter(centers, edit, (data) => ({
+          maintenanceWindows: [
+            ...data.maintenanceWindows,
+            {
+              startDate: edit.startDate,
+              endDate: edit.endDate,
+              reason: edit.reason,
+            },
+          ],
+        }));
+        break;
+      case 'remove-shift':
+        centers = updateWorkCenter(centers, edit, (data) => ({
+          shifts: data.shifts.filter(
+            (s) =>
+              s.dayOfWeek !== edit.dayOfWeek ||
+              (edit.startHour !== undefined && s.startHour !== edit.startHour),
+          ),
+        }));
+        break;
+      case 'add-order':
+        if (orders.some((o) => o.docId === edit.workOrder.docId)) {
+          throw new InvalidPlanEditError(
+            edit,
+            `Work order "${edit.workOrder.docId}" already exists`,
+          );
+        }
+        orders = [...orders, edit.workOrder];
+        break;
+    }
+  }
+
+  return { workOrders: orders, workCenters: centers };
+}
+
+/**
+ * Returns the orders with one of them changed.
+ */
+function updateOrder(
+  orders: WorkOrder[],
+  edit: PlanEdit & { workOrderId: string },
+  changes: (data: WorkOrder['data']) => Partial<WorkOrder['data']>,
+): WorkOrder[] {
+  if (!orders.some((o) => o.docId === edit.workOrderId)) {
+    throw new InvalidPlanEditError(
+      edit,
+      `Cannot ${edit.type}: work order "${edit.workOrderId}" does not exist`,
+    );
+  }
+
+  return orders.map((o) =>
+    o.docId === edit.workOrderId
+      ? { ...o, data: { ...o.data, ...changes(o.data) } }
+      : o,
+  );
+}
+
+/**
+ * Returns the new duration of an order, or of one operation of a routed
+ * order, whose own duration is not scheduled.
+ */
+function changeDuration(
+  data: WorkOrder['data'],
+  edit: Extract<PlanEdit, { type: 'change-duration' }>,
+): Partial<WorkOrder['data']> {
+  const operations = data.operations ?? [];
+
+  if (edit.operationId === undefined) {
+    if (operations.length > 0) {
+      throw new InvalidPlanEditError(
+        edit,
+        `Cannot change-duration: work order "${edit.workOrderId}" is routed; name the operation to change`,
+      );
+    }
+    return { durationMinutes: edit.durationMinutes };
+  }
+
+  if (!operations.some((op) => op.operationId === edit.operationId)) {
+    throw new InvalidPlanEditError(
+      edit,
+      `Cannot change-duration: work order "${edit.workOrderId}" has no operation "${edit.operationId}"`,
+    );
+  }
+  return {
+    operations: operations.map((op) =>
+      op.operationId === edit.operationId
+        ? { ...op, durationMinutes: edit.durationMinutes }
+        : op,
+    ),
+  };
+}
+
+/**
+ * Returns the work centers with one of them changed.
+ */
+function updateWorkCenter(
+  centers: WorkCenter[],
+  edit: PlanEdit & { workCenterId: string },
+  changes: (data: WorkCenter['data']) => Partial<WorkCenter['data']>,
+): WorkCenter[] {
+  if (!centers.some((wc) => wc.docId === edit.workCenterId)) {
+    throw new InvalidPlanEditError(
+      edit,
+      `Cannot ${edit.type}: work center "${edit.workCenterId}" does not exist`,
+    );
+  }
+
+  return centers.map((wc) =>
+    wc.docId === edit.workCenterId
+      ? { ...wc, data: { ...wc.data, ...changes(wc.data) } }
+      : wc,
+  );
+}
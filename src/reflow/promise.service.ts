@@ -0,0 +1,96 @@
+/**
+ * Available-to-Promise
+ *
+ * Answers "if we take this job, when can it ship?" without touching the
+ * plan. Existing orders are pinned at their current times and the new
+ * orders are scheduled forward into the gaps left between them, with the
+ * same ready-time, shift and timeline logic as a reflow. Optionally,
+ * existing orders of lower priority than the new ones may be pushed back
+ * instead (capable-to-promise); the quote then lists what would move.
+ */
+
+import {
+  PromiseOptions,
+  PromiseOutput,
+  SchedulerConfig,
+  WorkCenter,
+  WorkOrder,
+} from './types';
+import { applyPlanEdits } from './plan-edit.service';
+import { SchedulerService } from './scheduler.service';
+import { diffSchedules } from './diff.service';
+
+/**
+ * Quotes the earliest feasible completion of hypothetical orders.
+ *
+ * @param workOrders - Current plan
+ * @param workCenters - Work centers of the plan
+ * @param newOrders - Hypothetical orders; their start date is the earliest
+ *                    they may start, and they may depend on existing orders
+ *                    or on each other
+ * @param config - Scheduler configuration; scheduling is always forward
+ * @param options - Whether lower-priority orders may move
+ * @returns A quote per new order, and the existing orders that would move
+ * @throws InvalidPlanEditError if a new order has the docId of an existing one
+ */
+export function promiseOrders(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  newOrders: WorkOrder[],
+  config: SchedulerConfig = {},
+  options: PromiseOptions = {},
+): PromiseOutput {
+  const newIds = new Set(newOrders.map((o) => o.docId));
+  const topPriority = Math.max(...newOrders.map((o) => o.data.priority ?? 0));
+  const canMove = (order: WorkOrder) =>
+    options.shiftLowerPriority && (order.data.priority ?? 0) < topPriority;
+
+  const existing = workOrders.map((o) =>
+    canMove(o) ? o : { ...o, data: { ...o.data, pinned: true } },
+  );
+  const plan = applyPlanEdits(
+    existing,
+    workCenters,
+    newOrders.map((workOrder) => ({ type: 'add-order', workOrder })),
+  );
+  const output = new SchedulerService(workCenters, {
+    ...config,
+    direction: 'forward',
+    // New orders must win the gaps that lower-priority orders give up
+    priorityScheduling: config.priorityScheduling || options.shiftLowerPriority,
+  }).reflow(plan.workOrders);
+
+  const shiftedOrders = diffSchedules(
+    undefined,
+    output.results.filter((r) => !newIds.has(r.workOrderId)),
+    workCenters,
+    config,
+  ).movedOrders;
+  const involved = new Set([
+    ...newIds,
+    ...shiftedOrders.map((m) => m.workOrderId),
+  ]);
+  const warningDetails = output.warningDetails.filter(
+    (w) => w.workOrderId !== undefined && involved.has(w.workOrderId),
+  );
+
+  return {
+    quotes: output.results
+      .filter((r) => newIds.has(r.workOrderId))
+      .map((r) => ({
+        workOrderId: r.workOrderId,
+        workOrderNumber: r.workOrderNumber,
+        workCenterId: r.workCenterId,
+        startDate: r.newStartDate,
+        promisedDate: r.newEndDate,
+        dueDate: r.dueDate,
+        isLate: r.isLate,
+        latenessMinutes: r.latenessMinutes,
+        bindingConstraint: r.bindingConstraint,
+        canPromise: !r.isUnscheduled,
+      })),
+    shiftedOrders,
+    warnings: warningDetails.map((w) => w.message),
+    warningDetails,
+  };
+}
@@ -1,6 +1,22 @@
 import { Body, Controller, HttpCode, HttpStatus, Post, UseFilters } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { ReflowRequestDto, ReflowResponseDto } from './dto/reflow.dto';
+import {
+  CriticalPathResponseDto,
+  IncrementalReflowRequestDto,
+  IncrementalReflowResponseDto,
+  PlanValidationRequestDto,
+  PromiseRequestDto,
+  PromiseResponseDto,
+  ReflowRequestDto,
+  ReflowResponseDto,
+  ScenarioComparisonResponseDto,
+  ScenarioRequestDto,
+  ScheduleDiffDto,
+  ScheduleDiffRequestDto,
+  StoredReflowRequestDto,
+  UtilizationReportDto,
+  ValidationReportDto,
+} from './dto/reflow.dto';
 import { ReflowService } from './reflow.service';
 import { ReflowExceptionFilter } from './reflow.filter';
 
@@ -18,4 +34,76 @@ export class ReflowController {
   reflow(@Body() request: ReflowRequestDto): ReflowResponseDto {
     return this.reflowService.reflow(request);
   }
+
+  @Post('critical-path')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reflow the schedule and report float and critical chains' })
+  @ApiResponse({ status: 200, description: 'Critical path analysed', type: CriticalPathResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  criticalPath(@Body() request: ReflowRequestDto): CriticalPathResponseDto {
+    return this.reflowService.criticalPath(request);
+  }
+
+  @Post('utilization')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reflow the schedule and report the load on each work center' })
+  @ApiResponse({ status: 200, description: 'Load reported', type: UtilizationReportDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  utilization(@Body() request: ReflowRequestDto): UtilizationReportDto {
+    return this.reflowService.utilization(request);
+  }
+
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Report every problem in a plan without scheduling it' })
+  @ApiResponse({ status: 200, description: 'Plan checked', type: ValidationReportDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  validate(@Body() request: PlanValidationRequestDto): ValidationReportDto {
+    return this.reflowService.validate(request);
+  }
+
+  @Post('incremental')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Apply edits to a plan and reflow only the orders they affect' })
+  @ApiResponse({ status: 200, description: 'Changed orders reflowed', type: IncrementalReflowResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  incremental(@Body() request: IncrementalReflowRequestDto): IncrementalReflowResponseDto {
+    return this.reflowService.incremental(request);
+  }
+
+  @Post('scenarios')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Compare what-if scenarios with the baseline plan' })
+  @ApiResponse({ status: 200, description: 'Scenarios compared', type: ScenarioComparisonResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  scenarios(@Body() request: ScenarioRequestDto): ScenarioComparisonResponseDto {
+    return this.reflowService.scenarios(request);
+  }
+
+  @Post('promise')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Quote the earliest completion of hypothetical orders against the plan' })
+  @ApiResponse({ status: 200, description: 'Orders quoted', type: PromiseResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  promise(@Body() request: PromiseRequestDto): PromiseResponseDto {
+    return this.reflowService.promise(request);
+  }
+
+  @Post('diff')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Report what changed between two schedules' })
+  @ApiResponse({ status: 200, description: 'Schedules compared', type: ScheduleDiffDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  diff(@Body() request: ScheduleDiffRequestDto): ScheduleDiffDto {
+    return this.reflowService.diff(request);
+  }
+
+  @Post('stored')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reflow the schedule stored in the database' })
+  @ApiResponse({ status: 200, description: 'Schedule reflowed', type: ReflowResponseDto })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  reflowStored(@Body() request: StoredReflowRequestDto): Promise<ReflowResponseDto> {
+    return this.reflowService.reflowStored(request);
+  }
 }
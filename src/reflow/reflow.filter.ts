@@ -9,12 +9,26 @@ import {
   CircularDependencyError,
   MissingDependencyError,
   MissingWorkCenterError,
+  MissingCalendarError,
+  UnknownDispatchRuleError,
+  DispatchRuleConflictError,
+  NoWorkableSlotError,
+  InvalidPlanEditError,
 } from './types';
 
 /**
  * Exception filter that transforms domain errors into HTTP responses.
  */
-@Catch(CircularDependencyError, MissingDependencyError, MissingWorkCenterError)
+@Catch(
+  CircularDependencyError,
+  MissingDependencyError,
+  MissingWorkCenterError,
+  MissingCalendarError,
+  UnknownDispatchRuleError,
+  DispatchRuleConflictError,
+  NoWorkableSlotError,
+  InvalidPlanEditError,
+)
 export class ReflowExceptionFilter implements ExceptionFilter {
   catch(exception: Error, host: ArgumentsHost) {
     const response = host.switchToHttp().getResponse<Response>();
@@ -25,6 +39,8 @@ export class ReflowExceptionFilter implements ExceptionFilter {
         error: 'CircularDependencyError',
         message: exception.message,
         cycle: exception.cycle,
+        components: exception.components,
+        edgesToBreak: exception.edgesToBreak,
       });
     }
 
@@ -47,6 +63,54 @@ export class ReflowExceptionFilter implements ExceptionFilter {
         workCenterId: exception.workCenterId,
       });
     }
+
+    if (exception instanceof MissingCalendarError) {
+      return response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'MissingCalendarError',
+        message: exception.message,
+        workCenterId: exception.workCenterId,
+        calendarId: exception.calendarId,
+      });
+    }
+
+    if (exception instanceof UnknownDispatchRuleError) {
+      return response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'UnknownDispatchRuleError',
+        message: exception.message,
+        rule: exception.rule,
+      });
+    }
+
+    if (exception instanceof DispatchRuleConflictError) {
+      return response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'DispatchRuleConflictError',
+        message: exception.message,
+        rule: exception.rule,
+      });
+    }
+
+    if (exception instanceof NoWorkableSlotError) {
+      return response.status(HttpStatus.UNPROCESSABLE_ENTITY).json({
+        statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+        error: 'NoWorkableSlotError',
+        message: exception.message,
+        workCenterId: exception.workCenterId,
+        from: exception.from,
+        direction: exception.direction,
+      });
+    }
+
+    if (exception instanceof InvalidPlanEditError) {
+      return response.status(HttpStatus.BAD_REQUEST).json({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'InvalidPlanEditError',
+        message: exception.message,
+        edit: exception.edit,
+      });
+    }
   }
 }
 
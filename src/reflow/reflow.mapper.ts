@@ -0,0 +1,159 @@
+import {
+  CalendarDto,
+  PlanEditDto,
+  PromiseOrderDto,
+  WorkOrderDto,
+  WorkCenterDto,
+} from './dto/reflow.dto';
+import { Calendar, PlanEdit, WorkOrder, WorkCenter } from './types';
+
+/**
+ * Converts a validated work order DTO into the domain model,
+ * filling in defaults for optional fields.
+ */
+export function toWorkOrder(dto: WorkOrderDto): WorkOrder {
+  return {
+    docId: dto.docId,
+    docType: 'workOrder',
+    data: {
+      workOrderNumber: dto.data.workOrderNumber,
+      workCenterId: dto.data.workCenterId,
+      alternateWorkCenters: dto.data.alternateWorkCenters ?? [],
+      requiredResourceIds: dto.data.requiredResourceIds ?? [],
+      startDate: dto.data.startDate,
+      endDate: dto.data.endDate,
+      durationMinutes: dto.data.durationMinutes,
+      isMaintenance: dto.data.isMaintenance ?? false,
+      pinned: dto.data.pinned ?? false,
+      status: dto.data.status ?? 'planned',
+      completedMinutes: dto.data.completedMinutes ?? 0,
+      dependsOnWorkOrderIds: dto.data.dependsOnWorkOrderIds ?? [],
+      dueDate: dto.data.dueDate,
+      priority: dto.data.priority,
+      productFamily: dto.data.productFamily,
+      operations: dto.data.operations,
+    },
+  };
+}
+
+/**
+ * Converts a validated work center DTO into the domain model,
+ * filling in defaults for optional fields.
+ */
+export function toWorkCenter(dto: WorkCenterDto): WorkCenter {
+  return {
+    docId: dto.docId,
+    docType: 'workCenter',
+    data: {
+      name: dto.data.name,
+      shifts: dto.data.shifts,
+      maintenanceWindows: dto.data.maintenanceWindows ?? [],
+      capacity: dto.data.capacity ?? 1,
+      setupMatrix: dto.data.setupMatrix ?? [],
+      defaultSetupMinutes: dto.data.defaultSetupMinutes ?? 0,
+      holidays: dto.data.holidays ?? [],
+      shiftOverrides: dto.data.shiftOverrides ?? [],
+      overtimeWindows: dto.data.overtimeWindows ?? [],
+      calendarIds: dto.data.calendarIds ?? [],
+    },
+  };
+}
+
+/**
+ * Converts a validated shared calendar DTO into the domain model,
+ * filling in defaults for optional fields.
+ */
+export function toCalendar(dto: CalendarDto): Calendar {
+  return {
+    docId: dto.docId,
+    docType: 'calendar',
+    data: {
+      name: dto.data.name,
+      holidays: dto.data.holidays ?? [],
+      shiftOverrides: dto.data.shiftOverrides ?? [],
+      overtimeWindows: dto.data.overtimeWindows ?? [],
+    },
+  };
+}
+
+/**
+ * Converts a validated plan edit DTO into the domain model, keeping only
+ * the fields its type uses.
+ */
+export function toPlanEdit(dto: PlanEditDto): PlanEdit {
+  switch (dto.type) {
+    case 'move-order':
+      return {
+        type: dto.type,
+        workOrderId: dto.workOrderId!,
+        startDate: dto.startDate!,
+      };
+    case 'change-duration':
+      return {
+        type: dto.type,
+        workOrderId: dto.workOrderId!,
+        operationId: dto.operationId,
+        durationMinutes: dto.durationMinutes!,
+      };
+    case 'add-maintenance':
+      return {
+        type: dto.type,
+        workCenterId: dto.workCenterId!,
+        startDate: dto.startDate!,
+        endDate: dto.endDate!,
+        reason: dto.reason,
+      };
+    case 'remove-shift':
+      return {
+        type: dto.type,
+        workCenterId: dto.workCenterId!,
+        dayOfWeek: dto.dayOfWeek!,
+        startHour: dto.startHour,
+      };
+    case 'add-order':
+      return { type: dto.type, workOrder: toWorkOrder(dto.workOrder!) };
+  }
+}
+
+/**
+ * Converts a validated hypothetical order DTO into a work order that starts
+ * no earlier than its earliest start date, or `now` if it has none.
+ */
+export function toPromiseOrder(dto: PromiseOrderDto, now: string): WorkOrder {
+  const startDate = dto.data.earliestStartDate ?? now;
+
+  return {
+    docId: dto.docId,
+    docType: 'workOrder',
+    data: {
+      workOrderNumber: dto.data.workOrderNumber,
+      workCenterId: dto.data.workCenterId,
+      alternateWorkCenters: dto.data.alternateWorkCenters ?? [],
+      requiredResourceIds: dto.data.requiredResourceIds ?? [],
+      startDate,
+      endDate: startDate,
+      durationMinutes: dto.data.durationMinutes,
+      isMaintenance: false,
+      pinned: false,
+      status: 'planned',
+      completedMinutes: 0,
+      dependsOnWorkOrderIds: dto.data.dependsOnWorkOrderIds ?? [],
+      dueDate: dto.data.dueDate,
+      priority: dto.data.priority,
+      productFamily: dto.data.productFamily,
+      operations: dto.data.operations,
+    },
+  };
+}
+
+/**
+ * Flattens a partial data object into dotted `$set` paths so that
+ * fields not present in the update are left untouched.
+ */
+export function toDataUpdate(changes: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(changes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [`data.${key}`, value]),
+  );
+}
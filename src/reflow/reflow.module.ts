@@ -1,10 +1,25 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { ReflowController } from './reflow.controller';
 import { ReflowService } from './reflow.service';
+import { WorkOrderController } from './work-order.controller';
+import { WorkOrderService } from './work-order.service';
+import { WorkCenterController } from './work-center.controller';
+import { WorkCenterService } from './work-center.service';
+import { WorkOrderEntity, WorkOrderSchema } from './schemas/work-order.schema';
+import {
+  WorkCenterEntity,
+  WorkCenterSchema,
+} from './schemas/work-center.schema';
 
 @Module({
-  controllers: [ReflowController],
-  providers: [ReflowService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: WorkOrderEntity.name, schema: WorkOrderSchema },
+      { name: WorkCenterEntity.name, schema: WorkCenterSchema },
+    ]),
+  ],
+  controllers: [ReflowController, WorkOrderController, WorkCenterController],
+  providers: [ReflowService, WorkOrderService, WorkCenterService],
 })
 export class ReflowModule {}
-
@@ -1,48 +1,198 @@
 import { Injectable } from '@nestjs/common';
-import { ReflowRequestDto } from './dto/reflow.dto';
+import { DateTime } from 'luxon';
+import {
+  IncrementalReflowRequestDto,
+  PlanValidationRequestDto,
+  PromiseRequestDto,
+  ReflowOptionsDto,
+  ReflowRequestDto,
+  ScenarioRequestDto,
+  ScheduleDiffRequestDto,
+  StoredReflowRequestDto,
+} from './dto/reflow.dto';
 import { SchedulerService } from './scheduler.service';
-import { WorkOrder, WorkCenter, ReflowOutput } from './types';
+import { analyzeCriticalPath } from './critical-path.service';
+import { validatePlan } from './validation.service';
+import { reflowIncremental } from './incremental.service';
+import { compareScenarios } from './scenario.service';
+import { diffSchedules } from './diff.service';
+import { buildUtilizationReport } from './utilization.service';
+import { promiseOrders } from './promise.service';
+import {
+  toCalendar,
+  toPlanEdit,
+  toPromiseOrder,
+  toWorkCenter,
+  toWorkOrder,
+} from './reflow.mapper';
+import { WorkOrderService } from './work-order.service';
+import { WorkCenterService } from './work-center.service';
+import {
+  CriticalPathAnalysis,
+  IncrementalReflowOutput,
+  PromiseOutput,
+  ReflowOutput,
+  ScenarioComparison,
+  ScheduleDiff,
+  UtilizationReport,
+  SchedulerConfig,
+  ValidationReport,
+} from './types';
 
 @Injectable()
 export class ReflowService {
+  constructor(
+    private readonly workOrderService: WorkOrderService,
+    private readonly workCenterService: WorkCenterService,
+  ) {}
+
   reflow(request: ReflowRequestDto): ReflowOutput {
-    const workOrders = this.toWorkOrders(request.workOrders);
-    const workCenters = this.toWorkCenters(request.workCenters);
+    const workOrders = request.workOrders.map(toWorkOrder);
+    const workCenters = request.workCenters.map(toWorkCenter);
 
-    const scheduler = new SchedulerService(workCenters, {
-      allowEarlierStart: request.allowEarlierStart,
-      timezone: request.timezone,
-    });
+    const scheduler = new SchedulerService(
+      workCenters,
+      this.toSchedulerConfig(request),
+    );
 
     return scheduler.reflow(workOrders);
   }
 
-  private toWorkOrders(dtos: ReflowRequestDto['workOrders']): WorkOrder[] {
-    return dtos.map((dto) => ({
-      docId: dto.docId,
-      docType: 'workOrder',
-      data: {
-        workOrderNumber: dto.data.workOrderNumber,
-        workCenterId: dto.data.workCenterId,
-        startDate: dto.data.startDate,
-        endDate: dto.data.endDate,
-        durationMinutes: dto.data.durationMinutes,
-        isMaintenance: dto.data.isMaintenance ?? false,
-        dependsOnWorkOrderIds: dto.data.dependsOnWorkOrderIds ?? [],
-      },
-    }));
+  /**
+   * Reflows the given plan and reports float and critical chains.
+   */
+  criticalPath(request: ReflowRequestDto): CriticalPathAnalysis {
+    const workOrders = request.workOrders.map(toWorkOrder);
+    const workCenters = request.workCenters.map(toWorkCenter);
+    const config = this.toSchedulerConfig(request);
+
+    const output = new SchedulerService(workCenters, config).reflow(workOrders);
+
+    return analyzeCriticalPath(workOrders, workCenters, output, config);
   }
 
-  private toWorkCenters(dtos: ReflowRequestDto['workCenters']): WorkCenter[] {
-    return dtos.map((dto) => ({
-      docId: dto.docId,
-      docType: 'workCenter',
-      data: {
-        name: dto.data.name,
-        shifts: dto.data.shifts,
-        maintenanceWindows: dto.data.maintenanceWindows ?? [],
+  /**
+   * Reflows the given plan and reports the load on each work center.
+   */
+  utilization(request: ReflowRequestDto): UtilizationReport {
+    const workCenters = request.workCenters.map(toWorkCenter);
+    const config = this.toSchedulerConfig(request);
+
+    const output = new SchedulerService(workCenters, config).reflow(
+      request.workOrders.map(toWorkOrder),
+    );
+
+    return buildUtilizationReport(output.results, workCenters, config);
+  }
+
+  /**
+   * Checks the given plan and reports every problem found, without scheduling.
+   */
+  validate(request: PlanValidationRequestDto): ValidationReport {
+    return validatePlan(
+      request.workOrders.map(toWorkOrder),
+      request.workCenters.map(toWorkCenter),
+      request.calendars?.map(toCalendar),
+    );
+  }
+
+  /**
+   * Applies edits to the given plan and reflows only the orders they affect.
+   */
+  incremental(request: IncrementalReflowRequestDto): IncrementalReflowOutput {
+    return reflowIncremental(
+      request.workOrders.map(toWorkOrder),
+      request.workCenters.map(toWorkCenter),
+      request.edits.map(toPlanEdit),
+      this.toSchedulerConfig(request),
+    );
+  }
+
+  /**
+   * Reflows the given plan and each what-if scenario, and compares them.
+   */
+  scenarios(request: ScenarioRequestDto): ScenarioComparison {
+    return compareScenarios(
+      request.workOrders.map(toWorkOrder),
+      request.workCenters.map(toWorkCenter),
+      request.scenarios.map((s) => ({
+        name: s.name,
+        edits: s.edits.map(toPlanEdit),
+      })),
+      this.toSchedulerConfig(request),
+    );
+  }
+
+  /**
+   * Quotes the earliest completion of hypothetical orders against the given plan.
+   */
+  promise(request: PromiseRequestDto): PromiseOutput {
+    // New orders without an earliest start and the scheduler must agree on "now"
+    const config = {
+      ...this.toSchedulerConfig(request),
+      currentTime: request.currentTime ?? DateTime.now().toISO(),
+    };
+
+    return promiseOrders(
+      request.workOrders.map(toWorkOrder),
+      request.workCenters.map(toWorkCenter),
+      request.orders.map((o) => toPromiseOrder(o, config.currentTime)),
+      config,
+      { shiftLowerPriority: request.shiftLowerPriority },
+    );
+  }
+
+  /**
+   * Reduces two schedules (or one and its original dates) to what changed.
+   */
+  diff(request: ScheduleDiffRequestDto): ScheduleDiff {
+    return diffSchedules(
+      request.previous,
+      request.current,
+      request.workCenters.map(toWorkCenter),
+      {
+        timezone: request.timezone,
+        calendars: request.calendars?.map(toCalendar),
       },
-    }));
+    );
   }
-}
 
+  /**
+   * Reflows the plan currently stored in the database.
+   * When `persist` is set, rescheduled dates are written back.
+   */
+  async reflowStored(request: StoredReflowRequestDto): Promise<ReflowOutput> {
+    const [workOrders, workCenters] = await Promise.all([
+      this.workOrderService.findAll(),
+      this.workCenterService.findAll(),
+    ]);
+
+    const scheduler = new SchedulerService(
+      workCenters,
+      this.toSchedulerConfig(request),
+    );
+    const output = scheduler.reflow(workOrders);
+
+    if (request.persist) {
+      await this.workOrderService.applySchedule(output.results);
+    }
+
+    return output;
+  }
+
+  private toSchedulerConfig(options: ReflowOptionsDto): SchedulerConfig {
+    return {
+      allowEarlierStart: options.allowEarlierStart,
+      timezone: options.timezone,
+      calendars: options.calendars?.map(toCalendar),
+      dispatchRule: options.dispatchRule,
+      priorityScheduling: options.priorityScheduling,
+      routingObjective: options.routingObjective,
+      direction: options.direction,
+      currentTime: options.currentTime,
+      frozenHorizonMinutes: options.frozenHorizonMinutes,
+      shiftGapWarningMinutes: options.shiftGapWarningMinutes,
+      includeUtilization: options.includeUtilization,
+    };
+  }
+}
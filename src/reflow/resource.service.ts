@@ -0,0 +1,349 @@
+/**
+ * Secondary Resources
+ *
+ * An order runs on one work center, but may also need an operator from a
+ * certified pool, a specific fixture or mold, or a second machine for its
+ * whole run. Such resources are modelled as work centers too, with their
+ * own shifts, calendar exceptions, maintenance and capacity, and each keeps
+ * its own timeline.
+ *
+ * A slot on the order's work center is only accepted if every required
+ * resource is working throughout the work center's working time in the
+ * slot (setup included) and has a free lane for it. Otherwise the search
+ * resumes from where the blocking resource frees up, and the push is
+ * recorded in the trace as a `resource` constraint.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  NoWorkableSlotError,
+  ScheduleConstraint,
+  SchedulingDirection,
+  WorkCenter,
+} from './types';
+import { TimelineSlot, WorkCenterTimeline } from './timeline.service';
+import { traceConstraint } from './trace.service';
+import { findLatestValidEnd, findNextWorkableSlot } from '../utils/date-utils';
+
+/**
+ * How far past the requested time the search for a common slot goes before
+ * giving up, since calendars that never overlap would otherwise loop forever.
+ */
+const COMMON_SLOT_SEARCH_DAYS = 366;
+
+/**
+ * A secondary resource an order needs while it runs.
+ */
+export interface RequiredResource {
+  workCenter: WorkCenter;
+  timeline: WorkCenterTimeline;
+}
+
+/**
+ * Finds the earliest slot at or after `from` on a work center where all
+ * required resources are available as well.
+ *
+ * @param timeline - Timeline of the work center the order runs on
+ * @param workCenter - That work center, for its working time
+ * @param resources - Secondary resources the order needs
+ * @param from - Earliest time the order (or its setup) may start
+ * @param durationMinutes - Working minutes on the work center
+ * @param productFamily - Product family of the order, for setup lookup
+ * @param timezone - Timezone for shift calculations
+ * @returns The slot, with resource pushes included in its trace
+ * @throws NoWorkableSlotError if the work center and resources have no common slot
+ */
+export function findEarliestCommonSlot(
+  timeline: WorkCenterTimeline,
+  workCenter: WorkCenter,
+  resources: RequiredResource[],
+  from: DateTime,
+  durationMinutes: number,
+  productFamily: string | undefined,
+  timezone: string,
+): TimelineSlot {
+  const horizon = from.plus({ days: COMMON_SLOT_SEARCH_DAYS });
+  const trace: ScheduleConstraint[] = [];
+  let candidate = from;
+
+  for (;;) {
+    const slot = timeline.findEarliestSlot(
+      candidate,
+      durationMinutes,
+      productFamily,
+    );
+    trace.push(...slot.trace);
+
+    const conflict = findResourceConflict(
+      resources,
+      workCenter,
+      slot.setupStart,
+      slot.end,
+      'forward',
+      timezone,
+    );
+    if (!conflict) {
+      return { ...slot, trace };
+    }
+
+    trace.push(conflict.constraint);
+    candidate = conflict.retryAt;
+    if (candidate > horizon) {
+      throw new NoWorkableSlotError(
+        conflict.resourceId,
+        from.toISO()!,
+        'forward',
+      );
+    }
+  }
+}
+
+/**
+ * Finds the latest slot ending at or before `until` on a work center where
+ * all required resources are available as well. Mirror image of
+ * `findEarliestCommonSlot`, for backward scheduling.
+ *
+ * @param timeline - Timeline of the work center the order runs on
+ * @param workCenter - That work center, for its working time
+ * @param resources - Secondary resources the order needs
+ * @param until - Latest time the order may end
+ * @param durationMinutes - Working minutes on the work center
+ * @param productFamily - Product family of the order, for setup lookup
+ * @param timezone - Timezone for shift calculations
+ * @returns The slot, with resource pushes included in its trace
+ * @throws NoWorkableSlotError if the work center and resources have no common slot
+ */
+export function findLatestCommonSlot(
+  timeline: WorkCenterTimeline,
+  workCenter: WorkCenter,
+  resources: RequiredResource[],
+  until: DateTime,
+  durationMinutes: number,
+  productFamily: string | undefined,
+  timezone: string,
+): TimelineSlot {
+  const horizon = until.minus({ days: COMMON_SLOT_SEARCH_DAYS });
+  const trace: ScheduleConstraint[] = [];
+  let candidate = until;
+
+  for (;;) {
+    const slot = timeline.findLatestSlot(
+      candidate,
+      durationMinutes,
+      productFamily,
+    );
+    trace.push(...slot.trace);
+
+    const conflict = findResourceConflict(
+      resources,
+      workCenter,
+      slot.start,
+      slot.end,
+      'backward',
+      timezone,
+    );
+    if (!conflict) {
+      return { ...slot, trace };
+    }
+
+    trace.push(conflict.constraint);
+    candidate = conflict.retryAt;
+    if (candidate < horizon) {
+      throw new NoWorkableSlotError(
+        conflict.resourceId,
+        until.toISO()!,
+        'backward',
+      );
+    }
+  }
+}
+
+/**
+ * Books an order on each of its secondary resources, in the first free lane.
+ *
+ * @param resources - Secondary resources the order needs
+ * @param workOrderId - Order being booked
+ * @param priority - Priority of the order
+ * @param isFixed - Whether the order keeps its times
+ * @param start - Start of occupation, including setup
+ * @param end - End of the order
+ */
+export function reserveResources(
+  resources: RequiredResource[],
+  workOrderId: string,
+  priority: number,
+  isFixed: boolean,
+  start: DateTime,
+  end: DateTime,
+): void {
+  for (const { timeline } of resources) {
+    timeline.reserve({
+      workOrderId,
+      priority,
+      isFixed,
+      start,
+      end,
+      lane: timeline.findFreeLane(start, end) ?? 1,
+      setupMinutes: 0,
+    });
+  }
+}
+
+/**
+ * The resource whose availability decided where an order was placed: the
+ * secondary resource behind a final `resource` push, or the work center if
+ * its own calendar or bookings had the last word. Undefined when the order
+ * was placed where its dependencies or own dates put it.
+ *
+ * @param trace - Constraint trace of the placed order
+ * @param workCenterId - Work center the order runs on
+ * @returns ID of the binding work center or resource
+ */
+export function findBindingResource(
+  trace: ScheduleConstraint[],
+  workCenterId: string,
+): string | undefined {
+  const binding = trace[trace.length - 1];
+
+  switch (binding?.type) {
+    case 'resource':
+      return binding.resourceId;
+    case 'machine-busy':
+    case 'setup':
+    case 'shift':
+    case 'maintenance':
+      return workCenterId;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Why a slot does not work for a resource, and where to look next.
+ */
+interface ResourceConflict {
+  resourceId: string;
+  /** Next start to try going forward, or next end going backward */
+  retryAt: DateTime;
+  constraint: ScheduleConstraint;
+}
+
+/**
+ * Checks every resource against the slot [start, end) and reports the first
+ * one that is off shift or fully booked during it.
+ */
+function findResourceConflict(
+  resources: RequiredResource[],
+  workCenter: WorkCenter,
+  start: DateTime,
+  end: DateTime,
+  direction: SchedulingDirection,
+  timezone: string,
+): ResourceConflict | null {
+  const forward = direction === 'forward';
+
+  for (const resource of resources) {
+    const resourceId = resource.workCenter.docId;
+
+    const gaps = findUncoveredTime(
+      start,
+      end,
+      workCenter,
+      resource.workCenter,
+      timezone,
+    );
+    if (gaps.length > 0) {
+      const retryAt = forward
+        ? findResumeTime(gaps[0], resource.workCenter, timezone)
+        : findLatestValidEnd(
+            gaps[gaps.length - 1],
+            resource.workCenter,
+            timezone,
+          );
+      return {
+        resourceId,
+        retryAt,
+        constraint: traceConstraint({
+          type: 'resource',
+          time: retryAt.toISO()!,
+          resourceId,
+        }),
+      };
+    }
+
+    if (resource.timeline.findFreeLane(start, end) === null) {
+      const busy = resource.timeline.findOverlapping(start, end);
+      const booking = forward
+        ? busy.reduce((a, b) => (b.end < a.end ? b : a))
+        : busy.reduce((a, b) => (b.start > a.start ? b : a));
+      const retryAt = forward ? booking.end : booking.start;
+      return {
+        resourceId,
+        retryAt,
+        constraint: traceConstraint({
+          type: 'resource',
+          time: retryAt.toISO()!,
+          resourceId,
+          workOrderId: booking.workOrderId,
+        }),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Times within the work center's working time in [start, end) at which the
+ * resource is not working, in time order. Each is the start of a stretch
+ * the resource is missing.
+ */
+function findUncoveredTime(
+  start: DateTime,
+  end: DateTime,
+  workCenter: WorkCenter,
+  resource: WorkCenter,
+  timezone: string,
+): DateTime[] {
+  const uncovered: DateTime[] = [];
+  let current = start;
+
+  while (current < end) {
+    const slot = findNextWorkableSlot(current, workCenter, timezone);
+    if (!slot || slot.start >= end) {
+      break;
+    }
+    const pieceEnd = slot.end < end ? slot.end : end;
+    let covered = slot.start > current ? slot.start : current;
+
+    while (covered < pieceEnd) {
+      const resourceSlot = findNextWorkableSlot(covered, resource, timezone);
+      if (!resourceSlot || resourceSlot.start > covered) {
+        uncovered.push(covered);
+        if (!resourceSlot || resourceSlot.start >= pieceEnd) {
+          break;
+        }
+      }
+      covered = resourceSlot.end;
+    }
+
+    current = slot.end;
+  }
+
+  return uncovered;
+}
+
+/**
+ * When a resource that is off at `time` starts working again.
+ */
+function findResumeTime(
+  time: DateTime,
+  resource: WorkCenter,
+  timezone: string,
+): DateTime {
+  const slot = findNextWorkableSlot(time, resource, timezone);
+  if (!slot) {
+    throw new NoWorkableSlotError(resource.docId, time.toISO()!, 'forward');
+  }
+  return slot.start;
+}
@@ -0,0 +1,231 @@
+/**
+ * Operation Routings
+ *
+ * A routed order carries ordered operations (cut, then weld, then paint),
+ * each with its own work center and duration. For scheduling, every
+ * operation becomes a work order of its own, with ID
+ * `<order docId>/<operationId>`, chained to the operation before it.
+ *
+ * The order's own dependencies apply to its first operation. Links from
+ * other orders to a routed order anchor on its first operation when they
+ * refer to its start (SS, SF) and on its last when they refer to its
+ * finish (FS, FF). Links may also name an operation directly.
+ *
+ * By default an operation starts when the previous one finishes. With a
+ * transfer batch, it starts once the previous operation has finished its
+ * first batch, and finishes no earlier than a batch after it.
+ *
+ * Operations without dates of their own are planned from the order's start,
+ * each following the one before it as linked above. An in-progress order's
+ * completed minutes are spread over its operations in routing order; the
+ * operations after the one in progress have not started.
+ */
+
+import { DateTime } from 'luxon';
+import { DependencyLink, RoutingOperation, WorkOrder } from './types';
+
+/**
+ * Whether an order is made up of operations.
+ */
+export function isRoutedOrder(order: WorkOrder): boolean {
+  return (order.data.operations?.length ?? 0) > 0;
+}
+
+/**
+ * ID under which an operation of a routed order is scheduled.
+ *
+ * @param workOrderId - ID of the routed order
+ * @param operationId - ID of the operation within the order
+ * @returns The operation's work order ID
+ */
+export function getOperationOrderId(
+  workOrderId: string,
+  operationId: string,
+): string {
+  return `${workOrderId}/${operationId}`;
+}
+
+/**
+ * Replaces every routed order by one work order per operation, and points
+ * dependencies on routed orders at the right operation. Plans without
+ * routings are returned as they are.
+ *
+ * @param workOrders - Work orders, some of which may be routed
+ * @returns Work orders with every operation as an order of its own
+ */
+export function expandRoutings(workOrders: WorkOrder[]): WorkOrder[] {
+  const routed = new Map(
+    workOrders.filter(isRoutedOrder).map((o) => [o.docId, o]),
+  );
+  if (routed.size === 0) {
+    return workOrders;
+  }
+
+  const redirect = (dep: string | DependencyLink): string | DependencyLink => {
+    const id = typeof dep === 'string' ? dep : dep.workOrderId;
+    const order = routed.get(id);
+    if (!order) {
+      return dep;
+    }
+    const type = typeof dep === 'string' ? 'FS' : (dep.type ?? 'FS');
+    const operations = order.data.operations!;
+    const anchor =
+      type === 'SS' || type === 'SF'
+        ? operations[0]
+        : operations[operations.length - 1];
+    const workOrderId = getOperationOrderId(id, anchor.operationId);
+    return typeof dep === 'string' ? workOrderId : { ...dep, workOrderId };
+  };
+
+  return workOrders.flatMap((order): WorkOrder[] => {
+    const dependsOnWorkOrderIds =
+      order.data.dependsOnWorkOrderIds.map(redirect);
+    if (!isRoutedOrder(order)) {
+      return [{ ...order, data: { ...order.data, dependsOnWorkOrderIds } }];
+    }
+
+    const operations = order.data.operations!;
+    const dates = chainDates(order);
+    const progress = inheritProgress(order);
+    return operations.map((operation, i) => ({
+      docId: getOperationOrderId(order.docId, operation.operationId),
+      docType: 'workOrder',
+      data: {
+        workOrderNumber: `${order.data.workOrderNumber}/${operation.operationId}`,
+        workCenterId: operation.workCenterId,
+        alternateWorkCenters: operation.alternateWorkCenters,
+        requiredResourceIds: operation.requiredResourceIds,
+        ...dates[i],
+        durationMinutes: operation.durationMinutes,
+        isMaintenance: false,
+        pinned: order.data.pinned,
+        ...progress[i],
+        dependsOnWorkOrderIds:
+          i === 0
+            ? dependsOnWorkOrderIds
+            : linkToPrevious(order.docId, operations[i - 1], operation),
+        // Only the last operation finishing counts towards the due date
+        dueDate: i === operations.length - 1 ? order.data.dueDate : undefined,
+        priority: order.data.priority,
+        productFamily: operation.productFamily ?? order.data.productFamily,
+        parentWorkOrderId: order.docId,
+      },
+    }));
+  });
+}
+
+/**
+ * Planned dates of each operation: its own, or else following the previous
+ * operation the way `linkToPrevious` links them (the first starts with the
+ * order), for its duration. Falls back to the order's dates where they
+ * cannot be worked out, so that plan validation still sees the bad date.
+ */
+function chainDates(
+  order: WorkOrder,
+): Pick<WorkOrder['data'], 'startDate' | 'endDate'>[] {
+  const parse = (date: string) => DateTime.fromISO(date, { zone: 'utc' });
+  let previous: { start: DateTime; end: DateTime } | undefined;
+
+  return order.data.operations!.map((operation) => {
+    const batch = operation.transferBatchMinutes ?? 0;
+    let start = parse(order.data.startDate);
+    let end = start;
+    if (previous) {
+      start = batch ? previous.start.plus({ minutes: batch }) : previous.end;
+      end = previous.end.plus({ minutes: batch });
+    }
+    if (operation.startDate) {
+      start = parse(operation.startDate);
+    }
+    end = DateTime.max(end, start.plus({ minutes: operation.durationMinutes }));
+    if (operation.endDate) {
+      end = parse(operation.endDate);
+    }
+
+    previous = { start, end };
+    return {
+      startDate: operation.startDate ?? toISO(start) ?? order.data.startDate,
+      endDate: operation.endDate ?? toISO(end) ?? order.data.endDate,
+    };
+  });
+}
+
+/**
+ * ISO string of a date, or undefined if it is invalid.
+ */
+function toISO(date: DateTime): string | undefined {
+  return date.isValid ? date.toISO()! : undefined;
+}
+
+/**
+ * Status and completed minutes of each operation. Operations with a status
+ * of their own keep it; otherwise they take the order's, except for an
+ * in-progress order. Its completed minutes are spread over the operations
+ * in routing order: operations they cover are completed, the one they run
+ * out in is in progress with the rest, and the ones after it are planned.
+ */
+function inheritProgress(
+  order: WorkOrder,
+): Pick<WorkOrder['data'], 'status' | 'completedMinutes'>[] {
+  const operations = order.data.operations!;
+  if (order.data.status !== 'in-progress') {
+    return operations.map((operation) => ({
+      status: operation.status ?? order.data.status,
+      completedMinutes: operation.completedMinutes,
+    }));
+  }
+
+  let unspent = order.data.completedMinutes ?? 0;
+  let started = false;
+
+  return operations.map((operation) => {
+    const status =
+      operation.status ??
+      (started
+        ? 'planned'
+        : unspent >= operation.durationMinutes
+          ? 'completed'
+          : 'in-progress');
+
+    if (status === 'completed') {
+      unspent -= operation.durationMinutes;
+    } else if (status === 'in-progress' && !started) {
+      started = true;
+      return {
+        status,
+        completedMinutes: operation.completedMinutes ?? Math.max(unspent, 0),
+      };
+    }
+    return { status, completedMinutes: operation.completedMinutes };
+  });
+}
+
+/**
+ * Dependencies of an operation on the one before it in the routing.
+ */
+function linkToPrevious(
+  workOrderId: string,
+  previous: RoutingOperation,
+  operation: RoutingOperation,
+): DependencyLink[] {
+  const previousId = getOperationOrderId(workOrderId, previous.operationId);
+  const batch = operation.transferBatchMinutes;
+
+  if (!batch) {
+    return [{ workOrderId: previousId, type: 'FS' }];
+  }
+  return [
+    {
+      workOrderId: previousId,
+      type: 'SS',
+      lagMinutes: batch,
+      lagType: 'working',
+    },
+    {
+      workOrderId: previousId,
+      type: 'FF',
+      lagMinutes: batch,
+      lagType: 'working',
+    },
+  ];
+}
@@ -0,0 +1,143 @@
+/**
+ * What-If Scenarios
+ *
+ * A baseline plan is forked into named scenarios, each a list of edits
+ * (an order moved, a machine down, a rush order added, ...). The baseline
+ * and every scenario are reflowed independently, and each scenario is
+ * compared with the baseline order by order and on headline figures:
+ * makespan, tardiness and work center utilization.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  ReflowOutput,
+  Scenario,
+  ScenarioComparison,
+  ScenarioMetrics,
+  ScenarioOrderDelta,
+  SchedulerConfig,
+  WorkCenter,
+  WorkOrder,
+} from './types';
+import { applyPlanEdits } from './plan-edit.service';
+import { getPlanStart, SchedulerService } from './scheduler.service';
+import { buildUtilizationReport } from './utilization.service';
+
+/**
+ * Reflows a baseline plan and each scenario, and compares them.
+ *
+ * @param workOrders - Work orders of the baseline plan
+ * @param workCenters - Work centers of the baseline plan
+ * @param scenarios - Named edit lists, each applied to the baseline on its own
+ * @param config - Scheduler configuration shared by every run
+ * @returns The baseline and each scenario with its differences from the baseline
+ * @throws InvalidPlanEditError if an edit refers to an unknown order or work center
+ */
+export function compareScenarios(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  scenarios: Scenario[],
+  config: SchedulerConfig = {},
+): ScenarioComparison {
+  // Every run must agree on "now", even if a scenario moves the plan start
+  const shared: SchedulerConfig = {
+    ...config,
+    currentTime: config.currentTime ?? getPlanStart(workOrders),
+  };
+
+  const baselineOutput = new SchedulerService(workCenters, shared).reflow(
+    workOrders,
+  );
+  const baselineMetrics = measurePlan(baselineOutput, workCenters, shared);
+  const baselineById = new Map(
+    baselineOutput.results.map((r) => [r.workOrderId, r]),
+  );
+
+  return {
+    baseline: { output: baselineOutput, metrics: baselineMetrics },
+    scenarios: scenarios.map((scenario) => {
+      const edited = applyPlanEdits(workOrders, workCenters, scenario.edits);
+      const output = new SchedulerService(edited.workCenters, shared).reflow(
+        edited.workOrders,
+      );
+      const metrics = measurePlan(output, edited.workCenters, shared);
+      const baselineUtilization = new Map(
+        baselineMetrics.utilization.map((u) => [
+          u.workCenterId,
+          u.utilizationPercentage,
+        ]),
+      );
+
+      return {
+        name: scenario.name,
+        output,
+        metrics,
+        orderDeltas: output.results.map((r): ScenarioOrderDelta => {
+          const baseline = baselineById.get(r.workOrderId);
+          return {
+            workOrderId: r.workOrderId,
+            workOrderNumber: r.workOrderNumber,
+            baselineStartDate: baseline?.newStartDate,
+            baselineEndDate: baseline?.newEndDate,
+            scenarioStartDate: r.newStartDate,
+            scenarioEndDate: r.newEndDate,
+            startDeltaMinutes:
+              baseline && minutesBetween(baseline.newStartDate, r.newStartDate),
+            endDeltaMinutes:
+              baseline && minutesBetween(baseline.newEndDate, r.newEndDate),
+          };
+        }),
+        makespanDeltaMinutes:
+          metrics.makespanMinutes - baselineMetrics.makespanMinutes,
+        lateCountDelta: metrics.lateCount - baselineMetrics.lateCount,
+        tardinessDeltaMinutes:
+          metrics.totalTardinessMinutes - baselineMetrics.totalTardinessMinutes,
+        utilizationDeltas: metrics.utilization.map((u) => ({
+          workCenterId: u.workCenterId,
+          deltaPercentage: round2(
+            u.utilizationPercentage -
+              (baselineUtilization.get(u.workCenterId) ?? 0),
+          ),
+        })),
+      };
+    }),
+  };
+}
+
+/**
+ * Headline figures of a reflowed plan; utilization comes from the load report.
+ */
+function measurePlan(
+  output: ReflowOutput,
+  workCenters: WorkCenter[],
+  config: SchedulerConfig,
+): ScenarioMetrics {
+  const report = buildUtilizationReport(output.results, workCenters, config);
+  const start = report.horizonStart && DateTime.fromISO(report.horizonStart);
+  const end = report.horizonEnd && DateTime.fromISO(report.horizonEnd);
+
+  return {
+    makespanEndDate: report.horizonEnd,
+    makespanMinutes:
+      start && end ? Math.round(end.diff(start, 'minutes').minutes) : 0,
+    lateCount: output.metadata.lateCount,
+    totalTardinessMinutes: output.metadata.totalTardinessMinutes,
+    utilization: report.workCenters.map((u) => ({
+      workCenterId: u.workCenterId,
+      utilizationPercentage: u.utilizationPercentage,
+    })),
+  };
+}
+
+/**
+ * Calendar minutes from one ISO time to another.
+ */
+function minutesBetween(from: string, to: string): number {
+  return Math.round(
+    DateTime.fromISO(to).diff(DateTime.fromISO(from), 'minutes').minutes,
+  );
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
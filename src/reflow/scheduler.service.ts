@@ -5,18 +5,29 @@
  * for manufacturing work orders. It handles:
  * 
  * - Dependency resolution via topological sort (DAG)
- * - Shift-aware time calculations
+ * - Shift-aware time calculations (including holidays, overrides and overtime)
  * - Maintenance window avoidance
- * - Work center capacity constraints (no overlaps)
+ * - Work center capacity constraints (no overlaps beyond parallel units)
+ * - Secondary resources (operators, fixtures) that must be available alongside the machine
+ * - Operation routings, scheduled operation by operation and rolled up per order
  * 
  * Algorithm Overview:
  * 1. Build dependency graph from work orders
  * 2. Perform topological sort to get processing order
- * 3. For each order (in topo order):
- *    a. Calculate earliest start = max(dependency ends, machine availability, original start)
- *    b. Use shift-aware calculation for end time
- *    c. Update machine availability tracker
- * 4. Return rescheduled orders with metadata
+ * 3. Reserve fixed orders (maintenance, pinned, frozen) and the remaining work of
+ *    in-progress orders on their work center timelines
+ * 4. For each order (in topo order):
+ *    a. Calculate ready time = max(dependency constraints incl. lag, original start),
+ *       plus an end-time floor for finish-to-finish / start-to-finish links
+ *    b. For each eligible work center, find the earliest timeline gap that fits
+ *       the shift-aware setup and duration, and in which every required resource
+ *       is working and free, and pick the best one per routing objective
+ *    c. Record the booking on the chosen work center and resource timelines
+ * 5. Return rescheduled orders with metadata
+ * 
+ * In backward mode the orders are processed in reverse topological order and
+ * each one is placed in the latest gap that ends by its due date and before
+ * its successors need it; setup is then filled in from each lane's sequence.
  */
 
 import { DateTime } from 'luxon';
@@ -25,27 +36,73 @@ import {
   WorkCenter,
   ReflowResult,
   ReflowOutput,
+  DueDateWarning,
   SchedulerConfig,
+  DispatchComparator,
+  DependencyLink,
+  FixedReason,
+  ScheduleConstraint,
+  ScheduleWarning,
+  WarningCode,
+  WarningSeverity,
   MissingWorkCenterError,
+  NoWorkableSlotError,
 } from './types';
-import { buildDependencyGraph, topologicalSort } from './dag.service';
+import {
+  DependencyGraph,
+  buildDependencyGraph,
+  getDependencyLinks,
+  topologicalSort,
+} from './dag.service';
+import { resolveWorkCenterCalendars } from './calendar.service';
+import { buildDispatchContext, resolveDispatchRule } from './dispatch.service';
+import { getSetupMinutes } from './setup.service';
+import { TimelineSlot, WorkCenterTimeline } from './timeline.service';
+import { expandRoutings, getOperationOrderId, isRoutedOrder } from './routing.service';
+import {
+  RequiredResource,
+  findBindingResource,
+  findEarliestCommonSlot,
+  findLatestCommonSlot,
+  reserveResources,
+} from './resource.service';
+import { traceConstraint } from './trace.service';
+import { buildUtilizationReport } from './utilization.service';
 import {
   calculateEndDateWithShifts,
+  calculateStartDateWithShifts,
   findEarliestValidStart,
   maxDateTime,
+  minDateTime,
 } from '../utils/date-utils';
 
 /**
- * Tracks the availability of each work center.
- * Maps work center ID to the earliest time it becomes available.
+ * Tracks the occupied intervals of each work center.
+ * Maps work center ID to its timeline.
  */
-type WorkCenterAvailability = Map<string, DateTime>;
+type WorkCenterTimelines = Map<string, WorkCenterTimeline>;
+
+/**
+ * A work center an order may run on, with its duration there.
+ */
+interface RoutingCandidate {
+  workCenterId: string;
+  durationMinutes: number;
+}
 
 /**
- * Tracks the end times of completed/scheduled work orders.
+ * A time bound together with the constraint that produced it.
+ */
+interface TracedTime {
+  time: DateTime;
+  constraint: Omit<ScheduleConstraint, 'time' | 'message'>;
+}
+
+/**
+ * Tracks the start and end times of scheduled work orders.
  * Used for dependency resolution.
  */
-type WorkOrderEndTimes = Map<string, DateTime>;
+type WorkOrderTimes = Map<string, { start: DateTime; end: DateTime }>;
 
 /**
  * Main scheduler class for production schedule reflow.
@@ -58,23 +115,50 @@ type WorkOrderEndTimes = Map<string, DateTime>;
  */
 export class SchedulerService {  
   private workCenters: Map<string, WorkCenter>;
-  private config: Required<SchedulerConfig>;
+  private config: Required<Omit<SchedulerConfig, 'currentTime'>> & Pick<SchedulerConfig, 'currentTime'>;
+  private dispatchRule: DispatchComparator;
+
+  /** Time treated as now during the current reflow */
+  private currentTime: DateTime;
 
   /**
    * Creates a new scheduler instance.
    * 
    * @param workCenters - Array of work centers available for scheduling
    * @param config - Optional configuration overrides
+   * @throws MissingCalendarError if a work center references an unknown calendar
+   * @throws UnknownDispatchRuleError if the dispatch rule is not recognized
+   * @throws DispatchRuleConflictError if a custom dispatch rule reuses a built-in name
    */
   constructor(workCenters: WorkCenter[], config: SchedulerConfig = {}) {
-    // Index work centers by ID for O(1) lookup
-    this.workCenters = new Map(workCenters.map(wc => [wc.docId, wc]));
-    
     // Apply default configuration
     this.config = {
       allowEarlierStart: config.allowEarlierStart ?? false,
       timezone: config.timezone ?? 'UTC',
+      calendars: config.calendars ?? [],
+      dispatchRule: config.dispatchRule ?? 'original-start',
+      customDispatchRules: config.customDispatchRules ?? {},
+      priorityScheduling: config.priorityScheduling ?? false,
+      routingObjective: config.routingObjective ?? 'earliest-finish',
+      direction: config.direction ?? 'forward',
+      currentTime: config.currentTime,
+      frozenHorizonMinutes: config.frozenHorizonMinutes ?? 0,
+      shiftGapWarningMinutes: config.shiftGapWarningMinutes ?? 1440,
+      includeUtilization: config.includeUtilization ?? false,
     };
+
+    // In priority scheduling, priority always wins and the configured rule breaks ties
+    const baseRule = resolveDispatchRule(this.config.dispatchRule, this.config.customDispatchRules);
+    const priorityRule = resolveDispatchRule('priority');
+    this.dispatchRule = this.config.priorityScheduling
+      ? (a, b, context) => priorityRule(a, b, context) || baseRule(a, b, context)
+      : baseRule;
+
+    // Index work centers by ID for O(1) lookup, with shared calendars merged in
+    const calendars = new Map(this.config.calendars.map(c => [c.docId, c]));
+    this.workCenters = new Map(
+      workCenters.map(wc => [wc.docId, resolveWorkCenterCalendars(wc, calendars)]),
+    );
   }
 
   /**
@@ -88,129 +172,422 @@ export class SchedulerService {
    */
   reflow(workOrders: WorkOrder[]): ReflowOutput {
     const startTime = Date.now();
-    const warnings: string[] = [];
+    const warnings: ScheduleWarning[] = [];
+
+    // Routed orders are scheduled operation by operation
+    const orders = expandRoutings(workOrders);
+
+    // Without a configured time, "now" is the start of the plan, so the
+    // result never depends on when the reflow runs
+    const currentTime = this.config.currentTime ?? getPlanStart(workOrders);
+    this.currentTime = currentTime
+      ? DateTime.fromISO(currentTime, { zone: this.config.timezone })
+      : DateTime.fromMillis(0, { zone: this.config.timezone });
 
     // Validate all work centers exist
-    this.validateWorkCenters(workOrders);
+    this.validateWorkCenters(orders);
 
     // Step 1: Build dependency graph and get topological order
-    // This ensures we process dependencies before their dependents
-    const graph = buildDependencyGraph(workOrders);
-    const sortedOrders = topologicalSort(graph);
+    // This ensures we process dependencies before their dependents;
+    // among ready orders, the dispatch rule decides who goes first
+    const graph = buildDependencyGraph(orders);
+    const dispatchContext = buildDispatchContext(graph);
+    const sortedOrders = topologicalSort(graph, (a, b) =>
+      this.dispatchRule(a, b, dispatchContext),
+    );
 
     // Step 2: Initialize tracking structures
-    // - workCenterAvailability: When each machine is next free
-    // - workOrderEndTimes: When each order completes (for dependency resolution)
-    const workCenterAvailability: WorkCenterAvailability = new Map();
-    const workOrderEndTimes: WorkOrderEndTimes = new Map();
+    // - fixedReasons: Orders that keep their times, and why
+    // - workCenterTimelines: When each machine is occupied
+    // - workOrderTimes: When each order starts and completes (for dependency resolution)
+    const fixedReasons = this.getFixedReasons(orders);
+    const workCenterTimelines = this.createTimelines(orders, fixedReasons, warnings);
+    const workOrderTimes: WorkOrderTimes = new Map();
 
     // Step 3: Process each work order in topological order
-    const results: ReflowResult[] = [];
-
-    for (const order of sortedOrders) {
-      const result = this.scheduleWorkOrder(
-        order,
-        workCenterAvailability,
-        workOrderEndTimes,
-        warnings,
-      );
+    // (successors first when scheduling backward)
+    let results: ReflowResult[] = [];
+    const dueDateWarnings: DueDateWarning[] = [];
+    const backward = this.config.direction === 'backward';
+
+    for (const order of backward ? [...sortedOrders].reverse() : sortedOrders) {
+      let result: ReflowResult;
+      try {
+        result = backward
+          ? this.scheduleWorkOrderBackward(
+              order,
+              graph,
+              fixedReasons,
+              workCenterTimelines,
+              workOrderTimes,
+              warnings,
+            )
+          : this.scheduleWorkOrder(
+              order,
+              fixedReasons,
+              workCenterTimelines,
+              workOrderTimes,
+              warnings,
+            );
+      } catch (error) {
+        // A work center without working time only takes its own orders down
+        if (!(error instanceof NoWorkableSlotError)) {
+          throw error;
+        }
+        result = this.keepUnscheduledOrder(order, error, workOrderTimes, warnings);
+      }
+      result = { ...result, ...this.reportRequiredResources(order, result.workCenterId) };
       
+      // Routed orders are checked once their operations are rolled up
+      if (!order.data.parentWorkOrderId) {
+        this.checkDueDate(order, result, warnings, dueDateWarnings);
+      }
       results.push(result);
     }
 
+    // Setup depends on the order before each one in its lane, which is
+    // only known once every order has been placed backward
+    if (backward) {
+      results.reverse();
+      this.assignBackwardSetup(results, workCenterTimelines);
+    }
+
+    // Pinned and frozen orders are never shifted to satisfy a dependency
+    this.checkFixedDependencies(orders, fixedReasons, workOrderTimes, warnings);
+
+    // Link displacing orders back to the orders they pushed
+    if (this.config.priorityScheduling) {
+      this.linkDisplacedOrders(results);
+    }
+
+    // One result per routed order, with its operations as detail
+    results = this.rollUpRoutings(workOrders, results, warnings, dueDateWarnings);
+
     // Step 4: Compile statistics and return
     const processingTimeMs = Date.now() - startTime;
     const rescheduledCount = results.filter(r => r.wasRescheduled).length;
     const fixedCount = results.filter(r => r.isFixed).length;
+    const reassignedCount = results.filter(r => r.wasReassigned).length;
+    const totalSetupMinutes = results.reduce((sum, r) => sum + r.setupMinutes, 0);
+    const infeasibleCount = results.filter(r => r.isInfeasible).length;
+
+    // Tardiness only counts late orders; early completion does not offset it
+    const withDueDate = results.filter(r => r.dueDate !== undefined);
+    const tardiness = results
+      .filter(r => r.isLate)
+      .map(r => r.latenessMinutes!);
+    const lateCount = tardiness.length;
+    const onTimePercentage = withDueDate.length === 0
+      ? 100
+      : Math.round(((withDueDate.length - lateCount) / withDueDate.length) * 10000) / 100;
 
     return {
       results,
-      warnings,
+      warnings: warnings.map(w => w.message),
+      warningDetails: warnings,
+      dueDateWarnings,
       metadata: {
         totalOrders: workOrders.length,
         rescheduledCount,
         fixedCount,
+        reassignedCount,
+        totalSetupMinutes,
+        infeasibleCount,
+        lateCount,
+        totalTardinessMinutes: tardiness.reduce((sum, t) => sum + t, 0),
+        maxTardinessMinutes: Math.max(0, ...tardiness),
+        onTimePercentage,
         processingTimeMs,
       },
+      ...(this.config.includeUtilization && {
+        // Work centers already have their shared calendars merged in
+        utilization: buildUtilizationReport(results, [...this.workCenters.values()], {
+          timezone: this.config.timezone,
+        }),
+      }),
     };
   }
 
+  /**
+   * Determines which orders keep their original times: completed orders,
+   * maintenance orders, pinned orders, and orders starting inside the
+   * frozen horizon. In-progress orders are handled separately.
+   * 
+   * @param workOrders - All work orders being scheduled
+   * @returns Reason per fixed order, indexed by work order ID
+   */
+  private getFixedReasons(workOrders: WorkOrder[]): Map<string, FixedReason> {
+    const frozenUntil = this.currentTime.plus({ minutes: this.config.frozenHorizonMinutes });
+    const reasons = new Map<string, FixedReason>();
+
+    for (const order of workOrders) {
+      if (order.data.status === 'completed') {
+        reasons.set(order.docId, 'completed');
+      } else if (order.data.isMaintenance) {
+        reasons.set(order.docId, 'maintenance');
+      } else if (order.data.pinned) {
+        reasons.set(order.docId, 'pinned');
+      } else if (order.data.status === 'in-progress') {
+        continue;
+      } else if (
+        this.config.frozenHorizonMinutes > 0 &&
+        DateTime.fromISO(order.data.startDate) < frozenUntil
+      ) {
+        reasons.set(order.docId, 'frozen');
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Creates an empty timeline per work center and reserves the fixed
+   * orders up front, so that every other order is placed around them
+   * regardless of processing order. Maintenance blocks every lane; pinned
+   * and frozen orders take the first free lane. Completed orders take no
+   * capacity. The remaining work of in-progress orders is booked next.
+   * 
+   * @param workOrders - All work orders being scheduled
+   * @param fixedReasons - Orders that keep their times
+   * @param warnings - Array to accumulate any warnings
+   * @returns Timelines indexed by work center ID
+   */
+  private createTimelines(
+    workOrders: WorkOrder[],
+    fixedReasons: Map<string, FixedReason>,
+    warnings: ScheduleWarning[],
+  ): WorkCenterTimelines {
+    const timelines: WorkCenterTimelines = new Map();
+
+    for (const [id, workCenter] of this.workCenters) {
+      timelines.set(id, new WorkCenterTimeline(workCenter, this.config.timezone));
+    }
+
+    // Maintenance first, so fixed production orders see it when picking a lane
+    const fixedOrders = workOrders
+      .filter(o => fixedReasons.has(o.docId) && fixedReasons.get(o.docId) !== 'completed')
+      .sort((a, b) => Number(b.data.isMaintenance) - Number(a.data.isMaintenance));
+
+    for (const order of fixedOrders) {
+      const timeline = timelines.get(order.data.workCenterId)!;
+      const start = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+      const end = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+      let lane: number | undefined;
+
+      if (!order.data.isMaintenance) {
+        const freeLane = timeline.findFreeLane(start, end);
+        if (freeLane === null) {
+          warnings.push(scheduleWarning(
+            'fixed-order-overlap',
+            `Work order "${order.data.workOrderNumber}" (${fixedReasons.get(order.docId)}) ` +
+            `overlaps other fixed orders on work center "${order.data.workCenterId}"`,
+            { workOrderId: order.docId, workCenterId: order.data.workCenterId },
+          ));
+        }
+        lane = freeLane ?? 1;
+      }
+
+      timeline.reserve({
+        workOrderId: order.docId,
+        priority: order.data.priority ?? 0,
+        isFixed: true,
+        start,
+        end,
+        lane,
+        productFamily: order.data.productFamily,
+        setupMinutes: 0,
+      });
+      reserveResources(
+        this.getRequiredResources(order, order.data.workCenterId, timelines),
+        order.docId,
+        order.data.priority ?? 0,
+        true,
+        start,
+        end,
+      );
+    }
+
+    // In-progress orders keep their machine; the remaining work
+    // resumes at the first working time from now
+    const now = this.currentTime;
+    const inProgressOrders = workOrders.filter(
+      o => !fixedReasons.has(o.docId) && o.data.status === 'in-progress',
+    );
+
+    for (const order of inProgressOrders) {
+      const timeline = timelines.get(order.data.workCenterId)!;
+      const workCenter = this.workCenters.get(order.data.workCenterId)!;
+      const actualStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+      let resumeAt: DateTime;
+      let end: DateTime;
+      try {
+        resumeAt = findEarliestValidStart(
+          maxDateTime(now, actualStart)!,
+          workCenter,
+          this.config.timezone,
+        );
+        end = calculateEndDateWithShifts(
+          resumeAt,
+          this.getRemainingMinutes(order),
+          workCenter,
+          this.config.timezone,
+        );
+      } catch (error) {
+        // Left unbooked: the order is reported as unscheduled when its turn comes
+        if (!(error instanceof NoWorkableSlotError)) {
+          throw error;
+        }
+        continue;
+      }
+
+      const freeLane = timeline.findFreeLane(resumeAt, end);
+      if (freeLane === null) {
+        warnings.push(scheduleWarning(
+          'fixed-order-overlap',
+          `Work order "${order.data.workOrderNumber}" (in progress) ` +
+          `overlaps fixed orders on work center "${order.data.workCenterId}"`,
+          { workOrderId: order.docId, workCenterId: order.data.workCenterId },
+        ));
+      }
+
+      timeline.reserve({
+        workOrderId: order.docId,
+        priority: order.data.priority ?? 0,
+        isFixed: true,
+        start: resumeAt,
+        end,
+        lane: freeLane ?? 1,
+        productFamily: order.data.productFamily,
+        setupMinutes: 0,
+      });
+      reserveResources(
+        this.getRequiredResources(order, order.data.workCenterId, timelines),
+        order.docId,
+        order.data.priority ?? 0,
+        true,
+        resumeAt,
+        end,
+      );
+    }
+
+    return timelines;
+  }
+
+  /**
+   * Working minutes still to do on an order.
+   */
+  private getRemainingMinutes(order: WorkOrder): number {
+    return Math.max(0, order.data.durationMinutes - (order.data.completedMinutes ?? 0));
+  }
+
   /**
    * Schedules a single work order, updating availability trackers.
    * 
-   * The earliest start time is the maximum of:
-   * 1. All dependency end times (work can't start until dependencies complete)
-   * 2. Work center availability (no overlap with previous orders on same machine)
-   * 3. Original start time (unless allowEarlierStart is enabled)
-   * 4. First valid shift time (work must occur during shifts)
+   * The order is ready at the maximum of:
+   * 1. Dependency constraints: predecessor end (FS) or start (SS), plus lag
+   * 2. Original start time (unless allowEarlierStart is enabled)
+   * 
+   * Finish-to-finish and start-to-finish links instead set a floor for the
+   * order's end, which pushes its start back accordingly.
+   * 
+   * It is then inserted into the earliest gap on a work center's timeline
+   * that starts during a shift and fits the shift-aware duration without
+   * overlapping orders already placed. When the order lists alternate work
+   * centers, the one that best meets the routing objective is chosen.
    * 
    * @param order - Work order to schedule
-   * @param workCenterAvailability - Tracker for machine availability
-   * @param workOrderEndTimes - Tracker for completed order end times
+   * @param fixedReasons - Orders that keep their times
+   * @param workCenterTimelines - Tracker for occupied machine time
+   * @param workOrderTimes - Tracker for scheduled order start and end times
    * @param warnings - Array to accumulate any warnings
    * @returns The scheduling result for this order
    */
   private scheduleWorkOrder(
     order: WorkOrder,
-    workCenterAvailability: WorkCenterAvailability,
-    workOrderEndTimes: WorkOrderEndTimes,
-    warnings: string[],
+    fixedReasons: Map<string, FixedReason>,
+    workCenterTimelines: WorkCenterTimelines,
+    workOrderTimes: WorkOrderTimes,
+    warnings: ScheduleWarning[],
   ): ReflowResult {
-    const workCenter = this.workCenters.get(order.data.workCenterId)!;
     const originalStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
     const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
 
-    // Maintenance orders are immovable - they define blocked time
-    // We still track them for work center availability
-    if (order.data.isMaintenance) {
-      // Update work center availability to after this maintenance window
-      const currentAvailability = workCenterAvailability.get(order.data.workCenterId);
-      if (!currentAvailability || originalEnd > currentAvailability) {
-        workCenterAvailability.set(order.data.workCenterId, originalEnd);
-      }
-
-      // Track end time for any orders that depend on this maintenance
-      workOrderEndTimes.set(order.docId, originalEnd);
+    // Maintenance, pinned and frozen orders are immovable - they define
+    // blocked time and were reserved on the timeline before scheduling started
+    const fixedReason = fixedReasons.get(order.docId);
+    if (fixedReason) {
+      return this.scheduleFixedOrder(order, fixedReason, workCenterTimelines, workOrderTimes);
+    }
 
-      return {
-        workOrderId: order.docId,
-        workOrderNumber: order.data.workOrderNumber,
-        originalStartDate: order.data.startDate,
-        originalEndDate: order.data.endDate,
-        newStartDate: order.data.startDate,
-        newEndDate: order.data.endDate,
-        wasRescheduled: false,
-        isFixed: true,
-      };
+    // In-progress orders have already started; their remaining work
+    // was booked on the timeline before scheduling started
+    if (order.data.status === 'in-progress') {
+      return this.scheduleInProgressOrder(order, workCenterTimelines, workOrderTimes);
     }
 
-    // Calculate earliest possible start time based on all constraints
-    const earliestStart = this.calculateEarliestStart(
+    // Calculate when the order is ready based on dependencies and original timing
+    const ready = this.calculateReadyTime(order, workOrderTimes);
+    const readyTime = ready.time;
+    const finishFloor = this.calculateFinishFloor(order, workOrderTimes);
+
+    // Find the earliest gap on each eligible machine (during a shift, not in
+    // maintenance, not overlapping other orders, with room for any changeover,
+    // with every required resource available too) and keep the best one
+    const { workCenterId, slot, trace } = this.selectWorkCenter(
       order,
-      workCenterAvailability,
-      workOrderEndTimes,
+      ready,
+      finishFloor,
+      workCenterTimelines,
     );
+    const { setupStart, start: validStart, end: newEnd, lane, setupMinutes } = slot;
+    const timeline = workCenterTimelines.get(workCenterId)!;
+    const wasReassigned = workCenterId !== order.data.workCenterId;
 
-    // Find the first valid start time (during a shift, not in maintenance)
-    const validStart = findEarliestValidStart(
-      earliestStart,
-      workCenter,
-      this.config.timezone,
-    );
+    if (wasReassigned) {
+      warnings.push(scheduleWarning(
+        'order-reassigned',
+        `Work order "${order.data.workOrderNumber}" reassigned from work center ` +
+        `"${order.data.workCenterId}" to "${workCenterId}"`,
+        { workOrderId: order.docId, workCenterId },
+      ));
+    }
 
-    // Calculate end time using shift-aware duration calculation
-    const newEnd = calculateEndDateWithShifts(
-      validStart,
-      order.data.durationMinutes,
-      workCenter,
-      this.config.timezone,
-    );
+    // Priority scheduling: explain who took the machine time this order wanted
+    const displacedBy = this.config.priorityScheduling
+      ? this.findDisplacingOrders(order, readyTime, setupStart, timeline)
+      : [];
 
-    // Update work center availability
-    workCenterAvailability.set(order.data.workCenterId, newEnd);
+    if (displacedBy.length > 0) {
+      warnings.push(scheduleWarning(
+        'order-displaced',
+        `Work order "${order.data.workOrderNumber}" displaced by higher-priority ` +
+        `order(s) ${displacedBy.map(id => `"${id}"`).join(', ')}`,
+        { workOrderId: order.docId, workCenterId, relatedWorkOrderIds: displacedBy },
+      ));
+    }
 
-    // Track end time for dependent orders
-    workOrderEndTimes.set(order.docId, newEnd);
+    // Occupy the machine and any secondary resources for this order, including its setup
+    timeline.reserve({
+      workOrderId: order.docId,
+      priority: order.data.priority ?? 0,
+      isFixed: false,
+      start: setupStart,
+      end: newEnd,
+      lane,
+      productFamily: order.data.productFamily,
+      setupMinutes,
+    });
+    reserveResources(
+      this.getRequiredResources(order, workCenterId, workCenterTimelines),
+      order.docId,
+      order.data.priority ?? 0,
+      false,
+      setupStart,
+      newEnd,
+    );
+
+    // Track times for dependent orders
+    workOrderTimes.set(order.docId, { start: validStart, end: newEnd });
 
     // Check if schedule actually changed
     const wasRescheduled = !validStart.equals(originalStart) || !newEnd.equals(originalEnd);
@@ -219,83 +596,960 @@ export class SchedulerService {
     if (wasRescheduled) {
       const delayMinutes = validStart.diff(originalStart, 'minutes').minutes;
       if (delayMinutes > 0) {
-        warnings.push(
-          `Work order "${order.data.workOrderNumber}" delayed by ${Math.round(delayMinutes)} minutes`
-        );
+        warnings.push(scheduleWarning(
+          'order-delayed',
+          `Work order "${order.data.workOrderNumber}" delayed by ${Math.round(delayMinutes)} minutes`,
+          { workOrderId: order.docId, workCenterId, delayMinutes: Math.round(delayMinutes) },
+        ));
       }
     }
 
+    this.checkShiftGaps(order, workCenterId, trace, warnings);
+
     return {
       workOrderId: order.docId,
       workOrderNumber: order.data.workOrderNumber,
       originalStartDate: order.data.startDate,
       originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
       newStartDate: validStart.toISO()!,
       newEndDate: newEnd.toISO()!,
       wasRescheduled,
       isFixed: false,
+      workCenterId,
+      wasReassigned,
+      lane,
+      setupMinutes,
+      ...(setupMinutes > 0 && { setupStartDate: setupStart.toISO()! }),
+      constraintTrace: trace,
+      bindingConstraint: trace[trace.length - 1],
+      ...this.reportBindingResource(order, workCenterId, trace),
+      ...this.assessDueDate(order, newEnd),
+      ...(displacedBy.length > 0 && { displacedBy }),
     };
   }
 
   /**
-   * Calculates the earliest possible start time for a work order.
+   * Schedules a single work order as late as possible.
+   * 
+   * The order must finish by the earliest of:
+   * 1. Its due date (or original end, if it has no due date and no successors)
+   * 2. Successor constraints: successor start (FS) or end (FF), minus lag
    * 
-   * This is the key constraint resolution function. It considers:
-   * 1. Dependency constraints: Must start after all dependencies complete
-   * 2. Machine constraints: Must start after machine is available
-   * 3. Original timing: Must not start earlier than originally planned (unless configured)
+   * Start-to-start and start-to-finish links instead cap the order's start.
+   * It is then placed in the latest gap on a work center's timeline that
+   * ends during a shift, leaving room for the changeover into the next order.
+   * Orders that would have to start before the current time are marked
+   * infeasible but still placed.
    * 
-   * @param order - Work order to calculate start for
-   * @param workCenterAvailability - Current machine availability
-   * @param workOrderEndTimes - End times of scheduled orders
-   * @returns The earliest DateTime this order can start
+   * @param order - Work order to schedule
+   * @param graph - Dependency graph, for finding successors
+   * @param fixedReasons - Orders that keep their times
+   * @param workCenterTimelines - Tracker for occupied machine time
+   * @param workOrderTimes - Tracker for scheduled order start and end times
+   * @param warnings - Array to accumulate any warnings
+   * @returns The scheduling result for this order (setup is filled in later)
    */
-  private calculateEarliestStart(
+  private scheduleWorkOrderBackward(
     order: WorkOrder,
-    workCenterAvailability: WorkCenterAvailability,
-    workOrderEndTimes: WorkOrderEndTimes,
-  ): DateTime {
-    const constraints: DateTime[] = [];
+    graph: DependencyGraph,
+    fixedReasons: Map<string, FixedReason>,
+    workCenterTimelines: WorkCenterTimelines,
+    workOrderTimes: WorkOrderTimes,
+    warnings: ScheduleWarning[],
+  ): ReflowResult {
+    const fixedReason = fixedReasons.get(order.docId);
+    if (fixedReason) {
+      return this.scheduleFixedOrder(order, fixedReason, workCenterTimelines, workOrderTimes);
+    }
+    if (order.data.status === 'in-progress') {
+      return this.scheduleInProgressOrder(order, workCenterTimelines, workOrderTimes);
+    }
+
+    const originalStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+    const { deadline, startCeiling } = this.calculateDeadline(order, graph, workOrderTimes);
+
+    // Find the latest gap on each eligible machine and keep the latest one;
+    // ties stay on the assigned work center
+    let best: { workCenterId: string; slot: TimelineSlot; trace: ScheduleConstraint[] } | null = null;
+
+    for (const candidate of this.getRoutingCandidates(order)) {
+      // A start ceiling translates into an end bound on this center's calendar
+      const until = earliestOf([
+        deadline,
+        startCeiling && {
+          ...startCeiling,
+          time: calculateEndDateWithShifts(
+            startCeiling.time,
+            candidate.durationMinutes,
+            this.workCenters.get(candidate.workCenterId)!,
+            this.config.timezone,
+          ),
+        },
+      ])!;
+
+      const slot = findLatestCommonSlot(
+        workCenterTimelines.get(candidate.workCenterId)!,
+        this.workCenters.get(candidate.workCenterId)!,
+        this.getRequiredResources(order, candidate.workCenterId, workCenterTimelines),
+        until.time,
+        candidate.durationMinutes,
+        order.data.productFamily,
+        this.config.timezone,
+      );
+
+      if (!best || slot.start > best.slot.start) {
+        const trace = [toConstraint(until), ...slot.trace];
+        best = { workCenterId: candidate.workCenterId, slot, trace };
+      }
+    }
+
+    const { workCenterId, slot: { start: newStart, end: newEnd, lane }, trace } = best!;
+    const wasReassigned = workCenterId !== order.data.workCenterId;
+
+    if (wasReassigned) {
+      warnings.push(scheduleWarning(
+        'order-reassigned',
+        `Work order "${order.data.workOrderNumber}" reassigned from work center ` +
+        `"${order.data.workCenterId}" to "${workCenterId}"`,
+        { workOrderId: order.docId, workCenterId },
+      ));
+    }
+
+    workCenterTimelines.get(workCenterId)!.reserve({
+      workOrderId: order.docId,
+      priority: order.data.priority ?? 0,
+      isFixed: false,
+      start: newStart,
+      end: newEnd,
+      lane,
+      productFamily: order.data.productFamily,
+      setupMinutes: 0,
+    });
+    reserveResources(
+      this.getRequiredResources(order, workCenterId, workCenterTimelines),
+      order.docId,
+      order.data.priority ?? 0,
+      false,
+      newStart,
+      newEnd,
+    );
+
+    // Track times for predecessors, which are scheduled next
+    workOrderTimes.set(order.docId, { start: newStart, end: newEnd });
+
+    const wasRescheduled = !newStart.equals(originalStart) || !newEnd.equals(originalEnd);
+
+    const isInfeasible = newStart < this.currentTime;
+    if (isInfeasible) {
+      warnings.push(scheduleWarning(
+        'deadline-infeasible',
+        `Work order "${order.data.workOrderNumber}" would have to start in the past ` +
+        `(${newStart.toISO()}) to meet its deadline`,
+        { workOrderId: order.docId, workCenterId },
+      ));
+    }
+
+    this.checkShiftGaps(order, workCenterId, trace, warnings);
+
+    return {
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      originalStartDate: order.data.startDate,
+      originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
+      newStartDate: newStart.toISO()!,
+      newEndDate: newEnd.toISO()!,
+      wasRescheduled,
+      isFixed: false,
+      workCenterId,
+      wasReassigned,
+      lane,
+      setupMinutes: 0,
+      constraintTrace: trace,
+      bindingConstraint: trace[trace.length - 1],
+      ...this.reportBindingResource(order, workCenterId, trace),
+      ...this.assessDueDate(order, newEnd),
+      isInfeasible,
+    };
+  }
+
+  /**
+   * Returns the result for a fixed order, which keeps its original times
+   * and was reserved on the timeline up front.
+   * 
+   * @param order - Maintenance, pinned or frozen order
+   * @param fixedReason - Why the order keeps its times
+   * @param workCenterTimelines - Timelines holding the fixed bookings
+   * @param workOrderTimes - Tracker for scheduled order start and end times
+   * @returns The unchanged scheduling result
+   */
+  private scheduleFixedOrder(
+    order: WorkOrder,
+    fixedReason: FixedReason,
+    workCenterTimelines: WorkCenterTimelines,
+    workOrderTimes: WorkOrderTimes,
+  ): ReflowResult {
+    const originalStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+
+    // Track times for any orders that depend on this maintenance
+    workOrderTimes.set(order.docId, { start: originalStart, end: originalEnd });
+
+    return {
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      originalStartDate: order.data.startDate,
+      originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
+      newStartDate: order.data.startDate,
+      newEndDate: order.data.endDate,
+      wasRescheduled: false,
+      isFixed: true,
+      fixedReason,
+      workCenterId: order.data.workCenterId,
+      wasReassigned: false,
+      lane: workCenterTimelines
+        .get(order.data.workCenterId)!
+        .bookings.find(b => b.workOrderId === order.docId)?.lane,
+      setupMinutes: 0,
+      ...this.assessDueDate(order, originalEnd),
+    };
+  }
+
+  /**
+   * Returns the result for an in-progress order: it keeps its actual start,
+   * and ends when the remaining work booked on its timeline is done.
+   * 
+   * @param order - In-progress order
+   * @param workCenterTimelines - Timelines holding the remaining work
+   * @param workOrderTimes - Tracker for scheduled order start and end times
+   * @returns The scheduling result for this order
+   * @throws NoWorkableSlotError if its remaining work could not be booked
+   */
+  private scheduleInProgressOrder(
+    order: WorkOrder,
+    workCenterTimelines: WorkCenterTimelines,
+    workOrderTimes: WorkOrderTimes,
+  ): ReflowResult {
+    const actualStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+    const booking = workCenterTimelines
+      .get(order.data.workCenterId)!
+      .bookings.find(b => b.workOrderId === order.docId);
+
+    // The work center had no working time left for the remaining work
+    if (!booking) {
+      throw new NoWorkableSlotError(
+        order.data.workCenterId,
+        maxDateTime(this.currentTime, actualStart)!.toISO()!,
+        'forward',
+      );
+    }
+
+    workOrderTimes.set(order.docId, { start: actualStart, end: booking.end });
+
+    return {
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      originalStartDate: order.data.startDate,
+      originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
+      newStartDate: order.data.startDate,
+      newEndDate: booking.end.toISO()!,
+      wasRescheduled: !booking.end.equals(originalEnd),
+      isFixed: false,
+      workCenterId: order.data.workCenterId,
+      wasReassigned: false,
+      lane: booking.lane,
+      remainingMinutes: this.getRemainingMinutes(order),
+      setupMinutes: 0,
+      ...this.assessDueDate(order, booking.end),
+    };
+  }
+
+  /**
+   * Returns the result for an order that could not be placed because a work
+   * center ran out of working time. It keeps its original times, so its
+   * successors can still be scheduled, and a warning explains why.
+   * 
+   * @param order - Work order that could not be placed
+   * @param error - Error raised while searching for working time
+   * @param workOrderTimes - Tracker for scheduled order start and end times
+   * @param warnings - Array to accumulate any warnings
+   * @returns The unchanged scheduling result, marked as unscheduled
+   */
+  private keepUnscheduledOrder(
+    order: WorkOrder,
+    error: NoWorkableSlotError,
+    workOrderTimes: WorkOrderTimes,
+    warnings: ScheduleWarning[],
+  ): ReflowResult {
+    const originalStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+
+    workOrderTimes.set(order.docId, { start: originalStart, end: originalEnd });
+    warnings.push(scheduleWarning(
+      'no-workable-slot',
+      `Work order "${order.data.workOrderNumber}" was not moved: ${error.message}`,
+      { workOrderId: order.docId, workCenterId: error.workCenterId },
+    ));
+
+    return {
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      originalStartDate: order.data.startDate,
+      originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
+      newStartDate: order.data.startDate,
+      newEndDate: order.data.endDate,
+      wasRescheduled: false,
+      isFixed: false,
+      workCenterId: order.data.workCenterId,
+      wasReassigned: false,
+      setupMinutes: 0,
+      ...this.assessDueDate(order, originalEnd),
+      isUnscheduled: true,
+    };
+  }
+
+  /**
+   * Emits a warning for every dependency of a pinned or frozen order that
+   * its fixed times break, since such orders are never shifted to fix it.
+   * 
+   * @param workOrders - All work orders being scheduled
+   * @param fixedReasons - Orders that keep their times
+   * @param workOrderTimes - Start and end times of all scheduled orders
+   * @param warnings - Array to accumulate warning messages
+   */
+  private checkFixedDependencies(
+    workOrders: WorkOrder[],
+    fixedReasons: Map<string, FixedReason>,
+    workOrderTimes: WorkOrderTimes,
+    warnings: ScheduleWarning[],
+  ): void {
+    const isPinnedOrFrozen = (id: string) =>
+      fixedReasons.get(id) === 'pinned' || fixedReasons.get(id) === 'frozen';
+    const numbers = new Map(workOrders.map(o => [o.docId, o.data.workOrderNumber]));
+
+    for (const order of workOrders) {
+      for (const link of getDependencyLinks(order)) {
+        const fixedId = [order.docId, link.workOrderId].find(isPinnedOrFrozen);
+        if (!fixedId) {
+          continue;
+        }
+
+        // Same rule as scheduling: the successor's start (FS, SS) or end
+        // (FF, SF) may not precede the predecessor's end (FS, FF) or start (SS, SF) plus lag
+        const depTimes = workOrderTimes.get(link.workOrderId)!;
+        const times = workOrderTimes.get(order.docId)!;
+        const anchor = link.type === 'FS' || link.type === 'FF' ? depTimes.end : depTimes.start;
+        const required = this.applyLag(anchor, link, order);
+        const actual = link.type === 'FS' || link.type === 'SS' ? times.start : times.end;
+        const violationMinutes = Math.round(required.diff(actual, 'minutes').minutes);
+
+        if (violationMinutes > 0) {
+          warnings.push(scheduleWarning(
+            'fixed-dependency-violated',
+            `Work order "${order.data.workOrderNumber}" violates its ${link.type} dependency on ` +
+            `"${numbers.get(link.workOrderId)}" by ${violationMinutes} minutes; ` +
+            `${fixedReasons.get(fixedId)} order "${numbers.get(fixedId)}" was not moved`,
+            {
+              workOrderId: order.docId,
+              workCenterId: order.data.workCenterId,
+              relatedWorkOrderIds: [link.workOrderId],
+              violationMinutes,
+            },
+          ));
+        }
+      }
+    }
+  }
+
+  /**
+   * Emits a warning when an order waited longer than the configured
+   * threshold for its work center's next shift.
+   * 
+   * @param order - Work order that was scheduled
+   * @param workCenterId - Work center the order was placed on
+   * @param trace - Constraint trace of the placement
+   * @param warnings - Array to accumulate any warnings
+   */
+  private checkShiftGaps(
+    order: WorkOrder,
+    workCenterId: string,
+    trace: ScheduleConstraint[],
+    warnings: ScheduleWarning[],
+  ): void {
+    // Each shift entry moved the order from the time of the entry before it
+    const waits = trace
+      .map((c, i) => c.type === 'shift' && i > 0
+        ? Math.abs(DateTime.fromISO(c.time).diff(DateTime.fromISO(trace[i - 1].time), 'minutes').minutes)
+        : 0);
+    const waitMinutes = Math.round(Math.max(0, ...waits));
+
+    if (waitMinutes > this.config.shiftGapWarningMinutes) {
+      warnings.push(scheduleWarning(
+        'long-shift-gap',
+        `Work order "${order.data.workOrderNumber}" waited ${waitMinutes} minutes ` +
+        `for the next shift on work center "${workCenterId}"`,
+        { workOrderId: order.docId, workCenterId, waitMinutes },
+      ));
+    }
+  }
+
+  /**
+   * Calculates the latest time a work order may finish and, from
+   * start-to-start and start-to-finish links, the latest time it may start.
+   * 
+   * @param order - Work order to calculate the deadline for
+   * @param graph - Dependency graph, for finding successors
+   * @param workOrderTimes - Start and end times of scheduled successors
+   * @returns The end deadline and start ceiling; at least one is set
+   */
+  private calculateDeadline(
+    order: WorkOrder,
+    graph: DependencyGraph,
+    workOrderTimes: WorkOrderTimes,
+  ): { deadline: TracedTime | null; startCeiling: TracedTime | null } {
+    const endConstraints: TracedTime[] = [];
+    const startConstraints: TracedTime[] = [];
+
+    if (order.data.dueDate) {
+      endConstraints.push({
+        time: DateTime.fromISO(order.data.dueDate, { zone: this.config.timezone }),
+        constraint: { type: 'due-date' },
+      });
+    }
+
+    // The order must finish (FS, FF) or start (SS, SF) before its successor
+    // starts (FS, SS) or ends (FF, SF), less any lag
+    for (const successorId of graph.nodes.get(order.docId)!.dependents) {
+      const successor = graph.nodes.get(successorId)!;
+      const succTimes = workOrderTimes.get(successorId)!;
+
+      for (const link of successor.dependencyLinks.filter(l => l.workOrderId === order.docId)) {
+        const anchor = link.type === 'FS' || link.type === 'SS' ? succTimes.start : succTimes.end;
+        const bound: TracedTime = {
+          time: this.applyLag(anchor, link, successor.workOrder, -1),
+          constraint: { type: 'dependency', workOrderId: successorId, dependencyType: link.type },
+        };
+        (link.type === 'FS' || link.type === 'FF' ? endConstraints : startConstraints).push(bound);
+      }
+    }
+
+    // Unconstrained orders keep their original end as the deadline
+    if (endConstraints.length === 0 && startConstraints.length === 0) {
+      endConstraints.push({
+        time: DateTime.fromISO(order.data.endDate, { zone: this.config.timezone }),
+        constraint: { type: 'original-end' },
+      });
+    }
+
+    return {
+      deadline: earliestOf(endConstraints),
+      startCeiling: earliestOf(startConstraints),
+    };
+  }
+
+  /**
+   * Fills in setup for backward-scheduled orders from the order placed
+   * before each one in its lane. Room for the changeover was left when the
+   * later order was placed.
+   * 
+   * @param results - All scheduling results
+   * @param workCenterTimelines - Timelines holding the final bookings
+   */
+  private assignBackwardSetup(
+    results: ReflowResult[],
+    workCenterTimelines: WorkCenterTimelines,
+  ): void {
+    const resultsById = new Map(results.map(r => [r.workOrderId, r]));
+
+    for (const [workCenterId, timeline] of workCenterTimelines) {
+      const workCenter = this.workCenters.get(workCenterId)!;
+      const previousByLane = new Map<number, string | undefined>();
+
+      for (const booking of timeline.bookings) {
+        if (booking.lane === undefined) {
+          continue;
+        }
+
+        const setupMinutes = previousByLane.has(booking.lane)
+          ? getSetupMinutes(workCenter, previousByLane.get(booking.lane), booking.productFamily)
+          : 0;
+        previousByLane.set(booking.lane, booking.productFamily);
+
+        if (setupMinutes > 0) {
+          const result = resultsById.get(booking.workOrderId)!;
+          result.setupMinutes = setupMinutes;
+          result.setupStartDate = calculateStartDateWithShifts(
+            booking.start,
+            setupMinutes,
+            workCenter,
+            this.config.timezone,
+          ).toISO()!;
+        }
+      }
+    }
+  }
+
+  /**
+   * Chooses the work center for an order among its assigned center and
+   * alternates, according to the configured routing objective.
+   * 
+   * @param order - Work order being scheduled
+   * @param ready - Earliest time the order may start, and why
+   * @param finishFloor - Earliest time the order may finish, if constrained
+   * @param workCenterTimelines - Occupied machine time
+   * @returns The chosen work center, the slot found on it and the
+   *          constraints that led there
+   */
+  private selectWorkCenter(
+    order: WorkOrder,
+    ready: TracedTime,
+    finishFloor: TracedTime | null,
+    workCenterTimelines: WorkCenterTimelines,
+  ): { workCenterId: string; slot: TimelineSlot; trace: ScheduleConstraint[] } {
+    let best: { workCenterId: string; slot: TimelineSlot; trace: ScheduleConstraint[] } | null = null;
+
+    for (const candidate of this.getRoutingCandidates(order)) {
+      // An end floor translates into a start bound on this center's calendar
+      const from = latestOf([
+        ready,
+        finishFloor && {
+          ...finishFloor,
+          time: calculateStartDateWithShifts(
+            finishFloor.time,
+            candidate.durationMinutes,
+            this.workCenters.get(candidate.workCenterId)!,
+            this.config.timezone,
+          ),
+        },
+      ])!;
+
+      const slot = findEarliestCommonSlot(
+        workCenterTimelines.get(candidate.workCenterId)!,
+        this.workCenters.get(candidate.workCenterId)!,
+        this.getRequiredResources(order, candidate.workCenterId, workCenterTimelines),
+        from.time,
+        candidate.durationMinutes,
+        order.data.productFamily,
+        this.config.timezone,
+      );
+
+      // Only a strictly better slot replaces an earlier candidate,
+      // so ties stay on the assigned work center
+      if (!best || this.compareSlots(slot, best.slot) < 0) {
+        const trace = [toConstraint(from), ...slot.trace];
+        best = { workCenterId: candidate.workCenterId, slot, trace };
+      }
+    }
+
+    return best!;
+  }
+
+  /**
+   * Lists the work centers an order may run on: its assigned center first,
+   * then alternates in the order given, each with its adjusted duration.
+   * 
+   * @param order - Work order to route
+   * @returns Routing candidates
+   */
+  private getRoutingCandidates(order: WorkOrder): RoutingCandidate[] {
+    return [
+      { workCenterId: order.data.workCenterId, durationMinutes: order.data.durationMinutes },
+      ...(order.data.alternateWorkCenters ?? []).map(alt => ({
+        workCenterId: alt.workCenterId,
+        durationMinutes: Math.round(order.data.durationMinutes * (alt.durationMultiplier ?? 1)),
+      })),
+    ];
+  }
+
+  /**
+   * Replaces the results of each routed order's operations by a single
+   * result for the order, placed where its last operation was, and checks
+   * the order against its due date.
+   * 
+   * @param workOrders - Work orders as given, before routings were expanded
+   * @param results - Results per scheduled order, operations included
+   * @param warnings - Array to accumulate warning messages
+   * @param dueDateWarnings - Array to accumulate structured due date warnings
+   * @returns Results with operations rolled up into their orders
+   */
+  private rollUpRoutings(
+    workOrders: WorkOrder[],
+    results: ReflowResult[],
+    warnings: ScheduleWarning[],
+    dueDateWarnings: DueDateWarning[],
+  ): ReflowResult[] {
+    const routed = workOrders.filter(isRoutedOrder);
+    if (routed.length === 0) {
+      return results;
+    }
+
+    const resultById = new Map(results.map(r => [r.workOrderId, r]));
+    const rolledUp = new Map<string, ReflowResult>();
+
+    for (const order of routed) {
+      const operations = order.data.operations!.map(
+        op => resultById.get(getOperationOrderId(order.docId, op.operationId))!,
+      );
+      const result = this.rollUpRouting(order, operations);
+      this.checkDueDate(order, result, warnings, dueDateWarnings);
+      rolledUp.set(operations[operations.length - 1].workOrderId, result);
+    }
+
+    const operationIds = new Set(
+      routed.flatMap(o => o.data.operations!.map(op => getOperationOrderId(o.docId, op.operationId))),
+    );
+    return results.flatMap(r => {
+      const result = rolledUp.get(r.workOrderId);
+      if (result) return [result];
+      return operationIds.has(r.workOrderId) ? [] : [r];
+    });
+  }
+
+  /**
+   * Builds a routed order's result from its operations: it starts when the
+   * first one starts and ends when the last one ends. It counts as
+   * rescheduled or reassigned when any of its operations is.
+   * 
+   * @param order - Routed work order
+   * @param operations - Results of its operations, in routing order
+   * @returns The order's result, with the operations as detail
+   */
+  private rollUpRouting(order: WorkOrder, operations: ReflowResult[]): ReflowResult {
+    const originalStart = DateTime.fromISO(order.data.startDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+    const newStart = minDateTime(
+      ...operations.map(r => DateTime.fromISO(r.newStartDate, { zone: this.config.timezone })),
+    )!;
+    const newEnd = maxDateTime(
+      ...operations.map(r => DateTime.fromISO(r.newEndDate, { zone: this.config.timezone })),
+    )!;
+    const last = operations[operations.length - 1];
+    const fixedReasons = new Set(operations.map(r => r.fixedReason));
+    const isFixed = operations.every(r => r.isFixed);
+
+    return {
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      originalStartDate: order.data.startDate,
+      originalEndDate: order.data.endDate,
+      originalWorkCenterId: order.data.workCenterId,
+      newStartDate: newStart.toISO()!,
+      newEndDate: newEnd.toISO()!,
+      wasRescheduled:
+        !newStart.equals(originalStart) || !newEnd.equals(originalEnd) || operations.some(r => r.wasRescheduled),
+      isFixed,
+      ...(isFixed && fixedReasons.size === 1 && { fixedReason: last.fixedReason }),
+      // Work centers belong to the operations; the order keeps its own
+      workCenterId: order.data.workCenterId,
+      wasReassigned: operations.some(r => r.wasReassigned),
+      setupMinutes: operations.reduce((sum, r) => sum + r.setupMinutes, 0),
+      ...this.assessDueDate(order, newEnd),
+      ...(operations.some(r => r.isInfeasible) && { isInfeasible: true }),
+      ...(operations.some(r => r.isUnscheduled) && { isUnscheduled: true }),
+      operations,
+    };
+  }
+
+  /**
+   * Looks up the secondary resources an order needs while running on a
+   * work center. A resource that is the work center itself is skipped.
+   * 
+   * @param order - Work order being placed
+   * @param workCenterId - Work center the order runs on
+   * @param workCenterTimelines - Timelines of all work centers
+   * @returns The resources with their timelines
+   */
+  private getRequiredResources(
+    order: WorkOrder,
+    workCenterId: string,
+    workCenterTimelines: WorkCenterTimelines,
+  ): RequiredResource[] {
+    return (order.data.requiredResourceIds ?? [])
+      .filter(id => id !== workCenterId)
+      .map(id => ({
+        workCenter: this.workCenters.get(id)!,
+        timeline: workCenterTimelines.get(id)!,
+      }));
+  }
+
+  /**
+   * Lists the secondary resources an order occupies next to its work center.
+   */
+  private reportRequiredResources(
+    order: WorkOrder,
+    workCenterId: string,
+  ): Pick<ReflowResult, 'requiredResourceIds'> {
+    const requiredResourceIds = (order.data.requiredResourceIds ?? []).filter(id => id !== workCenterId);
+    return requiredResourceIds.length > 0 ? { requiredResourceIds } : {};
+  }
+
+  /**
+   * Reports which resource bound an order that needs secondary resources.
+   */
+  private reportBindingResource(
+    order: WorkOrder,
+    workCenterId: string,
+    trace: ScheduleConstraint[],
+  ): Pick<ReflowResult, 'bindingResourceId'> {
+    if (!order.data.requiredResourceIds?.length) {
+      return {};
+    }
+    const bindingResourceId = findBindingResource(trace, workCenterId);
+    return bindingResourceId ? { bindingResourceId } : {};
+  }
+
+  /**
+   * Orders two candidate slots by the routing objective.
+   * 
+   * @returns Negative if `a` is preferred, positive if `b` is, 0 if equal
+   */
+  private compareSlots(a: TimelineSlot, b: TimelineSlot): number {
+    const byStart = a.start.toMillis() - b.start.toMillis();
+    const byEnd = a.end.toMillis() - b.end.toMillis();
+
+    return this.config.routingObjective === 'earliest-start'
+      ? byStart || byEnd
+      : byEnd || byStart;
+  }
+
+  /**
+   * Finds higher-priority orders already placed on the same work center
+   * that occupy the time between when this order was ready and when it
+   * could actually start.
+   * 
+   * @param order - Work order being scheduled
+   * @param readyTime - When the order was ready to start
+   * @param actualStart - Time the order (or its setup) started
+   * @param timeline - Timeline of the order's work center
+   * @returns IDs of the displacing orders, in time order
+   */
+  private findDisplacingOrders(
+    order: WorkOrder,
+    readyTime: DateTime,
+    actualStart: DateTime,
+    timeline: WorkCenterTimeline,
+  ): string[] {
+    if (actualStart <= readyTime) {
+      return [];
+    }
+
+    const priority = order.data.priority ?? 0;
+    return timeline
+      .findOverlapping(readyTime, actualStart)
+      .filter(b => !b.isFixed && b.priority > priority)
+      .map(b => b.workOrderId);
+  }
+
+  /**
+   * Fills `displacedOrders` on each displacing order from the
+   * `displacedBy` lists of the orders it pushed back.
+   * 
+   * @param results - All scheduling results
+   */
+  private linkDisplacedOrders(results: ReflowResult[]): void {
+    const resultsById = new Map(results.map(r => [r.workOrderId, r]));
+
+    for (const result of results) {
+      for (const displacingId of result.displacedBy ?? []) {
+        const displacing = resultsById.get(displacingId)!;
+        displacing.displacedOrders = [...(displacing.displacedOrders ?? []), result.workOrderId];
+      }
+    }
+  }
+
+  /**
+   * Compares an order's scheduled end against its due date.
+   * 
+   * @param order - Work order being scheduled
+   * @param newEnd - Scheduled end time
+   * @returns Due date fields for the reflow result
+   */
+  private assessDueDate(
+    order: WorkOrder,
+    newEnd: DateTime,
+  ): Pick<ReflowResult, 'dueDate' | 'latenessMinutes' | 'isLate'> {
+    if (!order.data.dueDate) {
+      return { isLate: false };
+    }
+
+    const dueDate = DateTime.fromISO(order.data.dueDate, { zone: this.config.timezone });
+    const latenessMinutes = Math.round(newEnd.diff(dueDate, 'minutes').minutes);
+
+    return {
+      dueDate: order.data.dueDate,
+      latenessMinutes,
+      isLate: latenessMinutes > 0,
+    };
+  }
+
+  /**
+   * Emits a warning when the reflow pushed an order past its due date.
+   * Orders that were already late in the original plan are not reported.
+   * 
+   * @param order - Work order that was scheduled
+   * @param result - Scheduling result for the order
+   * @param warnings - Array to accumulate warning messages
+   * @param dueDateWarnings - Array to accumulate structured due date warnings
+   */
+  private checkDueDate(
+    order: WorkOrder,
+    result: ReflowResult,
+    warnings: ScheduleWarning[],
+    dueDateWarnings: DueDateWarning[],
+  ): void {
+    if (!result.isLate || !order.data.dueDate) {
+      return;
+    }
+
+    const dueDate = DateTime.fromISO(order.data.dueDate, { zone: this.config.timezone });
+    const originalEnd = DateTime.fromISO(order.data.endDate, { zone: this.config.timezone });
+    if (originalEnd > dueDate) {
+      return;
+    }
+
+    warnings.push(scheduleWarning(
+      'due-date-missed',
+      `Work order "${order.data.workOrderNumber}" now finishes ${result.latenessMinutes} minutes after its due date`,
+      { workOrderId: order.docId, workCenterId: result.workCenterId, latenessMinutes: result.latenessMinutes },
+    ));
+    dueDateWarnings.push({
+      workOrderId: order.docId,
+      workOrderNumber: order.data.workOrderNumber,
+      dueDate: order.data.dueDate,
+      originalEndDate: order.data.endDate,
+      newEndDate: result.newEndDate,
+      latenessMinutes: result.latenessMinutes!,
+    });
+  }
+
+  /**
+   * Calculates when a work order is ready to run, ignoring machine capacity.
+   * 
+   * @param order - Work order to calculate readiness for
+   * @param workOrderTimes - Start and end times of scheduled orders
+   * @returns The latest of original start (unless earlier start is allowed)
+   *          and start-constraining dependencies, or the current time if
+   *          there are no constraints, with the constraint that decided it
+   */
+  private calculateReadyTime(
+    order: WorkOrder,
+    workOrderTimes: WorkOrderTimes,
+  ): TracedTime {
+    const constraints: TracedTime[] = [];
 
     // Constraint 1: Original start time (if not allowing earlier start)
     if (!this.config.allowEarlierStart) {
-      constraints.push(
-        DateTime.fromISO(order.data.startDate, { zone: this.config.timezone })
-      );
+      constraints.push({
+        time: DateTime.fromISO(order.data.startDate, { zone: this.config.timezone }),
+        constraint: { type: 'original-start' },
+      });
     }
 
-    // Constraint 2: Work center availability
-    // The order can't start until the machine is free from previous orders
-    const machineAvailability = workCenterAvailability.get(order.data.workCenterId);
-    if (machineAvailability) {
-      constraints.push(machineAvailability);
+    // Constraint 2: Dependency times
+    // The order can't start until predecessors have finished (FS)
+    // or started (SS), plus any lag
+    for (const link of getDependencyLinks(order)) {
+      const depTimes = workOrderTimes.get(link.workOrderId);
+      if (depTimes && (link.type === 'FS' || link.type === 'SS')) {
+        const anchor = link.type === 'FS' ? depTimes.end : depTimes.start;
+        constraints.push({
+          time: this.applyLag(anchor, link, order),
+          constraint: { type: 'dependency', workOrderId: link.workOrderId, dependencyType: link.type },
+        });
+      }
     }
 
-    // Constraint 3: Dependency end times
-    // The order can't start until all dependencies have completed
-    for (const depId of order.data.dependsOnWorkOrderIds) {
-      const depEndTime = workOrderEndTimes.get(depId);
-      if (depEndTime) {
-        constraints.push(depEndTime);
+    return latestOf(constraints) ?? {
+      time: this.currentTime,
+      constraint: { type: 'current-time' },
+    };
+  }
+
+  /**
+   * Calculates the earliest time a work order may finish, from its
+   * finish-to-finish and start-to-finish dependencies.
+   * 
+   * @param order - Work order to calculate the floor for
+   * @param workOrderTimes - Start and end times of scheduled orders
+   * @returns The latest predecessor end (FF) or start (SF) plus lag,
+   *          or null if there are no such dependencies
+   */
+  private calculateFinishFloor(
+    order: WorkOrder,
+    workOrderTimes: WorkOrderTimes,
+  ): TracedTime | null {
+    const constraints: TracedTime[] = [];
+
+    for (const link of getDependencyLinks(order)) {
+      const depTimes = workOrderTimes.get(link.workOrderId);
+      if (depTimes && (link.type === 'FF' || link.type === 'SF')) {
+        const anchor = link.type === 'FF' ? depTimes.end : depTimes.start;
+        constraints.push({
+          time: this.applyLag(anchor, link, order),
+          constraint: { type: 'dependency', workOrderId: link.workOrderId, dependencyType: link.type },
+        });
       }
     }
 
-    // Return the maximum (latest) of all constraints
-    // If no constraints, use current time
-    const max = maxDateTime(...constraints);
-    return max ?? DateTime.now().setZone(this.config.timezone);
+    return latestOf(constraints);
+  }
+
+  /**
+   * Shifts a predecessor time by a dependency's lag. Working-time lag is
+   * counted on the successor's assigned work center; negative lag is lead.
+   * Going backward, the lag is subtracted from a successor time instead.
+   * 
+   * @param time - Predecessor start or end (successor start or end if backward)
+   * @param link - Dependency link with lag settings
+   * @param order - Successor work order
+   * @param sign - 1 to add the lag, -1 to subtract it
+   * @returns The constrained time on the other side of the link
+   */
+  private applyLag(
+    time: DateTime,
+    link: Required<DependencyLink>,
+    order: WorkOrder,
+    sign: 1 | -1 = 1,
+  ): DateTime {
+    const lagMinutes = link.lagMinutes * sign;
+
+    if (lagMinutes === 0) {
+      return time;
+    }
+
+    if (link.lagType === 'calendar') {
+      return time.plus({ minutes: lagMinutes });
+    }
+
+    const workCenter = this.workCenters.get(order.data.workCenterId)!;
+    return lagMinutes > 0
+      ? calculateEndDateWithShifts(time, lagMinutes, workCenter, this.config.timezone)
+      : calculateStartDateWithShifts(time, -lagMinutes, workCenter, this.config.timezone);
   }
 
   /**
-   * Validates that all work orders reference existing work centers.
+   * Validates that all work orders reference existing work centers,
+   * including any alternate work centers and required resources.
    * 
    * @param workOrders - Orders to validate
    * @throws MissingWorkCenterError if any work center is not found
    */
   private validateWorkCenters(workOrders: WorkOrder[]): void {
     for (const order of workOrders) {
-      if (!this.workCenters.has(order.data.workCenterId)) {
-        throw new MissingWorkCenterError(order.docId, order.data.workCenterId);
+      const workCenterIds = [
+        ...this.getRoutingCandidates(order).map(c => c.workCenterId),
+        ...(order.data.requiredResourceIds ?? []),
+      ];
+      for (const workCenterId of workCenterIds) {
+        if (!this.workCenters.has(workCenterId)) {
+          throw new MissingWorkCenterError(order.docId, workCenterId);
+        }
       }
     }
   }
@@ -335,6 +1589,71 @@ export class SchedulerService {
   }
 }
 
+/**
+ * Severity of each warning code.
+ */
+const WARNING_SEVERITIES: Record<WarningCode, WarningSeverity> = {
+  'order-delayed': 'info',
+  'order-reassigned': 'info',
+  'order-displaced': 'info',
+  'long-shift-gap': 'info',
+  'due-date-missed': 'warning',
+  'fixed-dependency-violated': 'warning',
+  'fixed-order-overlap': 'error',
+  'deadline-infeasible': 'error',
+  'no-workable-slot': 'error',
+};
+
+/**
+ * Builds a structured warning with the severity of its code.
+ */
+function scheduleWarning(
+  code: WarningCode,
+  message: string,
+  details: Omit<ScheduleWarning, 'code' | 'severity' | 'message'> = {},
+): ScheduleWarning {
+  return { code, severity: WARNING_SEVERITIES[code], message, ...details };
+}
+
+/**
+ * Returns the latest of several traced times; the first one wins ties.
+ */
+function latestOf(times: (TracedTime | null)[]): TracedTime | null {
+  return times.reduce<TracedTime | null>(
+    (latest, t) => (t && (!latest || t.time > latest.time) ? t : latest),
+    null,
+  );
+}
+
+/**
+ * Returns the earliest of several traced times; the first one wins ties.
+ */
+function earliestOf(times: (TracedTime | null)[]): TracedTime | null {
+  return times.reduce<TracedTime | null>(
+    (earliest, t) => (t && (!earliest || t.time < earliest.time) ? t : earliest),
+    null,
+  );
+}
+
+/**
+ * Turns a traced time into a trace entry.
+ */
+function toConstraint({ time, constraint }: TracedTime): ScheduleConstraint {
+  return traceConstraint({ ...constraint, time: time.toISO()! });
+}
+
+/**
+ * Earliest original start of a plan, which a reflow treats as now unless
+ * `currentTime` is configured.
+ * 
+ * @param workOrders - Work orders of the plan
+ * @returns ISO timestamp of the earliest start, or undefined for an empty plan
+ */
+export function getPlanStart(workOrders: WorkOrder[]): string | undefined {
+  const starts = workOrders.map(o => DateTime.fromISO(o.data.startDate)).filter(d => d.isValid);
+  return minDateTime(...starts)?.toUTC().toISO() ?? undefined;
+}
+
 /**
  * Convenience function to run a one-off reflow operation.
  * 
@@ -351,4 +1670,3 @@ export function reflowSchedule(
   const scheduler = new SchedulerService(workCenters, config);
   return scheduler.reflow(workOrders);
 }
-
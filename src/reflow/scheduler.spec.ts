@@ -11,9 +11,40 @@
 
 import { DateTime } from 'luxon';
 import { SchedulerService, reflowSchedule } from './scheduler.service';
-import { buildDependencyGraph, topologicalSort, validateDependencies } from './dag.service';
-import { calculateEndDateWithShifts, findEarliestValidStart } from '../utils/date-utils';
-import { WorkOrder, WorkCenter, CircularDependencyError } from './types';
+import {
+  buildDependencyGraph,
+  findCyclicComponents,
+  topologicalSort,
+  validateDependencies,
+} from './dag.service';
+import { expandRoutings } from './routing.service';
+import {
+  calculateEndDateWithShifts,
+  calculateStartDateWithShifts,
+  calculateWorkingMinutesBetween,
+  findEarliestValidStart,
+  isWithinWorkingHours,
+} from '../utils/date-utils';
+import {
+  WorkOrder,
+  WorkCenter,
+  Calendar,
+  DependencyLink,
+  DispatchComparator,
+  CircularDependencyError,
+  DispatchRuleConflictError,
+  InvalidPlanEditError,
+  MissingCalendarError,
+  MissingWorkCenterError,
+  NoWorkableSlotError,
+  UnknownDispatchRuleError,
+} from './types';
+import { analyzeCriticalPath } from './critical-path.service';
+import { validatePlan } from './validation.service';
+import { reflowIncremental } from './incremental.service';
+import { compareScenarios } from './scenario.service';
+import { diffSchedules } from './diff.service';
+import { promiseOrders } from './promise.service';
 
 /**
  * Helper factory to create work orders with sensible defaults.
@@ -29,11 +60,20 @@ function createWorkOrder(overrides: Partial<WorkOrder['data']> & {
     data: {
       workOrderNumber: overrides.workOrderNumber ?? `WO-${docId}`,
       workCenterId: overrides.workCenterId ?? 'wc-1',
+      alternateWorkCenters: overrides.alternateWorkCenters,
+      requiredResourceIds: overrides.requiredResourceIds,
       startDate: overrides.startDate ?? '2024-01-15T09:00:00.000Z',
       endDate: overrides.endDate ?? '2024-01-15T10:00:00.000Z',
       durationMinutes: overrides.durationMinutes ?? 60,
       isMaintenance: overrides.isMaintenance ?? false,
+      pinned: overrides.pinned,
+      status: overrides.status,
+      completedMinutes: overrides.completedMinutes,
       dependsOnWorkOrderIds: overrides.dependsOnWorkOrderIds ?? [],
+      dueDate: overrides.dueDate,
+      priority: overrides.priority,
+      productFamily: overrides.productFamily,
+      operations: overrides.operations,
     },
   };
 }
@@ -59,6 +99,13 @@ function createWorkCenter(overrides: Partial<WorkCenter['data']> & {
         { dayOfWeek: 5, startHour: 9, endHour: 17 }, // Friday
       ],
       maintenanceWindows: overrides.maintenanceWindows ?? [],
+      holidays: overrides.holidays,
+      shiftOverrides: overrides.shiftOverrides,
+      overtimeWindows: overrides.overtimeWindows,
+      capacity: overrides.capacity,
+      setupMatrix: overrides.setupMatrix,
+      defaultSetupMinutes: overrides.defaultSetupMinutes,
+      calendarIds: overrides.calendarIds,
     },
   };
 }
@@ -449,6 +496,672 @@ describe('SchedulerService', () => {
       expect(result1.newStartDate).toBe('2024-01-15T09:00:00.000Z');
       expect(result2.newStartDate).toBe('2024-01-15T09:00:00.000Z');
     });
+
+    it('should fill idle gaps left before later orders', () => {
+      const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+      // wo-y is placed first (ID tie-break) but waits for wo-x until noon,
+      // leaving 9am-12pm idle on wc-1
+      const orders = [
+        createWorkOrder({ docId: 'wo-x', workCenterId: 'wc-2', durationMinutes: 180 }),
+        createWorkOrder({ docId: 'wo-y', workCenterId: 'wc-1', dependsOnWorkOrderIds: ['wo-x'] }),
+        createWorkOrder({ docId: 'wo-z', workCenterId: 'wc-1', durationMinutes: 120 }),
+      ];
+
+      const result = new SchedulerService(workCenters).reflow(orders);
+
+      const resultY = result.results.find(r => r.workOrderId === 'wo-y')!;
+      const resultZ = result.results.find(r => r.workOrderId === 'wo-z')!;
+      expect(resultY.newStartDate).toBe('2024-01-15T12:00:00.000Z');
+      expect(resultZ.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      expect(resultZ.newEndDate).toBe('2024-01-15T11:00:00.000Z');
+    });
+
+    it('should place orders around future maintenance orders', () => {
+      const workCenter = createWorkCenter({ docId: 'wc-1' });
+
+      const maintenance = createWorkOrder({
+        docId: 'wo-maint',
+        startDate: '2024-01-15T15:00:00.000Z',
+        endDate: '2024-01-15T16:00:00.000Z',
+        durationMinutes: 60,
+        isMaintenance: true,
+      });
+      const early = createWorkOrder({ docId: 'wo-early', durationMinutes: 120 });
+      const tooLong = createWorkOrder({
+        docId: 'wo-long',
+        startDate: '2024-01-15T14:00:00.000Z',
+        durationMinutes: 120,
+      });
+
+      // Dispatching the short maintenance first must not push wo-early past it
+      const scheduler = new SchedulerService([workCenter], { dispatchRule: 'shortest-processing-time' });
+      const result = scheduler.reflow([early, tooLong, maintenance]);
+
+      const resultEarly = result.results.find(r => r.workOrderId === 'wo-early')!;
+      const resultLong = result.results.find(r => r.workOrderId === 'wo-long')!;
+      expect(resultEarly.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      // 14:00-16:00 would overlap the maintenance, so it goes after it
+      expect(resultLong.newStartDate).toBe('2024-01-15T16:00:00.000Z');
+      expect(resultLong.newEndDate).toBe('2024-01-16T10:00:00.000Z');
+    });
+  });
+
+  describe('Parallel Capacity', () => {
+    const sameStart = (docId: string) => createWorkOrder({ docId, durationMinutes: 60 });
+
+    it('should run up to capacity orders at once and report lanes', () => {
+      const workCenter = createWorkCenter({ docId: 'wc-1', capacity: 2 });
+      const result = new SchedulerService([workCenter]).reflow([
+        sameStart('wo-1'),
+        sameStart('wo-2'),
+        sameStart('wo-3'),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-1')).toMatchObject({ newStartDate: '2024-01-15T09:00:00.000Z', lane: 1 });
+      expect(byId.get('wo-2')).toMatchObject({ newStartDate: '2024-01-15T09:00:00.000Z', lane: 2 });
+      expect(byId.get('wo-3')).toMatchObject({ newStartDate: '2024-01-15T10:00:00.000Z', lane: 1 });
+    });
+
+    it('should default to a single unit', () => {
+      const result = new SchedulerService([createWorkCenter({ docId: 'wc-1' })]).reflow([
+        sameStart('wo-1'),
+        sameStart('wo-2'),
+      ]);
+
+      expect(result.results.map(r => r.lane)).toEqual([1, 1]);
+      expect(result.results[1].newStartDate).toBe('2024-01-15T10:00:00.000Z');
+    });
+
+    it('should block every lane during maintenance orders', () => {
+      const workCenter = createWorkCenter({ docId: 'wc-1', capacity: 3 });
+      const maintenance = createWorkOrder({
+        docId: 'wo-maint',
+        startDate: '2024-01-15T09:00:00.000Z',
+        endDate: '2024-01-15T10:00:00.000Z',
+        isMaintenance: true,
+      });
+
+      const result = new SchedulerService([workCenter]).reflow([maintenance, sameStart('wo-1')]);
+
+      const order = result.results.find(r => r.workOrderId === 'wo-1')!;
+      expect(order.newStartDate).toBe('2024-01-15T10:00:00.000Z');
+      expect(result.results.find(r => r.isFixed)!.lane).toBeUndefined();
+    });
+  });
+
+  describe('Setup Times', () => {
+    const workCenter = createWorkCenter({
+      docId: 'wc-1',
+      setupMatrix: [{ fromFamily: 'red', toFamily: 'white', setupMinutes: 30 }],
+      defaultSetupMinutes: 60,
+    });
+
+    it('should insert setup time between different product families', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-1', productFamily: 'red' }),
+        createWorkOrder({ docId: 'wo-2', productFamily: 'white' }),
+        createWorkOrder({ docId: 'wo-3', productFamily: 'white' }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-1')).toMatchObject({ setupMinutes: 0, newStartDate: '2024-01-15T09:00:00.000Z' });
+      expect(byId.get('wo-1')!.setupStartDate).toBeUndefined();
+      expect(byId.get('wo-2')).toMatchObject({
+        setupMinutes: 30,
+        setupStartDate: '2024-01-15T10:00:00.000Z',
+        newStartDate: '2024-01-15T10:30:00.000Z',
+        newEndDate: '2024-01-15T11:30:00.000Z',
+      });
+      // Same family - no changeover
+      expect(byId.get('wo-3')).toMatchObject({ setupMinutes: 0, newStartDate: '2024-01-15T11:30:00.000Z' });
+      expect(result.metadata.totalSetupMinutes).toBe(30);
+    });
+
+    it('should fall back to the default setup time', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-1', productFamily: 'white' }),
+        createWorkOrder({ docId: 'wo-2', productFamily: 'red' }),
+      ]);
+
+      expect(result.results[1]).toMatchObject({ setupMinutes: 60, newStartDate: '2024-01-15T11:00:00.000Z' });
+    });
+
+    it('should spread setup across shift boundaries', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-1', productFamily: 'red', durationMinutes: 465 }),
+        createWorkOrder({ docId: 'wo-2', productFamily: 'white' }),
+      ]);
+
+      // 15 minutes of setup Monday 16:45-17:00, 15 more Tuesday from 9:00
+      expect(result.results[1]).toMatchObject({
+        setupStartDate: '2024-01-15T16:45:00.000Z',
+        newStartDate: '2024-01-16T09:15:00.000Z',
+      });
+    });
+
+    it.each([
+      ['white', '2024-01-15T09:00:00.000Z'], // Fits the idle gap before wo-y
+      ['red', '2024-01-15T14:00:00.000Z'], // wo-y has no setup booked for red -> white
+    ])('should only fill a gap if the next order\'s setup still suffices (%s)', (family, expectedStart) => {
+      const workCenters = [workCenter, createWorkCenter({ docId: 'wc-2' })];
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-x', workCenterId: 'wc-2', durationMinutes: 180 }),
+        createWorkOrder({ docId: 'wo-y', productFamily: 'white', dependsOnWorkOrderIds: ['wo-x'] }),
+        createWorkOrder({ docId: 'wo-z', productFamily: family }),
+      ]);
+
+      const resultZ = result.results.find(r => r.workOrderId === 'wo-z')!;
+      expect(resultZ.newStartDate).toBe(expectedStart);
+    });
+  });
+
+  describe('Dependency Types and Lag', () => {
+    const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+    function successorStart(link: DependencyLink, predecessorMinutes = 120, durationMinutes = 60) {
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-a', durationMinutes: predecessorMinutes }),
+        createWorkOrder({ docId: 'wo-b', workCenterId: 'wc-2', durationMinutes, dependsOnWorkOrderIds: [link] }),
+      ]);
+      return result.results.find(r => r.workOrderId === 'wo-b')!.newStartDate;
+    }
+
+    // wo-a runs 9-11am on wc-1
+    it.each<[string, DependencyLink, string]>([
+      ['FS', { workOrderId: 'wo-a' }, '2024-01-15T11:00:00.000Z'],
+      ['FS with lag', { workOrderId: 'wo-a', lagMinutes: 45 }, '2024-01-15T11:45:00.000Z'],
+      ['FS with lead', { workOrderId: 'wo-a', lagMinutes: -30 }, '2024-01-15T10:30:00.000Z'],
+      ['SS with lag', { workOrderId: 'wo-a', type: 'SS', lagMinutes: 30 }, '2024-01-15T09:30:00.000Z'],
+      ['FF', { workOrderId: 'wo-a', type: 'FF' }, '2024-01-15T10:00:00.000Z'],
+      ['SF with lag', { workOrderId: 'wo-a', type: 'SF', lagMinutes: 90 }, '2024-01-15T09:30:00.000Z'],
+    ])('should honor %s dependencies', (_, link, expectedStart) => {
+      expect(successorStart(link)).toBe(expectedStart);
+    });
+
+    it('should count working-time lag only during shifts', () => {
+      // wo-a ends 4:30pm; 60 working minutes = 30 Monday + 30 Tuesday
+      const working = successorStart({ workOrderId: 'wo-a', lagMinutes: 60, lagType: 'working' }, 450);
+      // 60 calendar minutes = 5:30pm Monday, snapped to the next shift
+      const calendar = successorStart({ workOrderId: 'wo-a', lagMinutes: 60 }, 450);
+
+      expect(working).toBe('2024-01-16T09:30:00.000Z');
+      expect(calendar).toBe('2024-01-16T09:00:00.000Z');
+    });
+
+    it('should accept string and typed dependencies together', () => {
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({ docId: 'wo-b', workCenterId: 'wc-2', durationMinutes: 30 }),
+        createWorkOrder({
+          docId: 'wo-c',
+          workCenterId: 'wc-2',
+          dependsOnWorkOrderIds: ['wo-a', { workOrderId: 'wo-b', type: 'SS' }],
+        }),
+      ]);
+
+      const resultC = result.results.find(r => r.workOrderId === 'wo-c')!;
+      expect(resultC.newStartDate).toBe('2024-01-15T10:00:00.000Z');
+    });
+
+    it('should accept several links to the same predecessor', () => {
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-a', durationMinutes: 120 }),
+        createWorkOrder({
+          docId: 'wo-b',
+          workCenterId: 'wc-2',
+          dependsOnWorkOrderIds: [
+            { workOrderId: 'wo-a', type: 'SS', lagMinutes: 30 },
+            { workOrderId: 'wo-a', type: 'FF', lagMinutes: 30 },
+          ],
+        }),
+      ]);
+
+      // SS allows 9:30, but FF keeps wo-b from ending before 11:30
+      const resultB = result.results.find(r => r.workOrderId === 'wo-b')!;
+      expect(resultB.newStartDate).toBe('2024-01-15T10:30:00.000Z');
+    });
+  });
+
+  describe('Alternate Work Centers', () => {
+    const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+    // wo-1 keeps wc-1 busy 9-10am; wo-2 wants 9am too but may move to wc-2
+    function orders(durationMultiplier?: number): WorkOrder[] {
+      return [
+        createWorkOrder({ docId: 'wo-1' }),
+        createWorkOrder({
+          docId: 'wo-2',
+          alternateWorkCenters: [{ workCenterId: 'wc-2', durationMultiplier }],
+        }),
+      ];
+    }
+
+    it('should route to an alternate work center that finishes earlier', () => {
+      const result = new SchedulerService(workCenters).reflow(orders());
+
+      const order = result.results.find(r => r.workOrderId === 'wo-2')!;
+      expect(order).toMatchObject({
+        workCenterId: 'wc-2',
+        wasReassigned: true,
+        newStartDate: '2024-01-15T09:00:00.000Z',
+      });
+      expect(result.metadata.reassignedCount).toBe(1);
+    });
+
+    it('should apply duration multipliers when comparing finishes', () => {
+      // 180 minutes on wc-2 (ends 12pm) loses to waiting for wc-1 (ends 11am)
+      const result = new SchedulerService(workCenters).reflow(orders(3));
+
+      const order = result.results.find(r => r.workOrderId === 'wo-2')!;
+      expect(order).toMatchObject({
+        workCenterId: 'wc-1',
+        wasReassigned: false,
+        newEndDate: '2024-01-15T11:00:00.000Z',
+      });
+    });
+
+    it('should support the earliest-start objective', () => {
+      const scheduler = new SchedulerService(workCenters, { routingObjective: 'earliest-start' });
+      const result = scheduler.reflow(orders(3));
+
+      const order = result.results.find(r => r.workOrderId === 'wo-2')!;
+      expect(order).toMatchObject({
+        workCenterId: 'wc-2',
+        newStartDate: '2024-01-15T09:00:00.000Z',
+        newEndDate: '2024-01-15T12:00:00.000Z',
+      });
+    });
+
+    it('should reject unknown alternate work centers', () => {
+      const order = createWorkOrder({
+        docId: 'wo-1',
+        alternateWorkCenters: [{ workCenterId: 'wc-missing' }],
+      });
+
+      expect(() => new SchedulerService(workCenters).reflow([order]))
+        .toThrow(MissingWorkCenterError);
+    });
+  });
+
+  describe('Pinned Orders and Frozen Horizon', () => {
+    const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+    it('should keep pinned orders in place and reserve their capacity', () => {
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-1' }),
+        createWorkOrder({
+          docId: 'wo-2',
+          pinned: true,
+          startDate: '2024-01-15T09:30:00.000Z',
+          endDate: '2024-01-15T10:30:00.000Z',
+        }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-2')).toMatchObject({
+        isFixed: true,
+        fixedReason: 'pinned',
+        wasRescheduled: false,
+        lane: 1,
+        newStartDate: '2024-01-15T09:30:00.000Z',
+      });
+      expect(byId.get('wo-1')!.newStartDate).toBe('2024-01-15T10:30:00.000Z');
+      expect(result.metadata.fixedCount).toBe(1);
+    });
+
+    it('should not move orders starting inside the frozen horizon', () => {
+      const scheduler = new SchedulerService(workCenters, {
+        currentTime: '2024-01-15T08:00:00.000Z',
+        frozenHorizonMinutes: 120,
+      });
+      const result = scheduler.reflow([
+        createWorkOrder({ docId: 'wo-a', startDate: '2024-01-15T09:30:00.000Z', endDate: '2024-01-15T10:30:00.000Z' }),
+        createWorkOrder({ docId: 'wo-b', startDate: '2024-01-15T10:00:00.000Z', endDate: '2024-01-15T11:00:00.000Z' }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-a')).toMatchObject({ isFixed: true, fixedReason: 'frozen' });
+      // Starts exactly at the end of the horizon, so it may move
+      expect(byId.get('wo-b')).toMatchObject({ isFixed: false, newStartDate: '2024-01-15T10:30:00.000Z' });
+    });
+
+    it('should count the frozen horizon from the plan start without a currentTime', () => {
+      const result = new SchedulerService(workCenters, { frozenHorizonMinutes: 60 }).reflow([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({
+          docId: 'wo-b',
+          workCenterId: 'wc-2',
+          startDate: '2024-01-15T09:30:00.000Z',
+          endDate: '2024-01-15T10:30:00.000Z',
+        }),
+        createWorkOrder({ docId: 'wo-c', startDate: '2024-01-15T10:00:00.000Z', endDate: '2024-01-15T11:00:00.000Z' }),
+      ]);
+
+      // The plan starts at 9:00, so only orders starting before 10:00 are frozen
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-a')).toMatchObject({ isFixed: true, fixedReason: 'frozen' });
+      expect(byId.get('wo-b')).toMatchObject({ isFixed: true, fixedReason: 'frozen' });
+      expect(byId.get('wo-c')!.isFixed).toBe(false);
+    });
+
+    it('should warn instead of shifting a pinned order that breaks a dependency', () => {
+      const result = new SchedulerService(workCenters).reflow([
+        createWorkOrder({ docId: 'wo-a', durationMinutes: 120 }),
+        createWorkOrder({
+          docId: 'wo-b',
+          workCenterId: 'wc-2',
+          pinned: true,
+          startDate: '2024-01-15T10:00:00.000Z',
+          endDate: '2024-01-15T11:00:00.000Z',
+          dependsOnWorkOrderIds: ['wo-a'],
+        }),
+      ]);
+
+      const resultB = result.results.find(r => r.workOrderId === 'wo-b')!;
+      expect(resultB.newStartDate).toBe('2024-01-15T10:00:00.000Z');
+      expect(result.warnings).toContainEqual(
+        expect.stringContaining('violates its FS dependency on "WO-wo-a" by 60 minutes'),
+      );
+    });
+  });
+
+  describe('Work Order Status', () => {
+    const workCenter = createWorkCenter({ docId: 'wc-1' });
+
+    it('should free capacity of completed orders but honor their actual end', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({
+          docId: 'wo-done',
+          status: 'completed',
+          endDate: '2024-01-15T10:30:00.000Z',
+        }),
+        createWorkOrder({ docId: 'wo-x' }),
+        createWorkOrder({ docId: 'wo-y', dependsOnWorkOrderIds: ['wo-done'] }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-done')).toMatchObject({ isFixed: true, fixedReason: 'completed' });
+      expect(byId.get('wo-x')!.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      expect(byId.get('wo-y')!.newStartDate).toBe('2024-01-15T10:30:00.000Z');
+    });
+
+    it('should keep the actual start of in-progress orders and reschedule the rest', () => {
+      const scheduler = new SchedulerService([workCenter], { currentTime: '2024-01-15T16:00:00.000Z' });
+      const result = scheduler.reflow([
+        createWorkOrder({
+          docId: 'wo-ip',
+          status: 'in-progress',
+          startDate: '2024-01-15T10:00:00.000Z',
+          endDate: '2024-01-15T14:00:00.000Z',
+          durationMinutes: 240,
+          completedMinutes: 90,
+        }),
+        createWorkOrder({ docId: 'wo-next', startDate: '2024-01-16T09:00:00.000Z' }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      // 150 minutes left from 4pm: 60 Monday, 90 Tuesday
+      expect(byId.get('wo-ip')).toMatchObject({
+        newStartDate: '2024-01-15T10:00:00.000Z',
+        newEndDate: '2024-01-16T10:30:00.000Z',
+        remainingMinutes: 150,
+        wasRescheduled: true,
+      });
+      expect(byId.get('wo-next')!.newStartDate).toBe('2024-01-16T10:30:00.000Z');
+    });
+  });
+
+  describe('Constraint Trace', () => {
+    const workCenter = createWorkCenter({ docId: 'wc-1' });
+
+    it('should explain an unconstrained order by its original start', () => {
+      const result = new SchedulerService([workCenter]).reflow([createWorkOrder({ docId: 'wo-1' })]);
+
+      expect(result.results[0].constraintTrace).toHaveLength(1);
+      expect(result.results[0].bindingConstraint).toMatchObject({
+        type: 'original-start',
+        time: '2024-01-15T09:00:00.000Z',
+      });
+    });
+
+    it('should name the predecessor that holds an order back', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-a'] }),
+      ]);
+
+      const b = result.results.find(r => r.workOrderId === 'wo-b')!;
+      expect(b.bindingConstraint).toMatchObject({
+        type: 'dependency',
+        workOrderId: 'wo-a',
+        dependencyType: 'FS',
+        time: '2024-01-15T10:00:00.000Z',
+      });
+    });
+
+    it('should name the order occupying the work center', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({ docId: 'wo-b' }),
+      ]);
+
+      const b = result.results.find(r => r.workOrderId === 'wo-b')!;
+      expect(b.constraintTrace!.map(c => c.type)).toEqual(['original-start', 'machine-busy']);
+      expect(b.bindingConstraint).toMatchObject({ workOrderId: 'wo-a', time: '2024-01-15T10:00:00.000Z' });
+      expect(b.bindingConstraint!.message).toContain('"wo-a"');
+    });
+
+    it('should distinguish shift gaps from maintenance windows', () => {
+      const window = {
+        startDate: '2024-01-16T09:00:00.000Z',
+        endDate: '2024-01-16T11:00:00.000Z',
+        reason: 'Calibration',
+      };
+      const scheduler = new SchedulerService([createWorkCenter({ docId: 'wc-1', maintenanceWindows: [window] })]);
+      const result = scheduler.reflow([
+        createWorkOrder({ docId: 'wo-early', startDate: '2024-01-15T07:00:00.000Z' }),
+        createWorkOrder({ docId: 'wo-maint', startDate: '2024-01-16T09:00:00.000Z' }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-early')!.bindingConstraint).toMatchObject({
+        type: 'shift',
+        time: '2024-01-15T09:00:00.000Z',
+      });
+      expect(byId.get('wo-maint')!.bindingConstraint).toMatchObject({
+        type: 'maintenance',
+        time: '2024-01-16T11:00:00.000Z',
+        maintenanceWindow: window,
+      });
+      expect(byId.get('wo-maint')!.bindingConstraint!.message).toContain('Calibration');
+    });
+  });
+
+  describe('Structured Warnings', () => {
+    const workCenter = createWorkCenter({ docId: 'wc-1' });
+
+    it('should pair every warning message with a coded warning', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({ docId: 'wo-b', dueDate: '2024-01-15T10:30:00.000Z' }),
+      ]);
+
+      expect(result.warnings).toEqual(result.warningDetails.map(w => w.message));
+      expect(result.warningDetails).toContainEqual(expect.objectContaining({
+        code: 'order-delayed',
+        severity: 'info',
+        workOrderId: 'wo-b',
+        workCenterId: 'wc-1',
+        delayMinutes: 60,
+      }));
+      expect(result.warningDetails).toContainEqual(expect.objectContaining({
+        code: 'due-date-missed',
+        severity: 'warning',
+        workOrderId: 'wo-b',
+        latenessMinutes: 30,
+      }));
+    });
+
+    it('should warn about long waits for the next shift', () => {
+      const result = new SchedulerService([workCenter]).reflow([
+        // Monday evening: overnight wait only
+        createWorkOrder({ docId: 'wo-mon', startDate: '2024-01-15T17:00:00.000Z' }),
+        // Friday evening: waits the whole weekend
+        createWorkOrder({ docId: 'wo-fri', startDate: '2024-01-19T17:00:00.000Z' }),
+      ]);
+
+      const gaps = result.warningDetails.filter(w => w.code === 'long-shift-gap');
+      expect(gaps).toHaveLength(1);
+      expect(gaps[0]).toMatchObject({ workOrderId: 'wo-fri', waitMinutes: 3840 });
+    });
+
+    it('should keep orders in place when their work center has no working time', () => {
+      const idle = createWorkCenter({ docId: 'wc-idle', shifts: [] });
+      const result = new SchedulerService([workCenter, idle]).reflow([
+        createWorkOrder({ docId: 'wo-idle', workCenterId: 'wc-idle' }),
+        createWorkOrder({ docId: 'wo-next', dependsOnWorkOrderIds: ['wo-idle'] }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-idle')).toMatchObject({
+        isUnscheduled: true,
+        newStartDate: '2024-01-15T09:00:00.000Z',
+      });
+      expect(byId.get('wo-next')!.newStartDate).toBe('2024-01-15T10:00:00.000Z');
+      expect(result.warningDetails).toContainEqual(expect.objectContaining({
+        code: 'no-workable-slot',
+        severity: 'error',
+        workOrderId: 'wo-idle',
+        workCenterId: 'wc-idle',
+      }));
+    });
+
+    it('should keep in-progress orders in place when their work center has no working time', () => {
+      const idle = createWorkCenter({ docId: 'wc-idle', shifts: [] });
+      const result = new SchedulerService([workCenter, idle], { currentTime: '2024-01-15T09:30:00.000Z' }).reflow([
+        createWorkOrder({ docId: 'wo-idle', workCenterId: 'wc-idle', status: 'in-progress', completedMinutes: 30 }),
+        createWorkOrder({ docId: 'wo-other' }),
+      ]);
+
+      const byId = new Map(result.results.map(r => [r.workOrderId, r]));
+      expect(byId.get('wo-idle')).toMatchObject({
+        isUnscheduled: true,
+        newEndDate: '2024-01-15T10:00:00.000Z',
+      });
+      expect(byId.get('wo-other')!.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      expect(result.warningDetails).toContainEqual(expect.objectContaining({
+        code: 'no-workable-slot',
+        workOrderId: 'wo-idle',
+      }));
+    });
+  });
+
+  describe('Backward Scheduling', () => {
+    const workCenter = createWorkCenter({ docId: 'wc-1' });
+
+    function reflowBackward(orders: WorkOrder[], currentTime = '2024-01-01T00:00:00.000Z', wc = workCenter) {
+      const result = new SchedulerService([wc], { direction: 'backward', currentTime }).reflow(orders);
+      return { result, byId: new Map(result.results.map(r => [r.workOrderId, r])) };
+    }
+
+    it('should finish orders exactly at their due date', () => {
+      const { result } = reflowBackward([
+        createWorkOrder({ docId: 'wo-1', dueDate: '2024-01-16T12:00:00.000Z' }),
+      ]);
+
+      expect(result.results[0]).toMatchObject({
+        newStartDate: '2024-01-16T11:00:00.000Z',
+        newEndDate: '2024-01-16T12:00:00.000Z',
+        isLate: false,
+        isInfeasible: false,
+      });
+    });
+
+    it('should walk back across shifts and finish predecessors before successors', () => {
+      const { byId, result } = reflowBackward([
+        createWorkOrder({ docId: 'wo-a' }),
+        createWorkOrder({
+          docId: 'wo-b',
+          durationMinutes: 120,
+          dueDate: '2024-01-16T10:00:00.000Z',
+          dependsOnWorkOrderIds: ['wo-a'],
+        }),
+      ]);
+
+      // 60 minutes Tuesday 9-10am, 60 more Monday 4-5pm
+      expect(byId.get('wo-b')).toMatchObject({
+        newStartDate: '2024-01-15T16:00:00.000Z',
+        newEndDate: '2024-01-16T10:00:00.000Z',
+      });
+      expect(byId.get('wo-a')!.newEndDate).toBe('2024-01-15T16:00:00.000Z');
+      // Results stay in topological order
+      expect(result.results.map(r => r.workOrderId)).toEqual(['wo-a', 'wo-b']);
+    });
+
+    it('should honor lag on reverse dependencies', () => {
+      const { byId } = reflowBackward([
+        createWorkOrder({ docId: 'wo-a', durationMinutes: 30 }),
+        createWorkOrder({
+          docId: 'wo-b',
+          dueDate: '2024-01-15T17:00:00.000Z',
+          dependsOnWorkOrderIds: [{ workOrderId: 'wo-a', type: 'SS', lagMinutes: 30 }],
+        }),
+      ]);
+
+      // wo-b starts 4pm, so wo-a must start by 3:30pm
+      expect(byId.get('wo-a')!.newStartDate).toBe('2024-01-15T15:30:00.000Z');
+    });
+
+    it('should not overlap orders or maintenance sharing a deadline', () => {
+      const { byId } = reflowBackward([
+        createWorkOrder({
+          docId: 'maint',
+          isMaintenance: true,
+          startDate: '2024-01-15T16:00:00.000Z',
+          endDate: '2024-01-15T17:00:00.000Z',
+        }),
+        createWorkOrder({ docId: 'wo-1', dueDate: '2024-01-15T17:00:00.000Z' }),
+        createWorkOrder({ docId: 'wo-2', dueDate: '2024-01-15T17:00:00.000Z' }),
+      ]);
+
+      const starts = ['wo-1', 'wo-2'].map(id => byId.get(id)!.newStartDate).sort();
+      expect(starts).toEqual(['2024-01-15T14:00:00.000Z', '2024-01-15T15:00:00.000Z']);
+    });
+
+    it('should leave room for setup before the later order', () => {
+      const { byId, result } = reflowBackward(
+        [
+          createWorkOrder({ docId: 'wo-1', productFamily: 'red', dueDate: '2024-01-15T16:00:00.000Z' }),
+          createWorkOrder({ docId: 'wo-2', productFamily: 'white', dueDate: '2024-01-15T17:00:00.000Z' }),
+        ],
+        '2024-01-01T00:00:00.000Z',
+        createWorkCenter({ docId: 'wc-1', defaultSetupMinutes: 30 }),
+      );
+
+      expect(byId.get('wo-1')).toMatchObject({ newEndDate: '2024-01-15T15:30:00.000Z', setupMinutes: 0 });
+      expect(byId.get('wo-2')).toMatchObject({
+        setupMinutes: 30,
+        setupStartDate: '2024-01-15T15:30:00.000Z',
+        newStartDate: '2024-01-15T16:00:00.000Z',
+      });
+      expect(result.metadata.totalSetupMinutes).toBe(30);
+    });
+
+    it('should report orders that would have to start in the past', () => {
+      const { result } = reflowBackward(
+        [createWorkOrder({ docId: 'wo-1', dueDate: '2024-01-15T12:00:00.000Z' })],
+        '2024-01-15T11:30:00.000Z',
+      );
+
+      expect(result.results[0]).toMatchObject({
+        newStartDate: '2024-01-15T11:00:00.000Z',
+        isInfeasible: true,
+      });
+      expect(result.metadata.infeasibleCount).toBe(1);
+      expect(result.warnings.some(w => w.includes('start in the past'))).toBe(true);
+    });
   });
 
   describe('DAG and Topological Sort', () => {
@@ -475,6 +1188,58 @@ describe('SchedulerService', () => {
       }).toThrow(CircularDependencyError);
     });
 
+    it('should report every cycle group with links to break', () => {
+      // Group 1: A <-> B and B <-> C; group 2: D <-> E; F is outside any cycle
+      const workOrders: WorkOrder[] = [
+        createWorkOrder({ docId: 'wo-a', dependsOnWorkOrderIds: ['wo-b'] }),
+        createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-a', 'wo-c'] }),
+        createWorkOrder({ docId: 'wo-c', dependsOnWorkOrderIds: ['wo-b'] }),
+        createWorkOrder({ docId: 'wo-d', dependsOnWorkOrderIds: ['wo-e'] }),
+        createWorkOrder({ docId: 'wo-e', dependsOnWorkOrderIds: ['wo-d'] }),
+        createWorkOrder({ docId: 'wo-f', dependsOnWorkOrderIds: ['wo-a'] }),
+      ];
+
+      let error: CircularDependencyError | undefined;
+      try {
+        topologicalSort(buildDependencyGraph(workOrders));
+      } catch (e) {
+        error = e as CircularDependencyError;
+      }
+
+      expect(error!.components.map(c => c.workOrderIds)).toEqual([
+        ['wo-a', 'wo-b', 'wo-c'],
+        ['wo-d', 'wo-e'],
+      ]);
+      expect(error!.cycle).toEqual(['wo-a', 'wo-b', 'wo-a']);
+      expect(error!.components[0].edgesToBreak).toHaveLength(2);
+      expect(error!.components[1].edgesToBreak).toHaveLength(1);
+      expect(error!.message).toContain('2 groups');
+
+      // Removing the suggested links makes the plan schedulable
+      const broken = workOrders.map(o => ({
+        ...o,
+        data: {
+          ...o.data,
+          dependsOnWorkOrderIds: o.data.dependsOnWorkOrderIds.filter(depId =>
+            !error!.edgesToBreak.some(e => e.workOrderId === o.docId && e.dependsOnWorkOrderId === depId),
+          ),
+        },
+      }));
+      expect(topologicalSort(buildDependencyGraph(broken))).toHaveLength(6);
+    });
+
+    it('should keep the edges to break minimal', () => {
+      // A -> B -> C -> A plus the chord A -> C: breaking C -> A alone is enough
+      const components = findCyclicComponents(buildDependencyGraph([
+        createWorkOrder({ docId: 'wo-a', dependsOnWorkOrderIds: ['wo-b', 'wo-c'] }),
+        createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-c'] }),
+        createWorkOrder({ docId: 'wo-c', dependsOnWorkOrderIds: ['wo-a'] }),
+      ]));
+
+      expect(components).toHaveLength(1);
+      expect(components[0].edgesToBreak).toEqual([{ workOrderId: 'wo-c', dependsOnWorkOrderId: 'wo-a' }]);
+    });
+
     it('should validate dependencies correctly', () => {
       const validOrders: WorkOrder[] = [
         createWorkOrder({ docId: 'wo-a', dependsOnWorkOrderIds: [] }),
@@ -486,6 +1251,34 @@ describe('SchedulerService', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should analyze a cycle through thousands of orders', () => {
+      // Deep enough to overflow a recursive depth-first search
+      const count = 20000;
+      const ring = Array.from({ length: count }, (_, i) =>
+        createWorkOrder({ docId: `wo-${i}`, dependsOnWorkOrderIds: [`wo-${(i + 1) % count}`] }),
+      );
+
+      const components = findCyclicComponents(buildDependencyGraph(ring));
+
+      expect(components).toHaveLength(1);
+      expect(components[0].workOrderIds).toHaveLength(count);
+      expect(components[0].edgesToBreak).toHaveLength(1);
+    });
+
+    it('should suggest edges to break in densely linked groups', () => {
+      // Every order depends on every other one
+      const count = 60;
+      const ids = Array.from({ length: count }, (_, i) => `wo-${i}`);
+      const orders = ids.map(docId =>
+        createWorkOrder({ docId, dependsOnWorkOrderIds: ids.filter(id => id !== docId) }),
+      );
+
+      const components = findCyclicComponents(buildDependencyGraph(orders));
+
+      // One link of every pair has to go
+      expect(components[0].edgesToBreak).toHaveLength((count * (count - 1)) / 2);
+    });
+
     it('should report missing dependency errors', () => {
       const ordersWithMissingDep: WorkOrder[] = [
         createWorkOrder({
@@ -529,15 +1322,221 @@ describe('SchedulerService', () => {
         dependsOnWorkOrderIds: ['wo-a', 'wo-b'],
       });
 
-      const scheduler = new SchedulerService([workCenter]);
-      const result = scheduler.reflow([orderC, orderB, orderA]);
+      const scheduler = new SchedulerService([workCenter]);
+      const result = scheduler.reflow([orderC, orderB, orderA]);
+
+      const resultC = result.results.find(r => r.workOrderId === 'wo-c')!;
+
+      // C must start after both A and B complete
+      // A and B will be sequenced on same machine: 9-10am, 10-11am
+      // C should start at 11am
+      expect(resultC.newStartDate).toBe('2024-01-15T11:00:00.000Z');
+    });
+  });
+
+  describe('Due Dates and Lateness', () => {
+    const workCenter = createWorkCenter({
+      docId: 'wc-1',
+      shifts: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }],
+    });
+
+    it('should report lateness and warn when an order is pushed past its due date', () => {
+      const order1 = createWorkOrder({
+        docId: 'wo-1',
+        startDate: '2024-01-15T09:00:00.000Z',
+        endDate: '2024-01-15T10:00:00.000Z',
+        durationMinutes: 60,
+        dueDate: '2024-01-15T12:00:00.000Z',
+      });
+      // Same slot as wo-1, will be pushed to 10-11am
+      const order2 = createWorkOrder({
+        docId: 'wo-2',
+        workOrderNumber: 'WO-2',
+        startDate: '2024-01-15T09:00:00.000Z',
+        endDate: '2024-01-15T10:00:00.000Z',
+        durationMinutes: 60,
+        dueDate: '2024-01-15T10:00:00.000Z',
+      });
+
+      const scheduler = new SchedulerService([workCenter]);
+      const result = scheduler.reflow([order1, order2]);
+
+      const result1 = result.results.find(r => r.workOrderId === 'wo-1')!;
+      const result2 = result.results.find(r => r.workOrderId === 'wo-2')!;
+
+      expect(result1.isLate).toBe(false);
+      expect(result1.latenessMinutes).toBe(-120);
+      expect(result2.isLate).toBe(true);
+      expect(result2.latenessMinutes).toBe(60);
+
+      expect(result.dueDateWarnings).toEqual([
+        expect.objectContaining({ workOrderId: 'wo-2', latenessMinutes: 60 }),
+      ]);
+      expect(result.metadata.lateCount).toBe(1);
+      expect(result.metadata.totalTardinessMinutes).toBe(60);
+      expect(result.metadata.maxTardinessMinutes).toBe(60);
+      expect(result.metadata.onTimePercentage).toBe(50);
+    });
+
+    it('should not warn about orders that were already late', () => {
+      const order = createWorkOrder({
+        docId: 'wo-1',
+        startDate: '2024-01-15T09:00:00.000Z',
+        endDate: '2024-01-15T10:00:00.000Z',
+        durationMinutes: 60,
+        dueDate: '2024-01-15T09:30:00.000Z',
+      });
+
+      const result = new SchedulerService([workCenter]).reflow([order]);
+
+      expect(result.results[0].isLate).toBe(true);
+      expect(result.dueDateWarnings).toHaveLength(0);
+    });
+
+    it('should treat orders without a due date as on time', () => {
+      const order = createWorkOrder({ docId: 'wo-1' });
+
+      const result = new SchedulerService([workCenter]).reflow([order]);
+
+      expect(result.results[0].isLate).toBe(false);
+      expect(result.results[0].latenessMinutes).toBeUndefined();
+      expect(result.metadata.onTimePercentage).toBe(100);
+    });
+  });
+
+  describe('Dispatch Rules', () => {
+    const workCenter = createWorkCenter({
+      docId: 'wc-1',
+      shifts: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }],
+    });
+
+    /**
+     * Two orders compete for the machine at 9am; whichever is dispatched
+     * first keeps 9am. Each rule should favor a different order.
+     */
+    function competingOrders(): WorkOrder[] {
+      return [
+        createWorkOrder({
+          docId: 'wo-a',
+          startDate: '2024-01-15T09:00:00.000Z',
+          durationMinutes: 120,
+          dueDate: '2024-01-15T13:00:00.000Z', // CR = 240 / 120 = 2
+          priority: 1,
+        }),
+        createWorkOrder({
+          docId: 'wo-b',
+          startDate: '2024-01-15T09:00:00.000Z',
+          durationMinutes: 60,
+          dueDate: '2024-01-15T12:00:00.000Z', // CR = 180 / 60 = 3
+          priority: 5,
+        }),
+        createWorkOrder({
+          docId: 'wo-c',
+          startDate: '2024-01-15T15:00:00.000Z',
+          durationMinutes: 30,
+          dependsOnWorkOrderIds: ['wo-a'],
+        }),
+      ];
+    }
+
+    function firstAtNine(dispatchRule: string, customDispatchRules?: Record<string, DispatchComparator>): string {
+      const scheduler = new SchedulerService([workCenter], { dispatchRule, customDispatchRules });
+      const result = scheduler.reflow(competingOrders());
+      return result.results.find(r => r.newStartDate === '2024-01-15T09:00:00.000Z')!.workOrderId;
+    }
+
+    it.each([
+      ['original-start', 'wo-a'], // Same start, ID tie-break
+      ['earliest-due-date', 'wo-b'],
+      ['shortest-processing-time', 'wo-b'],
+      ['priority', 'wo-b'],
+      ['critical-ratio', 'wo-a'],
+      ['longest-remaining-chain', 'wo-a'], // wo-a heads a 150-minute chain
+    ])('should dispatch by %s', (rule, expectedFirst) => {
+      expect(firstAtNine(rule)).toBe(expectedFirst);
+    });
+
+    it('should accept custom rules by name', () => {
+      const customRules = { 'reverse-id': (a: WorkOrder, b: WorkOrder) => b.docId.localeCompare(a.docId) };
+
+      expect(firstAtNine('reverse-id', customRules)).toBe('wo-b');
+      // Custom rules only apply to the scheduler they were given to
+      expect(() => firstAtNine('reverse-id')).toThrow(UnknownDispatchRuleError);
+    });
+
+    it('should reject custom rules named like a built-in rule', () => {
+      expect(() => firstAtNine('original-start', { priority: () => 0 })).toThrow(DispatchRuleConflictError);
+    });
+
+    it('should accept comparator functions directly', () => {
+      const scheduler = new SchedulerService([workCenter], {
+        dispatchRule: (a, b) => b.data.durationMinutes - a.data.durationMinutes,
+      });
+      const result = scheduler.reflow(competingOrders());
+
+      const resultA = result.results.find(r => r.workOrderId === 'wo-a')!;
+      expect(resultA.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+    });
+
+    it('should reject unknown rule names', () => {
+      expect(() => new SchedulerService([workCenter], { dispatchRule: 'coin-flip' }))
+        .toThrow(UnknownDispatchRuleError);
+    });
+  });
+
+  describe('Priority Scheduling', () => {
+    const workCenter = createWorkCenter({
+      docId: 'wc-1',
+      shifts: [{ dayOfWeek: 1, startHour: 9, endHour: 17 }],
+    });
+
+    function orders(highPriority: number): WorkOrder[] {
+      return [
+        createWorkOrder({
+          docId: 'wo-low',
+          startDate: '2024-01-15T09:00:00.000Z',
+          durationMinutes: 60,
+          priority: 1,
+        }),
+        createWorkOrder({
+          docId: 'wo-high',
+          startDate: '2024-01-15T09:30:00.000Z',
+          durationMinutes: 60,
+          priority: highPriority,
+        }),
+      ];
+    }
+
+    it('should give the machine to the higher-priority order and report displacement', () => {
+      const scheduler = new SchedulerService([workCenter], { priorityScheduling: true });
+      const result = scheduler.reflow(orders(10));
+
+      const low = result.results.find(r => r.workOrderId === 'wo-low')!;
+      const high = result.results.find(r => r.workOrderId === 'wo-high')!;
+
+      expect(high.newStartDate).toBe('2024-01-15T09:30:00.000Z');
+      expect(low.newStartDate).toBe('2024-01-15T10:30:00.000Z');
+      expect(low.displacedBy).toEqual(['wo-high']);
+      expect(high.displacedOrders).toEqual(['wo-low']);
+      expect(result.warnings.some(w => w.includes('displaced by higher-priority'))).toBe(true);
+    });
+
+    it('should fall back to the dispatch rule for equal priorities', () => {
+      const scheduler = new SchedulerService([workCenter], { priorityScheduling: true });
+      const result = scheduler.reflow(orders(1));
 
-      const resultC = result.results.find(r => r.workOrderId === 'wo-c')!;
+      const low = result.results.find(r => r.workOrderId === 'wo-low')!;
+      expect(low.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      expect(low.displacedBy).toBeUndefined();
+    });
 
-      // C must start after both A and B complete
-      // A and B will be sequenced on same machine: 9-10am, 10-11am
-      // C should start at 11am
-      expect(resultC.newStartDate).toBe('2024-01-15T11:00:00.000Z');
+    it('should ignore priority when disabled', () => {
+      const scheduler = new SchedulerService([workCenter]);
+      const result = scheduler.reflow(orders(10));
+
+      const low = result.results.find(r => r.workOrderId === 'wo-low')!;
+      expect(low.newStartDate).toBe('2024-01-15T09:00:00.000Z');
+      expect(low.displacedBy).toBeUndefined();
     });
   });
 
@@ -637,6 +1636,13 @@ describe('Date Utils', () => {
       // 1 hour Monday (4-5pm), 1 hour Tuesday (9-10am)
       expect(endDate.toISO()).toBe('2024-01-16T10:00:00.000Z');
     });
+
+    it('should throw NoWorkableSlotError when the work center never works', () => {
+      const workCenter = createWorkCenter({ shifts: [] });
+
+      expect(() => calculateEndDateWithShifts('2024-01-15T09:00:00.000Z', 60, workCenter))
+        .toThrow(NoWorkableSlotError);
+    });
   });
 
   describe('findEarliestValidStart', () => {
@@ -664,6 +1670,893 @@ describe('Date Utils', () => {
       expect(validStart.toISO()).toBe('2024-01-15T09:00:00.000Z');
     });
   });
+
+  describe('calculateStartDateWithShifts', () => {
+    it('should walk working time backwards across shifts', () => {
+      const workCenter = createWorkCenter();
+
+      // Must end Tuesday 10am, needs 2 hours: 1 hour Tuesday, 1 hour Monday
+      const start = calculateStartDateWithShifts('2024-01-16T10:00:00.000Z', 120, workCenter);
+
+      expect(start.toISO()).toBe('2024-01-15T16:00:00.000Z');
+    });
+
+    it('should skip maintenance windows', () => {
+      const workCenter = createWorkCenter({
+        maintenanceWindows: [{
+          startDate: '2024-01-15T15:00:00.000Z',
+          endDate: '2024-01-15T16:00:00.000Z',
+        }],
+      });
+
+      const start = calculateStartDateWithShifts('2024-01-16T10:00:00.000Z', 180, workCenter);
+
+      expect(start.toISO()).toBe('2024-01-15T14:00:00.000Z');
+    });
+  });
+
+  describe('calculateWorkingMinutesBetween', () => {
+    const workCenter = createWorkCenter();
+
+    it('should only count minutes during shifts', () => {
+      // 60 minutes Monday 4-5pm, 60 more Tuesday 9-10am
+      const minutes = calculateWorkingMinutesBetween(
+        '2024-01-15T16:00:00.000Z',
+        '2024-01-16T10:00:00.000Z',
+        workCenter,
+      );
+
+      expect(minutes).toBe(120);
+    });
+
+    it('should be negative when the end is before the start', () => {
+      const minutes = calculateWorkingMinutesBetween(
+        '2024-01-15T11:00:00.000Z',
+        '2024-01-15T10:30:00.000Z',
+        workCenter,
+      );
+
+      expect(minutes).toBe(-30);
+    });
+  });
+});
+
+describe('Minute-Granularity Shifts', () => {
+  // Monday 06:30-14:45
+  const workCenter = createWorkCenter({
+    shifts: [
+      { dayOfWeek: 1, startHour: 6, startMinute: 30, endHour: 14, endMinute: 45 },
+      { dayOfWeek: 2, startHour: 6, startMinute: 30, endHour: 14, endMinute: 45 },
+    ],
+  });
+
+  it('should snap to a shift starting on the half hour', () => {
+    const validStart = findEarliestValidStart('2024-01-15T06:00:00.000Z', workCenter);
+
+    expect(validStart.toISO()).toBe('2024-01-15T06:30:00.000Z');
+  });
+
+  it('should stop counting work at a quarter-past end time', () => {
+    // 14:00 Monday + 60 minutes: 45 minutes Monday, 15 minutes Tuesday
+    const endDate = calculateEndDateWithShifts('2024-01-15T14:00:00.000Z', 60, workCenter);
+
+    expect(endDate.toISO()).toBe('2024-01-16T06:45:00.000Z');
+  });
+
+  it('should honor minute boundaries in isWithinWorkingHours', () => {
+    expect(isWithinWorkingHours('2024-01-15T06:29:00.000Z', workCenter)).toBe(false);
+    expect(isWithinWorkingHours('2024-01-15T06:30:00.000Z', workCenter)).toBe(true);
+    expect(isWithinWorkingHours('2024-01-15T14:44:00.000Z', workCenter)).toBe(true);
+    expect(isWithinWorkingHours('2024-01-15T14:45:00.000Z', workCenter)).toBe(false);
+  });
+
+  it('should handle overnight shifts ending on a minute boundary', () => {
+    const nightShift = createWorkCenter({
+      shifts: [{ dayOfWeek: 1, startHour: 22, endHour: 6, endMinute: 30 }],
+    });
+
+    // Monday 22:00 + 8 hours 30 minutes ends Tuesday 06:30
+    const endDate = calculateEndDateWithShifts('2024-01-15T22:00:00.000Z', 510, nightShift);
+
+    expect(endDate.toISO()).toBe('2024-01-16T06:30:00.000Z');
+  });
+
+  it('should accept a shift ending at midnight', () => {
+    const lateShift = createWorkCenter({
+      shifts: [{ dayOfWeek: 1, startHour: 16, endHour: 24 }],
+    });
+
+    // Monday 16:00 + 8 hours ends at midnight, not the next shift
+    const endDate = calculateEndDateWithShifts('2024-01-15T16:00:00.000Z', 480, lateShift);
+
+    expect(endDate.toISO()).toBe('2024-01-16T00:00:00.000Z');
+    expect(validatePlan([], [lateShift]).issues).toEqual([]);
+  });
+});
+
+describe('Calendar Exceptions', () => {
+  it('should skip holidays when finding a start', () => {
+    const workCenter = createWorkCenter({
+      holidays: [{ date: '2024-01-15', name: 'Plant shutdown' }], // Monday
+    });
+
+    const validStart = findEarliestValidStart('2024-01-15T09:00:00.000Z', workCenter);
+
+    expect(validStart.toISO()).toBe('2024-01-16T09:00:00.000Z');
+  });
+
+  it('should run a date-specific override on a normally closed Saturday', () => {
+    const workCenter = createWorkCenter({
+      shiftOverrides: [{ date: '2024-01-20', shifts: [{ startHour: 6, endHour: 14 }] }],
+    });
+
+    const validStart = findEarliestValidStart('2024-01-20T05:00:00.000Z', workCenter);
+    const endDate = calculateEndDateWithShifts(validStart, 600, workCenter);
+
+    // 8 hours on Saturday, remaining 2 hours on Monday morning
+    expect(validStart.toISO()).toBe('2024-01-20T06:00:00.000Z');
+    expect(endDate.toISO()).toBe('2024-01-22T11:00:00.000Z');
+  });
+
+  it('should close a day when an override has no shifts', () => {
+    const workCenter = createWorkCenter({
+      shiftOverrides: [{ date: '2024-01-15', shifts: [] }],
+    });
+
+    expect(isWithinWorkingHours('2024-01-15T10:00:00.000Z', workCenter)).toBe(false);
+  });
+
+  it('should add capacity for approved overtime windows', () => {
+    const workCenter = createWorkCenter({
+      overtimeWindows: [
+        { startDate: '2024-01-15T17:00:00.000Z', endDate: '2024-01-15T19:00:00.000Z' },
+      ],
+    });
+
+    // 16:00 + 2 hours: 1 hour regular shift, 1 hour overtime
+    const endDate = calculateEndDateWithShifts('2024-01-15T16:00:00.000Z', 120, workCenter);
+
+    expect(endDate.toISO()).toBe('2024-01-15T18:00:00.000Z');
+    expect(isWithinWorkingHours('2024-01-15T18:30:00.000Z', workCenter)).toBe(true);
+  });
+
+  it('should apply shared calendars referenced by ID', () => {
+    const plantCalendar: Calendar = {
+      docId: 'plant',
+      docType: 'calendar',
+      data: { name: 'Plant calendar', holidays: [{ date: '2024-01-15' }] },
+    };
+    const workCenter = createWorkCenter({ docId: 'wc-1', calendarIds: ['plant'] });
+    const workOrder = createWorkOrder({
+      docId: 'wo-1',
+      startDate: '2024-01-15T09:00:00.000Z',
+      durationMinutes: 60,
+    });
+
+    const scheduler = new SchedulerService([workCenter], { calendars: [plantCalendar] });
+    const result = scheduler.reflow([workOrder]);
+
+    expect(result.results[0].newStartDate).toBe('2024-01-16T09:00:00.000Z');
+  });
+
+  it('should reject references to unknown calendars', () => {
+    const workCenter = createWorkCenter({ calendarIds: ['missing'] });
+
+    expect(() => new SchedulerService([workCenter])).toThrow(MissingCalendarError);
+  });
+});
+
+describe('Critical Path Analysis', () => {
+  const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+  function analyze(orders: WorkOrder[]) {
+    const output = new SchedulerService(workCenters).reflow(orders);
+    const analysis = analyzeCriticalPath(orders, workCenters, output);
+    return { analysis, byId: new Map(analysis.orders.map(o => [o.workOrderId, o])) };
+  }
+
+  // wc-1: wo-a 9-10am, wo-b 10am-12pm (after wo-a)
+  // wc-2: wo-c 9-10am, wo-d 10-10:30am (after wo-c)
+  const orders = [
+    createWorkOrder({ docId: 'wo-a' }),
+    createWorkOrder({ docId: 'wo-b', durationMinutes: 120, dependsOnWorkOrderIds: ['wo-a'] }),
+    createWorkOrder({ docId: 'wo-c', workCenterId: 'wc-2' }),
+    createWorkOrder({ docId: 'wo-d', workCenterId: 'wc-2', durationMinutes: 30, dependsOnWorkOrderIds: ['wo-c'] }),
+  ];
+
+  it('should find the chain that drives the makespan', () => {
+    const { analysis, byId } = analyze(orders);
+
+    expect(analysis.projectEndDate).toBe('2024-01-15T12:00:00.000Z');
+    expect(analysis.criticalChains).toEqual([['wo-a', 'wo-b']]);
+    expect(byId.get('wo-a')).toMatchObject({ isCritical: true, totalFloatMinutes: 0, freeFloatMinutes: 0 });
+    expect(byId.get('wo-b')).toMatchObject({ isCritical: true, totalFloatMinutes: 0 });
+  });
+
+  it('should report total and free float in working minutes', () => {
+    const { byId } = analyze(orders);
+
+    // wo-c can slip 90 minutes before wo-d would end after 12pm, but not at all without moving wo-d
+    expect(byId.get('wo-c')).toMatchObject({
+      isCritical: false,
+      totalFloatMinutes: 90,
+      freeFloatMinutes: 0,
+      latestStartDate: '2024-01-15T10:30:00.000Z',
+    });
+    expect(byId.get('wo-d')).toMatchObject({
+      totalFloatMinutes: 90,
+      freeFloatMinutes: 90,
+      latestEndDate: '2024-01-15T12:00:00.000Z',
+    });
+  });
+
+  it('should treat the machine sequence as a constraint', () => {
+    // No dependencies, but wo-2 waits for wo-1 on the same machine
+    const { analysis } = analyze([
+      createWorkOrder({ docId: 'wo-1' }),
+      createWorkOrder({ docId: 'wo-2' }),
+      createWorkOrder({ docId: 'wo-3', workCenterId: 'wc-2' }),
+    ]);
+
+    expect(analysis.criticalChains).toEqual([['wo-1', 'wo-2']]);
+  });
+
+  it('should count float across shift boundaries', () => {
+    // wo-y runs until 10am Tuesday; wo-x (1 hour Monday) can slip until then
+    const { byId } = analyze([
+      createWorkOrder({ docId: 'wo-x', workCenterId: 'wc-2' }),
+      createWorkOrder({ docId: 'wo-y', durationMinutes: 540 }),
+    ]);
+
+    expect(byId.get('wo-x')).toMatchObject({
+      totalFloatMinutes: 480,
+      latestStartDate: '2024-01-16T09:00:00.000Z',
+    });
+  });
+});
+
+describe('Plan Validation', () => {
+  it('should accept a valid plan', () => {
+    const report = validatePlan(
+      [createWorkOrder({ docId: 'wo-a' }), createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-a'] })],
+      [createWorkCenter()],
+    );
+
+    expect(report).toEqual({ isValid: true, issues: [] });
+  });
+
+  it('should report every problem at once instead of stopping at the first', () => {
+    const workCenter = createWorkCenter({
+      shifts: [{ dayOfWeek: 1, startHour: 9, endHour: 25 }],
+      calendarIds: ['plant'],
+    });
+    const report = validatePlan(
+      [
+        createWorkOrder({ docId: 'wo-self', dependsOnWorkOrderIds: ['wo-self'] }),
+        createWorkOrder({ docId: 'wo-orphan', dependsOnWorkOrderIds: ['wo-missing'] }),
+        createWorkOrder({ docId: 'wo-a', dependsOnWorkOrderIds: ['wo-b'] }),
+        createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-a'] }),
+        createWorkOrder({ docId: 'wo-c', dependsOnWorkOrderIds: ['wo-d'] }),
+        createWorkOrder({ docId: 'wo-d', dependsOnWorkOrderIds: ['wo-c'] }),
+        createWorkOrder({ docId: 'wo-lost', workCenterId: 'wc-missing' }),
+        createWorkOrder({
+          docId: 'wo-bad',
+          startDate: 'not a date',
+          durationMinutes: -30,
+        }),
+        createWorkOrder({
+          docId: 'wo-backwards',
+          startDate: '2024-01-15T10:00:00.000Z',
+          endDate: '2024-01-15T09:00:00.000Z',
+        }),
+      ],
+      [workCenter],
+    );
+
+    expect(report.isValid).toBe(false);
+    expect(report.issues.map(i => [i.code, i.workOrderId ?? i.workCenterId])).toEqual(
+      expect.arrayContaining([
+        ['self-dependency', 'wo-self'],
+        ['missing-dependency', 'wo-orphan'],
+        ['missing-work-center', 'wo-lost'],
+        ['invalid-date', 'wo-bad'],
+        ['negative-duration', 'wo-bad'],
+        ['end-before-start', 'wo-backwards'],
+        ['missing-calendar', 'wc-1'],
+        ['invalid-shift', 'wc-1'],
+      ]),
+    );
+    expect(report.issues.filter(i => i.code === 'circular-dependency').map(i => i.cycle)).toEqual([
+      ['wo-a', 'wo-b', 'wo-a'],
+      ['wo-c', 'wo-d', 'wo-c'],
+    ]);
+    expect(report.issues.find(i => i.code === 'invalid-shift')!.field).toBe('shifts[0].endHour');
+  });
+
+  it('should report pinned orders overlapping maintenance', () => {
+    const workCenter = createWorkCenter({
+      maintenanceWindows: [{ startDate: '2024-01-16T09:30:00.000Z', endDate: '2024-01-16T11:00:00.000Z' }],
+    });
+    const report = validatePlan(
+      [
+        createWorkOrder({ docId: 'wo-maint', isMaintenance: true, startDate: '2024-01-15T09:30:00.000Z' }),
+        createWorkOrder({ docId: 'wo-pin', pinned: true }),
+        createWorkOrder({
+          docId: 'wo-pin-2',
+          pinned: true,
+          startDate: '2024-01-16T09:00:00.000Z',
+          endDate: '2024-01-16T10:00:00.000Z',
+        }),
+      ],
+      [workCenter],
+    );
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: 'maintenance-overlap', workOrderId: 'wo-pin', referenceId: 'wo-maint' }),
+      expect.objectContaining({ code: 'maintenance-overlap', workOrderId: 'wo-pin-2', field: 'maintenanceWindows[0]' }),
+    ]);
+  });
+});
+
+describe('Incremental Reflow', () => {
+  const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+  // Current plan - wc-1: wo-1 9-10am, wo-2 10-11am (after wo-1), wo-3 11am-12pm
+  //                wc-2: wo-4 9-10am, wo-5 10-11am
+  const plan = [
+    createWorkOrder({ docId: 'wo-1' }),
+    createWorkOrder({
+      docId: 'wo-2',
+      startDate: '2024-01-15T10:00:00.000Z',
+      endDate: '2024-01-15T11:00:00.000Z',
+      dependsOnWorkOrderIds: ['wo-1'],
+    }),
+    createWorkOrder({ docId: 'wo-3', startDate: '2024-01-15T11:00:00.000Z', endDate: '2024-01-15T12:00:00.000Z' }),
+    createWorkOrder({ docId: 'wo-4', workCenterId: 'wc-2' }),
+    createWorkOrder({
+      docId: 'wo-5',
+      workCenterId: 'wc-2',
+      startDate: '2024-01-15T10:00:00.000Z',
+      endDate: '2024-01-15T11:00:00.000Z',
+    }),
+  ];
+
+  it('should only reflow and return orders downstream of the edit', () => {
+    const output = reflowIncremental(plan, workCenters, [
+      { type: 'change-duration', workOrderId: 'wo-1', durationMinutes: 120 },
+    ]);
+
+    expect(output.results.map(r => [r.workOrderId, r.newStartDate, r.newEndDate])).toEqual([
+      ['wo-1', '2024-01-15T09:00:00.000Z', '2024-01-15T11:00:00.000Z'],
+      ['wo-2', '2024-01-15T11:00:00.000Z', '2024-01-15T12:00:00.000Z'],
+      ['wo-3', '2024-01-15T12:00:00.000Z', '2024-01-15T13:00:00.000Z'],
+    ]);
+    expect(output.summary).toEqual({
+      impactedCount: 3,
+      changedCount: 3,
+      untouchedCount: 2,
+      maxStartShiftMinutes: 60,
+      makespanDeltaMinutes: 60,
+    });
+  });
+
+  it('should reflow a work center around new downtime', () => {
+    const output = reflowIncremental(plan, workCenters, [
+      {
+        type: 'add-maintenance',
+        workCenterId: 'wc-2',
+        startDate: '2024-01-15T09:00:00.000Z',
+        endDate: '2024-01-15T10:00:00.000Z',
+      },
+    ]);
+
+    expect(output.results.map(r => [r.workOrderId, r.originalStartDate, r.newStartDate])).toEqual([
+      ['wo-4', '2024-01-15T09:00:00.000Z', '2024-01-15T10:00:00.000Z'],
+      ['wo-5', '2024-01-15T10:00:00.000Z', '2024-01-15T11:00:00.000Z'],
+    ]);
+    expect(output.summary.untouchedCount).toBe(3);
+  });
+
+  it('should reject edits to unknown orders', () => {
+    expect(() =>
+      reflowIncremental(plan, workCenters, [{ type: 'move-order', workOrderId: 'wo-9', startDate: '2024-01-16T09:00:00.000Z' }]),
+    ).toThrow(InvalidPlanEditError);
+  });
+});
+
+describe('What-If Scenarios', () => {
+  const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+  const plan = [
+    createWorkOrder({ docId: 'wo-1', dueDate: '2024-01-15T12:00:00.000Z' }),
+    createWorkOrder({ docId: 'wo-2', dueDate: '2024-01-15T12:00:00.000Z' }),
+    createWorkOrder({ docId: 'wo-3', workCenterId: 'wc-2', durationMinutes: 240 }),
+  ];
+  const config = { currentTime: '2024-01-15T08:00:00.000Z' };
+
+  it('should compare each scenario with the baseline', () => {
+    const comparison = compareScenarios(
+      plan,
+      workCenters,
+      [
+        { name: 'slow first order', edits: [{ type: 'change-duration', workOrderId: 'wo-1', durationMinutes: 240 }] },
+        { name: 'wc-2 off Monday', edits: [{ type: 'remove-shift', workCenterId: 'wc-2', dayOfWeek: 1 }] },
+      ],
+      config,
+    );
+
+    expect(comparison.baseline.metrics).toMatchObject({
+      makespanEndDate: '2024-01-15T13:00:00.000Z',
+      makespanMinutes: 240,
+      lateCount: 0,
+    });
+
+    const [slow, offMonday] = comparison.scenarios;
+    expect(slow.orderDeltas.find(d => d.workOrderId === 'wo-2')).toMatchObject({
+      baselineStartDate: '2024-01-15T10:00:00.000Z',
+      scenarioStartDate: '2024-01-15T13:00:00.000Z',
+      startDeltaMinutes: 180,
+      endDeltaMinutes: 180,
+    });
+    expect(slow).toMatchObject({ makespanDeltaMinutes: 60, lateCountDelta: 2, tardinessDeltaMinutes: 180 });
+
+    // wc-2 slips to Tuesday; the plan now spans a day and a half
+    expect(offMonday.orderDeltas.find(d => d.workOrderId === 'wo-3')!.startDeltaMinutes).toBe(1440);
+    expect(offMonday.makespanDeltaMinutes).toBe(1440);
+    expect(offMonday.utilizationDeltas.find(u => u.workCenterId === 'wc-1')!.deltaPercentage).toBeLessThan(0);
+  });
+
+  it('should show the knock-on effect of a rush order', () => {
+    const rush = createWorkOrder({ docId: 'wo-rush', priority: 10, durationMinutes: 120 });
+    const comparison = compareScenarios(
+      plan,
+      workCenters,
+      [{ name: 'rush', edits: [{ type: 'add-order', workOrder: rush }] }],
+      { ...config, priorityScheduling: true },
+    );
+
+    const [scenario] = comparison.scenarios;
+    expect(scenario.orderDeltas.find(d => d.workOrderId === 'wo-rush')).toEqual({
+      workOrderId: 'wo-rush',
+      workOrderNumber: 'WO-wo-rush',
+      baselineStartDate: undefined,
+      baselineEndDate: undefined,
+      scenarioStartDate: '2024-01-15T09:00:00.000Z',
+      scenarioEndDate: '2024-01-15T11:00:00.000Z',
+      startDeltaMinutes: undefined,
+      endDeltaMinutes: undefined,
+    });
+    expect(scenario.orderDeltas.find(d => d.workOrderId === 'wo-2')!.startDeltaMinutes).toBe(120);
+    expect(scenario.lateCountDelta).toBe(1);
+    expect(scenario.metrics.utilization.find(u => u.workCenterId === 'wc-1')!.utilizationPercentage).toBe(100);
+  });
+});
+
+describe('Schedule Diff', () => {
+  const workCenters = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+  it('should diff a reflow against its original dates', () => {
+    // wo-b waits for an 8-hour wo-a and slips to Tuesday, past its due date
+    const output = reflowSchedule(
+      [
+        createWorkOrder({ docId: 'wo-a', durationMinutes: 480 }),
+        createWorkOrder({ docId: 'wo-b', dependsOnWorkOrderIds: ['wo-a'], dueDate: '2024-01-15T17:00:00.000Z' }),
+        createWorkOrder({ docId: 'wo-c', workCenterId: 'wc-2' }),
+      ],
+      workCenters,
+    );
+
+    const diff = diffSchedules(undefined, output.results, workCenters);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.movedOrders.find(m => m.workOrderId === 'wo-b')).toMatchObject({
+      previousStartDate: '2024-01-15T09:00:00.000Z',
+      newStartDate: '2024-01-16T09:00:00.000Z',
+      startShiftMinutes: 1440,
+      startShiftWorkingMinutes: 480,
+    });
+    expect(diff.movedOrders.map(m => m.workOrderId)).toEqual(['wo-a', 'wo-b']);
+    expect(diff.newlyLateOrders).toEqual([
+      {
+        workOrderId: 'wo-b',
+        workOrderNumber: 'WO-wo-b',
+        dueDate: '2024-01-15T17:00:00.000Z',
+        newEndDate: '2024-01-16T10:00:00.000Z',
+        latenessMinutes: 1020,
+      },
+    ]);
+    expect(diff.reassignedOrders).toEqual([]);
+  });
+
+  it('should report work centers whose sequence changed', () => {
+    const orders = [
+      createWorkOrder({ docId: 'wo-1', priority: 1 }),
+      createWorkOrder({ docId: 'wo-2', priority: 5 }),
+    ];
+    const previous = reflowSchedule(orders, workCenters).results;
+    const current = reflowSchedule(orders, workCenters, { priorityScheduling: true }).results;
+
+    const diff = diffSchedules(previous, current, workCenters);
+
+    expect(diff.resequencedWorkCenters).toEqual([
+      {
+        workCenterId: 'wc-1',
+        previousSequence: ['wo-1', 'wo-2'],
+        newSequence: ['wo-2', 'wo-1'],
+        resequencedOrderIds: ['wo-2', 'wo-1'],
+      },
+    ]);
+  });
+
+  it('should report reassignments and orders that appear or disappear', () => {
+    const scheduled = (docId: string, workCenterId: string) => ({
+      workOrderId: docId,
+      workOrderNumber: docId.toUpperCase(),
+      originalStartDate: '2024-01-15T09:00:00.000Z',
+      originalEndDate: '2024-01-15T10:00:00.000Z',
+      newStartDate: '2024-01-15T09:00:00.000Z',
+      newEndDate: '2024-01-15T10:00:00.000Z',
+      workCenterId,
+    });
+
+    const diff = diffSchedules(
+      [scheduled('wo-1', 'wc-1'), scheduled('wo-old', 'wc-1')],
+      [scheduled('wo-1', 'wc-2'), scheduled('wo-new', 'wc-1')],
+      workCenters,
+    );
+
+    expect(diff).toMatchObject({
+      hasChanges: true,
+      movedOrders: [],
+      reassignedOrders: [{ workOrderId: 'wo-1', fromWorkCenterId: 'wc-1', toWorkCenterId: 'wc-2' }],
+      addedOrderIds: ['wo-new'],
+      removedOrderIds: ['wo-old'],
+    });
+  });
+});
+
+describe('Work Center Utilization', () => {
+  it('should only report load when asked to', () => {
+    const output = reflowSchedule([createWorkOrder({ docId: 'wo-1' })], [createWorkCenter()]);
+
+    expect(output.utilization).toBeUndefined();
+  });
+
+  it('should report available, booked and idle time over the horizon', () => {
+    // Horizon Monday 9am - Tuesday 10am, with Monday 1-2pm down for maintenance
+    const workCenter = createWorkCenter({
+      maintenanceWindows: [{ startDate: '2024-01-15T13:00:00.000Z', endDate: '2024-01-15T14:00:00.000Z' }],
+    });
+    const output = reflowSchedule(
+      [
+        createWorkOrder({ docId: 'wo-1' }),
+        createWorkOrder({ docId: 'wo-2', startDate: '2024-01-16T09:00:00.000Z', endDate: '2024-01-16T10:00:00.000Z' }),
+      ],
+      [workCenter],
+      { includeUtilization: true },
+    );
+
+    const [load] = output.utilization!.workCenters;
+    expect(output.utilization).toMatchObject({
+      horizonStart: '2024-01-15T09:00:00.000Z',
+      horizonEnd: '2024-01-16T10:00:00.000Z',
+    });
+    expect(load).toMatchObject({
+      availableMinutes: 480,
+      bookedMinutes: 120,
+      utilizationPercentage: 25,
+      overloadMinutes: 0,
+    });
+    expect(load.idleGaps).toEqual([
+      { startDate: '2024-01-15T10:00:00.000Z', endDate: '2024-01-15T13:00:00.000Z', minutes: 180 },
+      { startDate: '2024-01-15T14:00:00.000Z', endDate: '2024-01-15T17:00:00.000Z', minutes: 180 },
+    ]);
+    expect(load.daily.map(d => [d.periodStart, d.availableMinutes, d.bookedMinutes, d.utilizationPercentage])).toEqual([
+      ['2024-01-15T00:00:00.000Z', 420, 60, 14.29],
+      ['2024-01-16T00:00:00.000Z', 60, 60, 100],
+    ]);
+    expect(load.weekly).toEqual([
+      expect.objectContaining({ periodStart: '2024-01-15T00:00:00.000Z', availableMinutes: 480, bookedMinutes: 120 }),
+    ]);
+  });
+
+  it('should report overload and maintenance orders', () => {
+    const output = reflowSchedule(
+      [
+        createWorkOrder({ docId: 'wo-1', pinned: true }),
+        createWorkOrder({ docId: 'wo-2', pinned: true }),
+        createWorkOrder({
+          docId: 'wo-maint',
+          isMaintenance: true,
+          startDate: '2024-01-15T10:00:00.000Z',
+          endDate: '2024-01-15T11:00:00.000Z',
+        }),
+      ],
+      [createWorkCenter()],
+      { includeUtilization: true },
+    );
+
+    expect(output.utilization!.workCenters[0]).toMatchObject({
+      availableMinutes: 60,
+      bookedMinutes: 120,
+      maintenanceMinutes: 60,
+      overloadMinutes: 60,
+      idleGaps: [],
+    });
+  });
+});
+
+describe('Available-to-Promise', () => {
+  const workCenters = [createWorkCenter()];
+  const config = { currentTime: '2024-01-15T08:00:00.000Z' };
+
+  // wc-1: wo-1 9-10am, wo-2 10am-12pm
+  const plan = [
+    createWorkOrder({ docId: 'wo-1' }),
+    createWorkOrder({
+      docId: 'wo-2',
+      startDate: '2024-01-15T10:00:00.000Z',
+      endDate: '2024-01-15T12:00:00.000Z',
+      durationMinutes: 120,
+    }),
+  ];
+  const quote = createWorkOrder({
+    docId: 'quote-1',
+    durationMinutes: 300,
+    dependsOnWorkOrderIds: ['wo-1'],
+    priority: 5,
+    dueDate: '2024-01-15T16:00:00.000Z',
+  });
+
+  it('should quote into the gaps of the plan without moving it', () => {
+    const output = promiseOrders(plan, workCenters, [quote], config);
+
+    expect(output.quotes).toHaveLength(1);
+    expect(output.quotes[0]).toMatchObject({
+      workOrderId: 'quote-1',
+      startDate: '2024-01-15T12:00:00.000Z',
+      promisedDate: '2024-01-15T17:00:00.000Z',
+      isLate: true,
+      canPromise: true,
+      bindingConstraint: { type: 'machine-busy', workOrderId: 'wo-2' },
+    });
+    expect(output.shiftedOrders).toEqual([]);
+  });
+
+  it('should push lower-priority orders back when allowed', () => {
+    const output = promiseOrders(plan, workCenters, [quote], config, { shiftLowerPriority: true });
+
+    expect(output.quotes[0]).toMatchObject({ promisedDate: '2024-01-15T15:00:00.000Z', isLate: false });
+    expect(output.shiftedOrders).toEqual([
+      expect.objectContaining({ workOrderId: 'wo-2', newStartDate: '2024-01-15T15:00:00.000Z', startShiftMinutes: 300 }),
+    ]);
+  });
+
+  it('should reject quotes that reuse an existing order ID', () => {
+    expect(() => promiseOrders(plan, workCenters, [createWorkOrder({ docId: 'wo-1' })], config)).toThrow(
+      InvalidPlanEditError,
+    );
+  });
+});
+
+describe('Secondary Resources', () => {
+  const config = { currentTime: '2024-01-15T08:00:00.000Z' };
+  const machines = [createWorkCenter({ docId: 'wc-1' }), createWorkCenter({ docId: 'wc-2' })];
+
+  it('should share a resource between orders on different machines', () => {
+    const operators = createWorkCenter({ docId: 'operators', capacity: 1 });
+    const orders = [
+      createWorkOrder({
+        docId: 'wo-1',
+        endDate: '2024-01-15T11:00:00.000Z',
+        durationMinutes: 120,
+        requiredResourceIds: ['operators'],
+      }),
+      createWorkOrder({
+        docId: 'wo-2',
+        workCenterId: 'wc-2',
+        startDate: '2024-01-15T09:30:00.000Z',
+        endDate: '2024-01-15T10:30:00.000Z',
+        requiredResourceIds: ['operators'],
+      }),
+    ];
+
+    const output = new SchedulerService([...machines, operators], config).reflow(orders);
+    const wo2 = output.results.find(r => r.workOrderId === 'wo-2')!;
+
+    expect(wo2).toMatchObject({
+      newStartDate: '2024-01-15T11:00:00.000Z',
+      newEndDate: '2024-01-15T12:00:00.000Z',
+      bindingResourceId: 'operators',
+      bindingConstraint: { type: 'resource', resourceId: 'operators', workOrderId: 'wo-1' },
+    });
+  });
+
+  it('should count orders needing a resource towards its utilization', () => {
+    const operators = createWorkCenter({ docId: 'operators', capacity: 2 });
+    const orders = [
+      createWorkOrder({ docId: 'wo-1', requiredResourceIds: ['operators'] }),
+      createWorkOrder({ docId: 'wo-2', workCenterId: 'wc-2', requiredResourceIds: ['operators'] }),
+    ];
+
+    const output = new SchedulerService([...machines, operators], { ...config, includeUtilization: true }).reflow(orders);
+    const load = output.utilization!.workCenters.find(wc => wc.workCenterId === 'operators')!;
+
+    expect(output.results[0].requiredResourceIds).toEqual(['operators']);
+    expect(load).toMatchObject({
+      availableMinutes: 120,
+      bookedMinutes: 120,
+      utilizationPercentage: 100,
+      idleGaps: [],
+    });
+  });
+
+  it('should wait until every resource is working', () => {
+    // Operators only work afternoons
+    const operators = createWorkCenter({
+      docId: 'operators',
+      shifts: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, startHour: 13, endHour: 17 })),
+    });
+    const order = createWorkOrder({ docId: 'wo-1', durationMinutes: 180, requiredResourceIds: ['operators'] });
+
+    const output = new SchedulerService([...machines, operators], config).reflow([order]);
+
+    expect(output.results[0]).toMatchObject({
+      newStartDate: '2024-01-15T13:00:00.000Z',
+      newEndDate: '2024-01-15T16:00:00.000Z',
+      bindingResourceId: 'operators',
+      bindingConstraint: { type: 'resource', resourceId: 'operators' },
+    });
+  });
+
+  it('should end by the time a resource stops working when scheduling backward', () => {
+    // Operators only work mornings
+    const operators = createWorkCenter({
+      docId: 'operators',
+      shifts: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, startHour: 9, endHour: 13 })),
+    });
+    const order = createWorkOrder({
+      docId: 'wo-1',
+      dueDate: '2024-01-15T17:00:00.000Z',
+      requiredResourceIds: ['operators'],
+    });
+
+    const output = new SchedulerService([...machines, operators], { ...config, direction: 'backward' }).reflow([order]);
+
+    expect(output.results[0]).toMatchObject({
+      newStartDate: '2024-01-15T12:00:00.000Z',
+      newEndDate: '2024-01-15T13:00:00.000Z',
+      bindingResourceId: 'operators',
+    });
+  });
+
+  it('should reject unknown resources', () => {
+    const order = createWorkOrder({ docId: 'wo-1', requiredResourceIds: ['missing'] });
+
+    expect(() => new SchedulerService(machines, config).reflow([order])).toThrow(MissingWorkCenterError);
+  });
+});
+
+describe('Operation Routings', () => {
+  const config = { currentTime: '2024-01-15T08:00:00.000Z' };
+  const workCenters = ['saw', 'welder', 'booth'].map(docId => createWorkCenter({ docId }));
+
+  // Cut -> weld -> paint, each on its own work center
+  const part = createWorkOrder({
+    docId: 'wo-1',
+    workCenterId: 'saw',
+    dueDate: '2024-01-15T12:00:00.000Z',
+    operations: [
+      { operationId: 'cut', workCenterId: 'saw', durationMinutes: 60 },
+      { operationId: 'weld', workCenterId: 'welder', durationMinutes: 120 },
+      { operationId: 'paint', workCenterId: 'booth', durationMinutes: 60 },
+    ],
+  });
+
+  it('should expand routed orders into chained operations', () => {
+    const graph = buildDependencyGraph(expandRoutings([part]));
+
+    expect(graph.allIds).toEqual(['wo-1/cut', 'wo-1/weld', 'wo-1/paint']);
+    expect([...graph.nodes.get('wo-1/weld')!.dependencies]).toEqual(['wo-1/cut']);
+  });
+
+  it('should accept links to an operation when validating dependencies', () => {
+    const inspection = createWorkOrder({ docId: 'wo-2', workCenterId: 'booth', dependsOnWorkOrderIds: ['wo-1/weld'] });
+
+    expect(validateDependencies([part, inspection])).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should roll operation results up into the order', () => {
+    const assembly = createWorkOrder({ docId: 'wo-2', workCenterId: 'saw', dependsOnWorkOrderIds: ['wo-1'] });
+
+    const output = new SchedulerService(workCenters, config).reflow([part, assembly]);
+    const wo1 = output.results.find(r => r.workOrderId === 'wo-1')!;
+
+    expect(output.results.map(r => r.workOrderId)).toEqual(['wo-1', 'wo-2']);
+    expect(wo1).toMatchObject({
+      newStartDate: '2024-01-15T09:00:00.000Z',
+      newEndDate: '2024-01-15T13:00:00.000Z',
+      workCenterId: 'saw',
+      isLate: true,
+      latenessMinutes: 60,
+    });
+    expect(wo1.operations!.map(r => [r.workOrderId, r.newStartDate, r.newEndDate])).toEqual([
+      ['wo-1/cut', '2024-01-15T09:00:00.000Z', '2024-01-15T10:00:00.000Z'],
+      ['wo-1/weld', '2024-01-15T10:00:00.000Z', '2024-01-15T12:00:00.000Z'],
+      ['wo-1/paint', '2024-01-15T12:00:00.000Z', '2024-01-15T13:00:00.000Z'],
+    ]);
+    // Dependencies on the order wait for its last operation
+    expect(output.results[1].newStartDate).toBe('2024-01-15T13:00:00.000Z');
+    expect(output.dueDateWarnings.map(w => w.workOrderId)).toEqual(['wo-1']);
+  });
+
+  it('should leave an untouched routing alone', () => {
+    const planned = createWorkOrder({ ...part.data, docId: 'wo-1', endDate: '2024-01-15T13:00:00.000Z' });
+
+    const output = new SchedulerService(workCenters, config).reflow([planned]);
+    const diff = diffSchedules(undefined, output.results, workCenters);
+
+    expect(output.results[0]).toMatchObject({ wasRescheduled: false, wasReassigned: false });
+    expect(output.results[0].operations!.every(r => !r.wasRescheduled)).toBe(true);
+    expect(output.warningDetails.filter(w => w.code === 'order-delayed')).toEqual([]);
+    expect(diff.reassignedOrders).toEqual([]);
+  });
+
+  it('should only resume the first unfinished operation of an in-progress order', () => {
+    const started = createWorkOrder({ ...part.data, docId: 'wo-1', status: 'in-progress', completedMinutes: 30 });
+
+    const output = new SchedulerService(workCenters, { currentTime: '2024-01-15T09:30:00.000Z' }).reflow([started]);
+
+    // Cut has 30 minutes left; weld and paint still wait for it
+    expect(output.results[0].operations!.map(r => [r.newStartDate, r.newEndDate, r.remainingMinutes])).toEqual([
+      ['2024-01-15T09:00:00.000Z', '2024-01-15T10:00:00.000Z', 30],
+      ['2024-01-15T10:00:00.000Z', '2024-01-15T12:00:00.000Z', undefined],
+      ['2024-01-15T12:00:00.000Z', '2024-01-15T13:00:00.000Z', undefined],
+    ]);
+  });
+
+  it('should spread completed minutes over the operations in routing order', () => {
+    const started = createWorkOrder({ ...part.data, docId: 'wo-1', status: 'in-progress', completedMinutes: 90 });
+
+    const output = new SchedulerService(workCenters, { currentTime: '2024-01-15T10:30:00.000Z' }).reflow([started]);
+
+    // Cut (60) is done and weld has 30 of its 120 minutes done
+    expect(output.results[0].operations!.map(r => [r.fixedReason, r.remainingMinutes, r.newEndDate])).toEqual([
+      ['completed', undefined, '2024-01-15T10:00:00.000Z'],
+      [undefined, 90, '2024-01-15T12:00:00.000Z'],
+      [undefined, undefined, '2024-01-15T13:00:00.000Z'],
+    ]);
+  });
+
+  it('should overlap operations by transfer batch', () => {
+    const batched = createWorkOrder({
+      docId: 'wo-1',
+      operations: [
+        { operationId: 'cut', workCenterId: 'saw', durationMinutes: 60 },
+        { operationId: 'weld', workCenterId: 'welder', durationMinutes: 60, transferBatchMinutes: 20 },
+      ],
+    });
+
+    const output = new SchedulerService(workCenters, config).reflow([batched]);
+
+    // Starts after the first batch, and cannot finish before the last batch arrives
+    expect(output.results[0].operations![1]).toMatchObject({
+      newStartDate: '2024-01-15T09:20:00.000Z',
+      newEndDate: '2024-01-15T10:20:00.000Z',
+    });
+    expect(output.results[0].newEndDate).toBe('2024-01-15T10:20:00.000Z');
+  });
+
+  it('should change the duration of one operation of a routed order', () => {
+    const output = reflowIncremental([part], workCenters, [
+      { type: 'change-duration', workOrderId: 'wo-1', operationId: 'weld', durationMinutes: 180 },
+    ], config);
+
+    expect(output.results[0]).toMatchObject({ workOrderId: 'wo-1', newEndDate: '2024-01-15T14:00:00.000Z' });
+    // The order's own duration is not scheduled, so the operation must be named
+    expect(() =>
+      reflowIncremental([part], workCenters, [{ type: 'change-duration', workOrderId: 'wo-1', durationMinutes: 180 }], config),
+    ).toThrow(InvalidPlanEditError);
+  });
 });
 
 describe('Convenience Function', () => {
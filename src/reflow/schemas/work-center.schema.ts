@@ -0,0 +1,177 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+/**
+ * Persisted shape of a `ShiftDefinition`.
+ */
+@Schema({ _id: false })
+export class ShiftDefinitionData {
+  @Prop({ required: true, min: 0, max: 6 })
+  dayOfWeek: number;
+
+  @Prop({ required: true, min: 0, max: 23 })
+  startHour: number;
+
+  @Prop({ min: 0, max: 59 })
+  startMinute?: number;
+
+  @Prop({ required: true, min: 0, max: 24 })
+  endHour: number;
+
+  @Prop({ min: 0, max: 59 })
+  endMinute?: number;
+}
+
+export const ShiftDefinitionDataSchema =
+  SchemaFactory.createForClass(ShiftDefinitionData);
+
+/**
+ * Persisted shape of a `MaintenanceWindow`.
+ */
+@Schema({ _id: false })
+export class MaintenanceWindowData {
+  @Prop({ required: true })
+  startDate: string;
+
+  @Prop({ required: true })
+  endDate: string;
+
+  @Prop()
+  reason?: string;
+}
+
+export const MaintenanceWindowDataSchema = SchemaFactory.createForClass(
+  MaintenanceWindowData,
+);
+
+/**
+ * Persisted shape of a `ShiftWindow` inside a shift override.
+ */
+@Schema({ _id: false })
+export class ShiftWindowData {
+  @Prop({ required: true, min: 0, max: 23 })
+  startHour: number;
+
+  @Prop({ min: 0, max: 59 })
+  startMinute?: number;
+
+  @Prop({ required: true, min: 0, max: 24 })
+  endHour: number;
+
+  @Prop({ min: 0, max: 59 })
+  endMinute?: number;
+}
+
+export const ShiftWindowDataSchema =
+  SchemaFactory.createForClass(ShiftWindowData);
+
+/**
+ * Persisted shape of a `Holiday`.
+ */
+@Schema({ _id: false })
+export class HolidayData {
+  @Prop({ required: true })
+  date: string;
+
+  @Prop()
+  name?: string;
+}
+
+export const HolidayDataSchema = SchemaFactory.createForClass(HolidayData);
+
+/**
+ * Persisted shape of a `SetupTransition`.
+ */
+@Schema({ _id: false })
+export class SetupTransitionData {
+  @Prop({ required: true })
+  fromFamily: string;
+
+  @Prop({ required: true })
+  toFamily: string;
+
+  @Prop({ required: true, min: 0 })
+  setupMinutes: number;
+}
+
+export const SetupTransitionDataSchema =
+  SchemaFactory.createForClass(SetupTransitionData);
+
+/**
+ * Persisted shape of a `ShiftOverride`.
+ */
+@Schema({ _id: false })
+export class ShiftOverrideData {
+  @Prop({ required: true })
+  date: string;
+
+  @Prop({ type: [ShiftWindowDataSchema], default: [] })
+  shifts: ShiftWindowData[];
+
+  @Prop()
+  reason?: string;
+}
+
+export const ShiftOverrideDataSchema =
+  SchemaFactory.createForClass(ShiftOverrideData);
+
+/**
+ * Persisted shape of `WorkCenter['data']`.
+ * Field semantics are documented on the `WorkCenter` interface in types.ts.
+ */
+@Schema({ _id: false })
+export class WorkCenterData {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: [ShiftDefinitionDataSchema], default: [] })
+  shifts: ShiftDefinitionData[];
+
+  @Prop({ type: [MaintenanceWindowDataSchema], default: [] })
+  maintenanceWindows: MaintenanceWindowData[];
+
+  @Prop({ default: 1, min: 1 })
+  capacity: number;
+
+  @Prop({ type: [SetupTransitionDataSchema], default: [] })
+  setupMatrix: SetupTransitionData[];
+
+  @Prop({ default: 0, min: 0 })
+  defaultSetupMinutes: number;
+
+  @Prop({ type: [HolidayDataSchema], default: [] })
+  holidays: HolidayData[];
+
+  @Prop({ type: [ShiftOverrideDataSchema], default: [] })
+  shiftOverrides: ShiftOverrideData[];
+
+  // Overtime windows share the start/end/reason shape of maintenance windows
+  @Prop({ type: [MaintenanceWindowDataSchema], default: [] })
+  overtimeWindows: MaintenanceWindowData[];
+
+  @Prop({ type: [String], default: [] })
+  calendarIds: string[];
+}
+
+export const WorkCenterDataSchema =
+  SchemaFactory.createForClass(WorkCenterData);
+
+/**
+ * Work center document stored in the `workCenters` collection.
+ * Mirrors the `WorkCenter` interface; `docId` is the business key.
+ */
+@Schema({ collection: 'workCenters', timestamps: true })
+export class WorkCenterEntity {
+  @Prop({ required: true, unique: true })
+  docId: string;
+
+  @Prop({ type: String, default: 'workCenter' })
+  docType: 'workCenter';
+
+  @Prop({ type: WorkCenterDataSchema, required: true })
+  data: WorkCenterData;
+}
+
+export type WorkCenterDocument = HydratedDocument<WorkCenterEntity>;
+
+export const WorkCenterSchema = SchemaFactory.createForClass(WorkCenterEntity);
@@ -0,0 +1,146 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import type { DependencyLink, WorkOrderStatus } from '../types';
+
+/**
+ * Persisted shape of an `AlternateWorkCenter`.
+ */
+@Schema({ _id: false })
+export class AlternateWorkCenterData {
+  @Prop({ required: true })
+  workCenterId: string;
+
+  @Prop({ min: 0 })
+  durationMultiplier?: number;
+}
+
+export const AlternateWorkCenterDataSchema = SchemaFactory.createForClass(
+  AlternateWorkCenterData,
+);
+
+/**
+ * Persisted shape of a `RoutingOperation`.
+ */
+@Schema({ _id: false })
+export class RoutingOperationData {
+  @Prop({ required: true })
+  operationId: string;
+
+  @Prop({ required: true })
+  workCenterId: string;
+
+  @Prop({ type: [AlternateWorkCenterDataSchema], default: undefined })
+  alternateWorkCenters?: AlternateWorkCenterData[];
+
+  @Prop({ type: [String], default: undefined })
+  requiredResourceIds?: string[];
+
+  @Prop({ required: true, min: 0 })
+  durationMinutes: number;
+
+  @Prop()
+  startDate?: string;
+
+  @Prop()
+  endDate?: string;
+
+  @Prop({
+    type: String,
+    enum: ['planned', 'released', 'in-progress', 'completed'],
+  })
+  status?: WorkOrderStatus;
+
+  @Prop({ min: 0 })
+  completedMinutes?: number;
+
+  @Prop()
+  productFamily?: string;
+
+  @Prop({ min: 0 })
+  transferBatchMinutes?: number;
+}
+
+export const RoutingOperationDataSchema =
+  SchemaFactory.createForClass(RoutingOperationData);
+
+/**
+ * Persisted shape of `WorkOrder['data']`.
+ * Field semantics are documented on the `WorkOrder` interface in types.ts.
+ */
+@Schema({ _id: false })
+export class WorkOrderData {
+  @Prop({ required: true })
+  workOrderNumber: string;
+
+  @Prop({ required: true, index: true })
+  workCenterId: string;
+
+  @Prop({ type: [AlternateWorkCenterDataSchema], default: [] })
+  alternateWorkCenters: AlternateWorkCenterData[];
+
+  @Prop({ type: [String], default: [] })
+  requiredResourceIds: string[];
+
+  @Prop({ required: true })
+  startDate: string;
+
+  @Prop({ required: true })
+  endDate: string;
+
+  @Prop({ required: true, min: 0 })
+  durationMinutes: number;
+
+  @Prop({ default: false })
+  isMaintenance: boolean;
+
+  @Prop({ default: false })
+  pinned: boolean;
+
+  @Prop({
+    type: String,
+    enum: ['planned', 'released', 'in-progress', 'completed'],
+    default: 'planned',
+  })
+  status: WorkOrderStatus;
+
+  @Prop({ default: 0, min: 0 })
+  completedMinutes: number;
+
+  // Plain docIds or typed dependency links
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  dependsOnWorkOrderIds: (string | DependencyLink)[];
+
+  @Prop()
+  dueDate?: string;
+
+  @Prop()
+  priority?: number;
+
+  @Prop()
+  productFamily?: string;
+
+  @Prop({ type: [RoutingOperationDataSchema], default: undefined })
+  operations?: RoutingOperationData[];
+}
+
+export const WorkOrderDataSchema = SchemaFactory.createForClass(WorkOrderData);
+
+/**
+ * Work order document stored in the `workOrders` collection.
+ * Mirrors the `WorkOrder` interface; `docId` is the business key.
+ */
+@Schema({ collection: 'workOrders', timestamps: true })
+export class WorkOrderEntity {
+  @Prop({ required: true, unique: true })
+  docId: string;
+
+  @Prop({ type: String, default: 'workOrder' })
+  docType: 'workOrder';
+
+  @Prop({ type: WorkOrderDataSchema, required: true })
+  data: WorkOrderData;
+}
+
+export type WorkOrderDocument = HydratedDocument<WorkOrderEntity>;
+
+export const WorkOrderSchema = SchemaFactory.createForClass(WorkOrderEntity);
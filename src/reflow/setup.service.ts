@@ -0,0 +1,43 @@
+/**
+ * Sequence-Dependent Setup Times
+ *
+ * When consecutive orders on a machine belong to different product families,
+ * the machine needs a changeover before the second one can run. Setup times
+ * come from the work center's setup matrix, falling back to its default.
+ */
+
+import { WorkCenter } from './types';
+
+/**
+ * Returns the setup time needed on a work center between two orders.
+ *
+ * No setup is needed when either family is unknown (no preceding order, or
+ * an order without a family). Otherwise a matching matrix entry wins; if
+ * none matches, a family change costs `defaultSetupMinutes`.
+ *
+ * @param workCenter - Work center with setup matrix and default
+ * @param fromFamily - Product family of the preceding order
+ * @param toFamily - Product family of the following order
+ * @returns Setup time in working minutes
+ */
+export function getSetupMinutes(
+  workCenter: WorkCenter,
+  fromFamily: string | undefined,
+  toFamily: string | undefined,
+): number {
+  if (fromFamily === undefined || toFamily === undefined) {
+    return 0;
+  }
+
+  const transition = workCenter.data.setupMatrix?.find(
+    (t) => t.fromFamily === fromFamily && t.toFamily === toFamily,
+  );
+
+  if (transition) {
+    return transition.setupMinutes;
+  }
+
+  return fromFamily === toFamily
+    ? 0
+    : (workCenter.data.defaultSetupMinutes ?? 0);
+}
@@ -0,0 +1,397 @@
+/**
+ * Work Center Timelines
+ *
+ * Each work center keeps a timeline of the intervals it is occupied for.
+ * Orders are inserted into the earliest gap that fits their shift-aware
+ * duration, so idle time left before a later order (or before a fixed
+ * maintenance order far in the future) can still be used.
+ *
+ * A work center with a capacity above one has that many parallel lanes
+ * (identical units). Orders occupy a single lane; fixed maintenance orders
+ * take the whole work center down and block every lane.
+ *
+ * When consecutive orders in a lane belong to different product families,
+ * a shift-aware setup interval is booked right before the later order.
+ */
+
+import { DateTime } from 'luxon';
+import { ScheduleConstraint, WorkCenter } from './types';
+import { getSetupMinutes } from './setup.service';
+import { traceConstraint, traceSnap } from './trace.service';
+import {
+  calculateEndDateWithShifts,
+  calculateStartDateWithShifts,
+  findEarliestValidStart,
+  findLatestValidEnd,
+} from '../utils/date-utils';
+
+/**
+ * An interval during which a work center is occupied by an order,
+ * including any setup performed before it.
+ */
+export interface TimelineBooking {
+  workOrderId: string;
+  priority: number;
+  isFixed: boolean;
+  /** Start of occupation (start of setup, if any) */
+  start: DateTime;
+  end: DateTime;
+  /** Lane (1-based) the order runs on; omitted for bookings that block all lanes */
+  lane?: number;
+  productFamily?: string;
+  /** Setup minutes booked before the order */
+  setupMinutes: number;
+}
+
+/**
+ * A gap on the timeline that an order can be placed into.
+ */
+export interface TimelineSlot {
+  /** Start of setup; equals `start` when no setup is needed */
+  setupStart: DateTime;
+  /** Start of production */
+  start: DateTime;
+  end: DateTime;
+  lane: number;
+  setupMinutes: number;
+  /** Constraints that moved the slot away from the requested time, in order */
+  trace: ScheduleConstraint[];
+}
+
+/**
+ * Occupied intervals of a single work center, kept sorted by start time.
+ */
+export class WorkCenterTimeline {
+  private readonly entries: TimelineBooking[] = [];
+
+  private readonly capacity: number;
+
+  /**
+   * @param workCenter - Work center whose shifts, maintenance and capacity apply
+   * @param timezone - Timezone for shift calculations
+   */
+  constructor(
+    private readonly workCenter: WorkCenter,
+    private readonly timezone: string,
+  ) {
+    this.capacity = Math.max(1, workCenter.data.capacity ?? 1);
+  }
+
+  /**
+   * All bookings on this work center, sorted by start time.
+   */
+  get bookings(): readonly TimelineBooking[] {
+    return this.entries;
+  }
+
+  /**
+   * Finds the earliest start at or after `from` where an order of the given
+   * working duration fits on some lane without overlapping its bookings.
+   * Ties go to the lowest-numbered lane.
+   *
+   * @param from - Earliest time the order (or its setup) may start
+   * @param durationMinutes - Working minutes required
+   * @param productFamily - Product family of the order, for setup lookup
+   * @returns Setup start, start, shift-aware end and lane of the earliest fitting gap
+   */
+  findEarliestSlot(
+    from: DateTime,
+    durationMinutes: number,
+    productFamily?: string,
+  ): TimelineSlot {
+    let best: TimelineSlot | null = null;
+
+    for (let lane = 1; lane <= this.capacity; lane++) {
+      const slot = this.findEarliestSlotInLane(
+        from,
+        durationMinutes,
+        productFamily,
+        lane,
+      );
+      if (!best || slot.start < best.start) {
+        best = slot;
+      }
+    }
+
+    return best!;
+  }
+
+  /**
+   * Finds the earliest fitting gap on a single lane.
+   *
+   * Candidates are tried in time order: the first valid shift start, then
+   * the end of whichever booking the candidate collides with. Setup depends
+   * on the order placed before the candidate in the lane. A gap in front of
+   * an existing order is only used if that order's booked setup still covers
+   * the changeover from the inserted order.
+   */
+  private findEarliestSlotInLane(
+    from: DateTime,
+    durationMinutes: number,
+    productFamily: string | undefined,
+    lane: number,
+  ): TimelineSlot {
+    let candidate = from;
+    const trace: ScheduleConstraint[] = [];
+
+    for (;;) {
+      const setupStart = findEarliestValidStart(
+        candidate,
+        this.workCenter,
+        this.timezone,
+      );
+      const snap = traceSnap(candidate, setupStart, this.workCenter);
+      if (snap) trace.push(snap);
+
+      const previous = this.findPrevious(lane, setupStart);
+      const setupMinutes = getSetupMinutes(
+        this.workCenter,
+        previous?.productFamily,
+        productFamily,
+      );
+      const start =
+        setupMinutes > 0
+          ? findEarliestValidStart(
+              calculateEndDateWithShifts(
+                setupStart,
+                setupMinutes,
+                this.workCenter,
+                this.timezone,
+              ),
+              this.workCenter,
+              this.timezone,
+            )
+          : setupStart;
+      const end = calculateEndDateWithShifts(
+        start,
+        durationMinutes,
+        this.workCenter,
+        this.timezone,
+      );
+
+      const conflict = this.entries.find(
+        (b) => occupiesLane(b, lane) && overlaps(b, setupStart, end),
+      );
+      if (conflict) {
+        candidate = conflict.end;
+        trace.push(machineBusy(conflict, candidate));
+        continue;
+      }
+
+      const next = this.findNext(lane, end);
+      if (
+        next &&
+        getSetupMinutes(this.workCenter, productFamily, next.productFamily) >
+          next.setupMinutes
+      ) {
+        candidate = next.end;
+        trace.push(machineBusy(next, candidate));
+        continue;
+      }
+
+      if (setupMinutes > 0) {
+        trace.push(
+          traceConstraint({
+            type: 'setup',
+            time: start.toISO()!,
+            workOrderId: previous!.workOrderId,
+            setupMinutes,
+          }),
+        );
+      }
+
+      return { setupStart, start, end, lane, setupMinutes, trace };
+    }
+  }
+
+  /**
+   * Finds the latest end at or before `until` where an order of the given
+   * working duration fits on some lane without overlapping its bookings.
+   * Used for backward (as-late-as-possible) scheduling; ties go to the
+   * lowest-numbered lane.
+   *
+   * Orders are placed latest-first, so an order's own setup is not known
+   * yet. Instead, each order leaves room for the changeover into the order
+   * after it in the lane; the returned slot carries no setup.
+   *
+   * @param until - Latest time the order may end
+   * @param durationMinutes - Working minutes required
+   * @param productFamily - Product family of the order, for setup lookup
+   * @returns Start, end and lane of the latest fitting gap
+   */
+  findLatestSlot(
+    until: DateTime,
+    durationMinutes: number,
+    productFamily?: string,
+  ): TimelineSlot {
+    let best: TimelineSlot | null = null;
+
+    for (let lane = 1; lane <= this.capacity; lane++) {
+      const slot = this.findLatestSlotInLane(
+        until,
+        durationMinutes,
+        productFamily,
+        lane,
+      );
+      if (!best || slot.start > best.start) {
+        best = slot;
+      }
+    }
+
+    return best!;
+  }
+
+  /**
+   * Finds the latest fitting gap on a single lane.
+   *
+   * Candidates are tried backwards in time: the last valid shift end, then
+   * the start of whichever booking the candidate collides with, or the
+   * latest end that leaves room for the next order's changeover.
+   */
+  private findLatestSlotInLane(
+    until: DateTime,
+    durationMinutes: number,
+    productFamily: string | undefined,
+    lane: number,
+  ): TimelineSlot {
+    let candidate = until;
+    const trace: ScheduleConstraint[] = [];
+
+    for (;;) {
+      const end = findLatestValidEnd(candidate, this.workCenter, this.timezone);
+      const snap = traceSnap(candidate, end, this.workCenter);
+      if (snap) trace.push(snap);
+      const start = calculateStartDateWithShifts(
+        end,
+        durationMinutes,
+        this.workCenter,
+        this.timezone,
+      );
+
+      const conflict = this.entries.findLast(
+        (b) => occupiesLane(b, lane) && overlaps(b, start, end),
+      );
+      if (conflict) {
+        candidate = conflict.start;
+        trace.push(machineBusy(conflict, candidate));
+        continue;
+      }
+
+      const next = this.findNext(lane, end);
+      if (next) {
+        const setupMinutes = getSetupMinutes(
+          this.workCenter,
+          productFamily,
+          next.productFamily,
+        );
+        const latestEnd = calculateStartDateWithShifts(
+          next.start,
+          setupMinutes,
+          this.workCenter,
+          this.timezone,
+        );
+        if (end > latestEnd) {
+          candidate = latestEnd;
+          trace.push(
+            traceConstraint({
+              type: 'setup',
+              time: candidate.toISO()!,
+              workOrderId: next.workOrderId,
+              setupMinutes,
+            }),
+          );
+          continue;
+        }
+      }
+
+      return { setupStart: start, start, end, lane, setupMinutes: 0, trace };
+    }
+  }
+
+  /**
+   * The last order in the lane that ends at or before `time`.
+   */
+  private findPrevious(
+    lane: number,
+    time: DateTime,
+  ): TimelineBooking | undefined {
+    return this.entries.findLast((b) => b.lane === lane && b.end <= time);
+  }
+
+  /**
+   * The first order in the lane that starts at or after `time`.
+   */
+  private findNext(lane: number, time: DateTime): TimelineBooking | undefined {
+    return this.entries.find((b) => b.lane === lane && b.start >= time);
+  }
+
+  /**
+   * Finds the lowest-numbered lane that is free during [start, end),
+   * for orders that keep fixed times.
+   *
+   * @returns The free lane, or null if every lane is occupied
+   */
+  findFreeLane(start: DateTime, end: DateTime): number | null {
+    for (let lane = 1; lane <= this.capacity; lane++) {
+      if (
+        !this.entries.some(
+          (b) => occupiesLane(b, lane) && overlaps(b, start, end),
+        )
+      ) {
+        return lane;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns bookings overlapping the interval [start, end).
+   */
+  findOverlapping(start: DateTime, end: DateTime): TimelineBooking[] {
+    return this.entries.filter((b) => b.start < end && b.end > start);
+  }
+
+  /**
+   * Marks an interval as occupied.
+   */
+  reserve(booking: TimelineBooking): void {
+    const index = this.entries.findIndex((b) => b.start > booking.start);
+    this.entries.splice(index === -1 ? this.entries.length : index, 0, booking);
+  }
+}
+
+/**
+ * Trace entry for a candidate moved past (or before) a booking.
+ */
+function machineBusy(
+  booking: TimelineBooking,
+  movedTo: DateTime,
+): ScheduleConstraint {
+  return traceConstraint({
+    type: 'machine-busy',
+    time: movedTo.toISO()!,
+    workOrderId: booking.workOrderId,
+  });
+}
+
+/**
+ * Whether a booking occupies the given lane.
+ */
+function occupiesLane(booking: TimelineBooking, lane: number): boolean {
+  return booking.lane === undefined || booking.lane === lane;
+}
+
+/**
+ * Whether a booking collides with [start, end). A zero-length order
+ * collides only if it falls strictly inside a booking.
+ */
+function overlaps(
+  booking: TimelineBooking,
+  start: DateTime,
+  end: DateTime,
+): boolean {
+  if (start.equals(end)) {
+    return booking.start < start && booking.end > start;
+  }
+  return booking.start < end && booking.end > start;
+}
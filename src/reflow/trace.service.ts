@@ -0,0 +1,91 @@
+/**
+ * Constraint Traces
+ *
+ * Each scheduled order records the chain of constraints that moved it, so
+ * planners can see why an order ended up where it did. These helpers build
+ * the trace entries with a readable message.
+ */
+
+import { DateTime } from 'luxon';
+import { ScheduleConstraint, WorkCenter } from './types';
+
+/**
+ * Builds a trace entry, deriving its message from the structured fields.
+ *
+ * @param constraint - Constraint without message
+ * @returns The trace entry
+ */
+export function traceConstraint(
+  constraint: Omit<ScheduleConstraint, 'message'>,
+): ScheduleConstraint {
+  return { ...constraint, message: describeConstraint(constraint) };
+}
+
+/**
+ * Explains why a time was snapped to the nearest working time: either a
+ * maintenance window ends (or, going backward, starts) right there, or the
+ * work center was simply not working.
+ *
+ * @param from - Requested time
+ * @param to - Nearest valid time
+ * @param workCenter - Work center whose calendar applies
+ * @returns The shift or maintenance constraint, or null if no snap happened
+ */
+export function traceSnap(
+  from: DateTime,
+  to: DateTime,
+  workCenter: WorkCenter,
+): ScheduleConstraint | null {
+  if (to.equals(from)) {
+    return null;
+  }
+
+  const boundary = to > from ? 'endDate' : 'startDate';
+  const maintenanceWindow = workCenter.data.maintenanceWindows.find(
+    (w) => DateTime.fromISO(w[boundary]).toMillis() === to.toMillis(),
+  );
+
+  return maintenanceWindow
+    ? traceConstraint({
+        type: 'maintenance',
+        time: to.toISO()!,
+        maintenanceWindow,
+      })
+    : traceConstraint({ type: 'shift', time: to.toISO()! });
+}
+
+function describeConstraint(
+  constraint: Omit<ScheduleConstraint, 'message'>,
+): string {
+  const { time, workOrderId } = constraint;
+
+  switch (constraint.type) {
+    case 'original-start':
+      return `Original start date ${time}`;
+    case 'original-end':
+      return `Original end date ${time}`;
+    case 'current-time':
+      return `No other constraint; scheduled from the current time ${time}`;
+    case 'due-date':
+      return `Due date ${time}`;
+    case 'dependency':
+      return `${constraint.dependencyType} dependency with "${workOrderId}"; moved to ${time}`;
+    case 'machine-busy':
+      return `Work center occupied by "${workOrderId}"; moved to ${time}`;
+    case 'setup':
+      return `${constraint.setupMinutes} minutes of changeover with "${workOrderId}"; moved to ${time}`;
+    case 'shift':
+      return `Outside working hours; moved to ${time}`;
+    case 'resource':
+      return workOrderId
+        ? `Resource "${constraint.resourceId}" occupied by "${workOrderId}"; moved to ${time}`
+        : `Resource "${constraint.resourceId}" not working; moved to ${time}`;
+    case 'maintenance': {
+      const window = constraint.maintenanceWindow!;
+      return (
+        `Maintenance window ${window.startDate} - ${window.endDate}` +
+        `${window.reason ? ` (${window.reason})` : ''}; moved to ${time}`
+      );
+    }
+  }
+}
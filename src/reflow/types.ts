@@ -19,6 +19,20 @@ export interface WorkOrder {
     /** Reference to the work center where this order will be processed */
     workCenterId: string;
     
+    /**
+     * Other work centers that can process this order. The scheduler picks
+     * whichever eligible center best meets the routing objective.
+     */
+    alternateWorkCenters?: AlternateWorkCenter[];
+    
+    /**
+     * Secondary resources (operator pools, fixtures, a second machine) the
+     * order needs for its whole run, in addition to the work center it runs
+     * on. Resources are work centers with their own calendars and capacity;
+     * the order is only placed where all of them are working and free.
+     */
+    requiredResourceIds?: string[];
+    
     /** Scheduled start date/time as ISO 8601 string (UTC) */
     startDate: string;
     
@@ -38,26 +52,198 @@ export interface WorkOrder {
     isMaintenance: boolean;
     
     /**
-     * List of work order docIds that must complete before this order can start.
-     * Used to build the dependency DAG.
+     * If true, the order is already released or in progress and keeps its
+     * start and end. Its capacity is reserved like a maintenance order's,
+     * but it only occupies one lane. Default: false
+     */
+    pinned?: boolean;
+    
+    /**
+     * Shop floor status. Completed orders keep their actual times and take
+     * no capacity; in-progress orders keep their actual start and only the
+     * remaining duration is rescheduled. Default: 'planned'
+     */
+    status?: WorkOrderStatus;
+    
+    /** Working minutes already done on an in-progress order. Default: 0 */
+    completedMinutes?: number;
+    
+    /**
+     * Work orders this order depends on. Used to build the dependency DAG.
+     * A plain docId means finish-to-start with no lag; a `DependencyLink`
+     * allows other relationship types and lag.
+     */
+    dependsOnWorkOrderIds: (string | DependencyLink)[];
+    
+    /**
+     * Date/time by which this order should be complete, as ISO 8601 string (UTC).
+     * Used for lateness reporting; orders without a due date are never late.
      */
-    dependsOnWorkOrderIds: string[];
+    dueDate?: string;
+    
+    /**
+     * Relative importance of the order; higher values are more urgent.
+     * Used by the 'priority' dispatch rule. Default: 0
+     */
+    priority?: number;
+    
+    /**
+     * Product family or attribute (e.g. color, material) used to look up
+     * sequence-dependent setup time on the work center.
+     */
+    productFamily?: string;
+    
+    /**
+     * Ordered operations of a routed order, each run on its own work center.
+     * When given, the operations are scheduled instead of the order itself,
+     * and the order's work center and duration are not used for scheduling.
+     */
+    operations?: RoutingOperation[];
+    
+    /**
+     * Set on the orders a routing is expanded into: the routed order the
+     * operation belongs to.
+     */
+    parentWorkOrderId?: string;
   };
 }
 
 /**
- * Defines a shift window for a specific day of the week.
- * Shifts define when productive work can occur at a work center.
+ * Relationship between a predecessor and a successor work order.
+ * 
+ * - FS: successor starts after predecessor finishes (default)
+ * - SS: successor starts after predecessor starts
+ * - FF: successor finishes after predecessor finishes
+ * - SF: successor finishes after predecessor starts
  */
-export interface ShiftDefinition {
-  /** Day of week: 0=Sunday, 1=Monday, 2=Tuesday, ..., 6=Saturday */
-  dayOfWeek: number;
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+/**
+ * How dependency lag is measured.
+ * 
+ * - calendar: elapsed real time, e.g. curing (default)
+ * - working: working time on the successor's work center, e.g. transport by shift staff
+ */
+export type LagType = 'calendar' | 'working';
+
+/**
+ * A typed dependency on another work order.
+ */
+export interface DependencyLink {
+  /** docId of the predecessor work order */
+  workOrderId: string;
+  
+  /** Relationship type. Default: 'FS' */
+  type?: DependencyType;
+  
+  /** Minutes added to the predecessor's time; negative values are lead time. Default: 0 */
+  lagMinutes?: number;
+  
+  /** How lag minutes are counted. Default: 'calendar' */
+  lagType?: LagType;
+}
+
+/**
+ * A work center that can process an order instead of its assigned one.
+ */
+export interface AlternateWorkCenter {
+  /** Reference to the eligible work center */
+  workCenterId: string;
+  
+  /**
+   * Factor applied to the order's duration on this center,
+   * e.g. 1.5 for a slower machine. Default: 1
+   */
+  durationMultiplier?: number;
+}
+
+/**
+ * One step of a routed order. It is scheduled as a work order with ID
+ * `<order docId>/<operationId>` that inherits the order's priority, pin and
+ * status; the order's dependencies apply to its first operation.
+ */
+export interface RoutingOperation {
+  /** Identifies the operation within its order */
+  operationId: string;
+  
+  /** Work center the operation runs on */
+  workCenterId: string;
+  
+  /** Other work centers that can run the operation */
+  alternateWorkCenters?: AlternateWorkCenter[];
+  
+  /** Secondary resources the operation needs for its whole run */
+  requiredResourceIds?: string[];
+  
+  /** Working time required */
+  durationMinutes: number;
+  
+  /** Scheduled start and end of the operation. Default: the order's */
+  startDate?: string;
+  endDate?: string;
+  
+  /** Shop floor status of the operation. Default: the order's status */
+  status?: WorkOrderStatus;
+  
+  /** Working minutes already done on an in-progress operation. Default: 0 */
+  completedMinutes?: number;
+  
+  /** Product family for setup lookup. Default: the order's */
+  productFamily?: string;
+  
+  /**
+   * Working minutes (on this operation's work center) one transfer batch
+   * takes. When set, the operation overlaps the previous one: it starts once
+   * the previous operation has run this long and finishes no earlier than
+   * this long after it. Otherwise it starts when the previous one finishes.
+   */
+  transferBatchMinutes?: number;
+}
+
+/**
+ * Changeover time needed on a work center between two product families.
+ */
+export interface SetupTransition {
+  /** Product family of the preceding order on the machine */
+  fromFamily: string;
   
+  /** Product family of the following order */
+  toFamily: string;
+  
+  /** Working minutes of setup required before the following order */
+  setupMinutes: number;
+}
+
+/**
+ * Time-of-day range during which productive work can occur.
+ * Used directly by date-specific shift overrides and, with a day of week,
+ * by the weekly shift pattern.
+ */
+export interface ShiftWindow {
   /** Start hour in 24-hour format (0-23) */
   startHour: number;
   
-  /** End hour in 24-hour format (0-23). If less than startHour, wraps to next day. */
+  /** Start minute within the start hour (0-59). Default: 0 */
+  startMinute?: number;
+  
+  /**
+   * End hour in 24-hour format (0-24, where 24 is midnight at the end of
+   * the day). If the end time is not after the start time, the shift wraps
+   * to the next day.
+   */
   endHour: number;
+  
+  /** End minute within the end hour (0-59). Default: 0 */
+  endMinute?: number;
+}
+
+/**
+ * Defines a shift window for a specific day of the week.
+ * Shifts define when productive work can occur at a work center.
+ */
+export interface ShiftDefinition extends ShiftWindow {
+  /** Day of week: 0=Sunday, 1=Monday, 2=Tuesday, ..., 6=Saturday */
+  dayOfWeek: number;
 }
 
 /**
@@ -75,14 +261,90 @@ export interface MaintenanceWindow {
   reason?: string;
 }
 
+/**
+ * A calendar date on which the weekly shift pattern does not apply.
+ */
+export interface Holiday {
+  /** Calendar date as ISO 8601 date string (yyyy-MM-dd), in the scheduler timezone */
+  date: string;
+  
+  /** Optional name, e.g. "Thanksgiving" */
+  name?: string;
+}
+
+/**
+ * Replaces the weekly shift pattern for a single calendar date.
+ * An empty `shifts` array closes the work center for that date.
+ */
+export interface ShiftOverride {
+  /** Calendar date as ISO 8601 date string (yyyy-MM-dd), in the scheduler timezone */
+  date: string;
+  
+  /** Shifts that run on this date instead of the weekly pattern */
+  shifts: ShiftWindow[];
+  
+  /** Optional description of why the pattern is overridden */
+  reason?: string;
+}
+
+/**
+ * Approved extra working time outside (or extending) regular shifts.
+ * Overtime adds capacity even on holidays, but maintenance windows still block it.
+ */
+export interface OvertimeWindow {
+  /** Start of overtime as ISO 8601 string (UTC) */
+  startDate: string;
+  
+  /** End of overtime as ISO 8601 string (UTC) */
+  endDate: string;
+  
+  /** Optional description, e.g. approval reference */
+  reason?: string;
+}
+
+/**
+ * Exceptions layered on top of a weekly shift pattern.
+ * 
+ * Resolution order for a given date:
+ * 1. A shift override for the date replaces the weekly pattern
+ * 2. Otherwise a holiday removes the weekly pattern shifts
+ * 3. Overtime windows are added on top
+ * 4. Maintenance windows block everything
+ */
+export interface CalendarExceptions {
+  /** Dates on which the weekly pattern does not run */
+  holidays?: Holiday[];
+  
+  /** Date-specific shift replacements */
+  shiftOverrides?: ShiftOverride[];
+  
+  /** Additional approved working windows */
+  overtimeWindows?: OvertimeWindow[];
+}
+
+/**
+ * A named set of calendar exceptions that can be shared across work centers,
+ * e.g. a plant's holiday list. Work centers reference calendars by docId.
+ */
+export interface Calendar {
+  docId: string;
+  docType: 'calendar';
+  data: CalendarExceptions & {
+    /** Human-readable name for the calendar */
+    name: string;
+  };
+}
+
 /**
  * Represents a work center (machine, station, or resource) where work orders
  * are processed. Each work center has its own shift schedule and maintenance windows.
+ * A work center can also be required by orders running elsewhere, as a
+ * secondary resource (see `requiredResourceIds`).
  */
 export interface WorkCenter {
   docId: string;
   docType: 'workCenter';
-  data: {
+  data: CalendarExceptions & {
     /** Human-readable name for the work center */
     name: string;
     
@@ -97,6 +359,30 @@ export interface WorkCenter {
      * Takes precedence over shift schedules (blocks work even during normal shifts).
      */
     maintenanceWindows: MaintenanceWindow[];
+    
+    /**
+     * Number of identical parallel units (spindles, operators, ...).
+     * Up to this many orders may run at the same time. Default: 1
+     */
+    capacity?: number;
+    
+    /**
+     * Sequence-dependent setup times between product families.
+     * Entries take precedence over `defaultSetupMinutes`.
+     */
+    setupMatrix?: SetupTransition[];
+    
+    /**
+     * Setup time when the product family changes and no matrix entry
+     * matches. Default: 0
+     */
+    defaultSetupMinutes?: number;
+    
+    /**
+     * IDs of shared calendars whose exceptions apply to this work center,
+     * in addition to any exceptions defined inline.
+     */
+    calendarIds?: string[];
   };
 }
 
@@ -117,6 +403,9 @@ export interface ReflowResult {
   /** Original end date before reflow */
   originalEndDate: string;
   
+  /** Work center the order was assigned to before reflow */
+  originalWorkCenterId: string;
+  
   /** Newly calculated start date after reflow */
   newStartDate: string;
   
@@ -126,8 +415,219 @@ export interface ReflowResult {
   /** Whether the schedule was changed by the reflow */
   wasRescheduled: boolean;
   
-  /** If true, this order could not be moved (maintenance order) */
+  /** If true, this order could not be moved (completed, maintenance, pinned or frozen order) */
   isFixed: boolean;
+  
+  /** Why the order could not be moved; omitted for movable orders */
+  fixedReason?: FixedReason;
+  
+  /** Work center the order is scheduled on */
+  workCenterId: string;
+  
+  /** Whether the order was moved from its assigned work center to an alternate */
+  wasReassigned: boolean;
+  
+  /** Due date of the order, if it has one */
+  dueDate?: string;
+  
+  /**
+   * Minutes between the new end date and the due date (calendar time).
+   * Positive when late, negative when early. Omitted if there is no due date.
+   */
+  latenessMinutes?: number;
+  
+  /** Whether the new end date is after the due date */
+  isLate: boolean;
+  
+  /** Parallel unit (1-based) the order runs on; omitted for fixed maintenance orders */
+  lane?: number;
+  
+  /** In-progress orders only: working minutes still to do */
+  remainingMinutes?: number;
+  
+  /** Working minutes of changeover performed right before the order */
+  setupMinutes: number;
+  
+  /** When changeover starts; omitted if no setup is needed */
+  setupStartDate?: string;
+  
+  /**
+   * Constraints that moved the order, in the order they applied: first what
+   * made it ready (or due, going backward), then every push while looking
+   * for a gap on the chosen work center. Omitted for fixed and in-progress orders.
+   */
+  constraintTrace?: ScheduleConstraint[];
+  
+  /** The last entry of `constraintTrace`: the constraint that decided the start (or end, going backward) */
+  bindingConstraint?: ScheduleConstraint;
+  
+  /** Secondary resources the order occupies for its whole run; omitted if none */
+  requiredResourceIds?: string[];
+  
+  /**
+   * Orders with required resources only: the work center or secondary
+   * resource whose availability decided the placement. Omitted if a
+   * dependency or the order's own dates did.
+   */
+  bindingResourceId?: string;
+  
+  /**
+   * Priority scheduling only: higher-priority orders that took the work center
+   * time this order would otherwise have started in.
+   */
+  displacedBy?: string[];
+  
+  /**
+   * Priority scheduling only: lower-priority orders that this order pushed back.
+   */
+  displacedOrders?: string[];
+  
+  /**
+   * Backward scheduling only: the order would have to start before the
+   * current time to meet its deadline.
+   */
+  isInfeasible?: boolean;
+  
+  /**
+   * None of the order's work centers had working time left to place it on,
+   * so it keeps its original times (see the `no-workable-slot` warning).
+   */
+  isUnscheduled?: boolean;
+  
+  /**
+   * Routed orders only: a result per operation, in routing order. The
+   * order's own result spans from its first operation's start to its last
+   * operation's end, and keeps the order's own work center.
+   */
+  operations?: ReflowResult[];
+}
+
+/**
+ * Kinds of constraint that can decide where an order is placed.
+ * - original-start / original-end: the order's own dates
+ * - current-time: nothing else constrains the order, so it starts now
+ * - due-date: deadline when scheduling backward
+ * - dependency: a predecessor (or, going backward, a successor)
+ * - machine-busy: another order occupies the work center
+ * - setup: changeover to or from a neighbouring order
+ * - shift: no working time (off shift, holiday)
+ * - maintenance: a maintenance window on the work center
+ * - resource: a required secondary resource is off shift or fully booked
+ */
+export type ConstraintType =
+  | 'original-start'
+  | 'original-end'
+  | 'current-time'
+  | 'due-date'
+  | 'dependency'
+  | 'machine-busy'
+  | 'setup'
+  | 'shift'
+  | 'maintenance'
+  | 'resource';
+
+/**
+ * One step in the explanation of where an order was placed.
+ */
+export interface ScheduleConstraint {
+  type: ConstraintType;
+  
+  /** Time the constraint moved the order's start to (its end, going backward) */
+  time: string;
+  
+  /** Related order: the other side of a dependency, or the order occupying the machine or resource */
+  workOrderId?: string;
+  
+  /** Dependency constraints only: type of the link */
+  dependencyType?: DependencyType;
+  
+  /** Setup constraints only: changeover minutes */
+  setupMinutes?: number;
+  
+  /** Maintenance constraints only: the blocking window */
+  maintenanceWindow?: MaintenanceWindow;
+  
+  /** Resource constraints only: the secondary resource that blocked the order */
+  resourceId?: string;
+  
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Structured warning for an order that the reflow pushed past its due date.
+ * Orders that were already late before the reflow are not reported here.
+ */
+export interface DueDateWarning {
+  workOrderId: string;
+  workOrderNumber: string;
+  dueDate: string;
+  originalEndDate: string;
+  newEndDate: string;
+  
+  /** Minutes past the due date after the reflow */
+  latenessMinutes: number;
+}
+
+/**
+ * Kinds of warning a reflow can emit.
+ * - order-delayed: a movable order starts later than planned
+ * - order-reassigned: an order moved to an alternate work center
+ * - order-displaced: a higher-priority order took the time an order wanted
+ * - due-date-missed: the reflow pushed an order past its due date
+ * - fixed-order-overlap: pinned, frozen or in-progress orders overlap each other
+ * - fixed-dependency-violated: a pinned or frozen order breaks a dependency
+ * - deadline-infeasible: backward only, an order would have to start in the past
+ * - long-shift-gap: an order waited a long time for its work center's next shift
+ * - no-workable-slot: a work center has no working time left; the order was not moved
+ */
+export type WarningCode =
+  | 'order-delayed'
+  | 'order-reassigned'
+  | 'order-displaced'
+  | 'due-date-missed'
+  | 'fixed-order-overlap'
+  | 'fixed-dependency-violated'
+  | 'deadline-infeasible'
+  | 'long-shift-gap'
+  | 'no-workable-slot';
+
+/**
+ * How serious a warning is: `info` explains a normal outcome, `warning`
+ * needs a planner's attention, `error` means the plan is not valid as is.
+ */
+export type WarningSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Structured form of a reflow warning, for clients that need more than the message.
+ */
+export interface ScheduleWarning {
+  code: WarningCode;
+  severity: WarningSeverity;
+  
+  /** Same text as the matching entry of `ReflowOutput.warnings` */
+  message: string;
+  
+  /** Order the warning is about */
+  workOrderId?: string;
+  
+  /** Work center the warning is about */
+  workCenterId?: string;
+  
+  /** Other orders involved: the dependency, or the displacing orders */
+  relatedWorkOrderIds?: string[];
+  
+  /** order-delayed: minutes later than the original start */
+  delayMinutes?: number;
+  
+  /** due-date-missed: minutes past the due date */
+  latenessMinutes?: number;
+  
+  /** fixed-dependency-violated: minutes by which the dependency is broken */
+  violationMinutes?: number;
+  
+  /** long-shift-gap: calendar minutes spent waiting for the next shift */
+  waitMinutes?: number;
 }
 
 /**
@@ -140,6 +640,12 @@ export interface ReflowOutput {
   /** Any warnings generated during scheduling */
   warnings: string[];
   
+  /** The same warnings with codes, severities and the orders involved */
+  warningDetails: ScheduleWarning[];
+  
+  /** Orders that the reflow pushed past their due date */
+  dueDateWarnings: DueDateWarning[];
+  
   /** Processing metadata */
   metadata: {
     /** Number of orders processed */
@@ -151,50 +657,751 @@ export interface ReflowOutput {
     /** Number of fixed (immovable) orders */
     fixedCount: number;
     
+    /** Number of orders moved to an alternate work center */
+    reassignedCount: number;
+    
+    /** Sum of setup minutes over all orders */
+    totalSetupMinutes: number;
+    
+    /** Number of orders that would have to start in the past (backward scheduling) */
+    infeasibleCount: number;
+    
+    /** Number of orders finishing after their due date */
+    lateCount: number;
+    
+    /** Sum of minutes late over all late orders */
+    totalTardinessMinutes: number;
+    
+    /** Largest number of minutes any order is late (0 if none) */
+    maxTardinessMinutes: number;
+    
+    /**
+     * Percentage of orders with a due date that finish on time (0-100).
+     * 100 when no order has a due date.
+     */
+    onTimePercentage: number;
+    
     /** Processing time in milliseconds */
     processingTimeMs: number;
   };
+  
+  /** Load per work center; only present when `includeUtilization` is set */
+  utilization?: UtilizationReport;
 }
 
 /**
- * Configuration options for the scheduler.
+ * A stretch of working time during which a work center runs no order.
  */
-export interface SchedulerConfig {
-  /**
-   * If true, allows scheduling work orders before their original start date
-   * when dependencies are satisfied earlier. Default: false
-   */
-  allowEarlierStart?: boolean;
+export interface IdleGap {
+  startDate: string;
+  endDate: string;
   
-  /**
-   * Timezone to use for shift calculations. Default: 'UTC'
-   */
-  timezone?: string;
+  /** Working minutes in the gap */
+  minutes: number;
 }
 
 /**
- * Error thrown when a circular dependency is detected in work order dependencies.
+ * Load of a work center over one day or week of the horizon.
  */
-export class CircularDependencyError extends Error {
-  constructor(
-    public readonly cycle: string[],
-    message?: string,
-  ) {
-    super(message || `Circular dependency detected: ${cycle.join(' -> ')}`);
-    this.name = 'CircularDependencyError';
-  }
+export interface LoadPeriod {
+  periodStart: string;
+  periodEnd: string;
+  
+  /** Working minutes of all parallel units, after maintenance */
+  availableMinutes: number;
+  
+  /** Working minutes of setup and production booked */
+  bookedMinutes: number;
+  
+  utilizationPercentage: number;
+  
+  /** Booked minutes beyond what is available (0 unless orders overlap) */
+  overloadMinutes: number;
 }
 
 /**
- * Error thrown when a work order references a non-existent dependency.
+ * Load of a single work center over the scheduled horizon.
  */
-export class MissingDependencyError extends Error {
-  constructor(
-    public readonly workOrderId: string,
-    public readonly missingDependencyId: string,
-  ) {
-    super(
-      `Work order "${workOrderId}" depends on non-existent order "${missingDependencyId}"`,
+export interface WorkCenterUtilization {
+  workCenterId: string;
+  
+  /** Working minutes of all parallel units, after maintenance windows and maintenance orders */
+  availableMinutes: number;
+  
+  /** Working minutes of setup and production booked (completed orders excluded) */
+  bookedMinutes: number;
+  
+  /** Working minutes taken by maintenance orders */
+  maintenanceMinutes: number;
+  
+  utilizationPercentage: number;
+  
+  /** Booked minutes beyond what is available (0 unless orders overlap) */
+  overloadMinutes: number;
+  
+  /** Working time with no order running on any unit */
+  idleGaps: IdleGap[];
+  
+  daily: LoadPeriod[];
+  
+  /** Weeks start on Monday */
+  weekly: LoadPeriod[];
+}
+
+/**
+ * Per-work-center load over the horizon of a schedule: from its earliest
+ * start (or setup start) to its latest end.
+ */
+export interface UtilizationReport {
+  /** Omitted when there are no orders */
+  horizonStart?: string;
+  horizonEnd?: string;
+  workCenters: WorkCenterUtilization[];
+}
+
+/**
+ * Float of a single work order in a reflowed plan.
+ * All float values are working minutes on the order's work center.
+ */
+export interface CriticalPathEntry {
+  workOrderId: string;
+  workOrderNumber: string;
+  
+  /** Work center the order is scheduled on */
+  workCenterId: string;
+  
+  /** Earliest start: where the reflow placed the order */
+  earliestStartDate: string;
+  earliestEndDate: string;
+  
+  /** Latest start that does not delay the end of the plan */
+  latestStartDate: string;
+  latestEndDate: string;
+  
+  /** How far the order can slip without delaying the end of the plan */
+  totalFloatMinutes: number;
+  
+  /** How far the order can slip without delaying any successor */
+  freeFloatMinutes: number;
+  
+  /** Whether the order has no total float */
+  isCritical: boolean;
+}
+
+/**
+ * Critical path and float analysis of a reflowed plan.
+ */
+export interface CriticalPathAnalysis {
+  /** Latest end of any movable order; omitted if there are none */
+  projectEndDate?: string;
+  
+  /** Float per movable order, in the order of the reflow results */
+  orders: CriticalPathEntry[];
+  
+  /**
+   * Chains of critical orders, each in time order. Consecutive orders are
+   * linked by a binding dependency or by following each other on a machine.
+   */
+  criticalChains: string[][];
+}
+
+/**
+ * Names of the built-in dispatch rules used to order competing work orders.
+ * 
+ * - original-start: earliest original start date first (default)
+ * - earliest-due-date: earliest due date first; orders without due date last
+ * - shortest-processing-time: shortest duration first
+ * - priority: highest priority first
+ * - critical-ratio: smallest (time until due / duration) first
+ * - longest-remaining-chain: longest chain of dependent work first
+ */
+export type DispatchRuleName =
+  | 'original-start'
+  | 'earliest-due-date'
+  | 'shortest-processing-time'
+  | 'priority'
+  | 'critical-ratio'
+  | 'longest-remaining-chain';
+
+/**
+ * How the scheduler chooses among an order's eligible work centers.
+ * 
+ * - earliest-finish: center where the order completes first (default)
+ * - earliest-start: center where the order can begin first
+ * 
+ * Ties go to the assigned work center, then alternates in listed order.
+ */
+export type RoutingObjective = 'earliest-finish' | 'earliest-start';
+
+/**
+ * Shop floor status of a work order. 'planned' and 'released' orders are
+ * scheduled the same way.
+ */
+export type WorkOrderStatus = 'planned' | 'released' | 'in-progress' | 'completed';
+
+/**
+ * Why an order keeps its original times.
+ * - completed: order has already finished
+ * - maintenance: maintenance window
+ * - pinned: order flagged as pinned
+ * - frozen: order starts inside the frozen horizon
+ */
+export type FixedReason = 'completed' | 'maintenance' | 'pinned' | 'frozen';
+
+/**
+ * Direction in which orders are placed on the timeline.
+ * - forward: as early as possible from original starts and predecessors
+ * - backward: as late as possible from due dates and successors
+ */
+export type SchedulingDirection = 'forward' | 'backward';
+
+/**
+ * Plan-wide information available to dispatch comparators.
+ */
+export interface DispatchContext {
+  /**
+   * For each work order ID, the total duration of the longest chain of
+   * work starting at that order (including the order itself).
+   */
+  remainingChainMinutes: Map<string, number>;
+  
+  /**
+   * Reference "now" for time-based rules such as critical ratio, as ISO 8601.
+   * This is the earliest original start date in the plan.
+   */
+  referenceDate: string;
+}
+
+/**
+ * Orders two ready work orders: negative if `a` should be dispatched first,
+ * positive if `b` should, 0 if the rule does not distinguish them.
+ * Ties are always broken by original start date, then docId.
+ */
+export type DispatchComparator = (
+  a: WorkOrder,
+  b: WorkOrder,
+  context: DispatchContext,
+) => number;
+
+/**
+ * Configuration options for the scheduler.
+ */
+export interface SchedulerConfig {
+  /**
+   * If true, allows scheduling work orders before their original start date
+   * when dependencies are satisfied earlier. Default: false
+   */
+  allowEarlierStart?: boolean;
+  
+  /**
+   * Timezone to use for shift calculations. Default: 'UTC'
+   */
+  timezone?: string;
+  
+  /**
+   * Shared calendars that work centers can reference via `calendarIds`.
+   */
+  calendars?: Calendar[];
+  
+  /**
+   * Rule deciding which ready work order is scheduled first when several
+   * compete. Either a built-in rule name, the name of a rule in
+   * `customDispatchRules`, or a comparator function. Default: 'original-start'
+   */
+  dispatchRule?: string | DispatchComparator;
+  
+  /**
+   * Custom dispatch rules that `dispatchRule` can select by name, e.g. for
+   * library users. Names must not clash with built-in rules.
+   */
+  customDispatchRules?: Record<string, DispatchComparator>;
+  
+  /**
+   * If true, orders competing for a work center are placed strictly by
+   * `priority` (highest first), with `dispatchRule` only breaking ties.
+   * A higher-priority order takes the machine even if its original start is
+   * later; displaced orders are reported in the results. Orders are never
+   * preempted once placed. Default: false
+   */
+  priorityScheduling?: boolean;
+  
+  /**
+   * How to choose among an order's assigned and alternate work centers.
+   * Default: 'earliest-finish'
+   */
+  routingObjective?: RoutingObjective;
+  
+  /**
+   * 'backward' places each order as late as possible so that it finishes by
+   * its due date (or its original end, if it has neither a due date nor
+   * successors) and before its successors need it. Dependencies, shifts,
+   * maintenance and capacity are respected the same way as going forward.
+   * Priority scheduling does not apply. Default: 'forward'
+   */
+  direction?: SchedulingDirection;
+  
+  /**
+   * ISO timestamp treated as "now": the start of unconstrained orders going
+   * forward, and the point before which backward-scheduled orders are
+   * infeasible. Default: the earliest original start in the plan
+   */
+  currentTime?: string;
+  
+  /**
+   * Orders whose original start is before the current time plus this many
+   * minutes keep their times, like pinned orders. Default: 0 (no frozen horizon)
+   */
+  frozenHorizonMinutes?: number;
+  
+  /**
+   * A `long-shift-gap` warning is emitted when an order waits more than this
+   * many calendar minutes for its work center's next shift. Default: 1440 (one day)
+   */
+  shiftGapWarningMinutes?: number;
+  
+  /** Add a per-work-center load report to the output. Default: false */
+  includeUtilization?: boolean;
+}
+
+/**
+ * Kinds of problem `validatePlan` reports.
+ * - missing-dependency / self-dependency / circular-dependency: bad dependency links
+ * - missing-work-center / missing-calendar: references to unknown documents
+ * - invalid-date: a date that is not valid ISO 8601
+ * - end-before-start: an order or window that ends before it starts
+ * - negative-duration: a negative `durationMinutes`
+ * - invalid-shift: a shift with an hour, minute or weekday out of range
+ * - maintenance-overlap: a pinned order overlapping maintenance on its work center
+ */
+export type ValidationIssueCode =
+  | 'missing-dependency'
+  | 'self-dependency'
+  | 'circular-dependency'
+  | 'missing-work-center'
+  | 'missing-calendar'
+  | 'invalid-date'
+  | 'end-before-start'
+  | 'negative-duration'
+  | 'invalid-shift'
+  | 'maintenance-overlap';
+
+/**
+ * A single problem found in a plan.
+ */
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  
+  /** Human-readable explanation */
+  message: string;
+  
+  /** Work order the problem is on */
+  workOrderId?: string;
+  
+  /** Work center the problem is on */
+  workCenterId?: string;
+  
+  /** Offending field, e.g. `startDate` or `shifts[2].endHour` */
+  field?: string;
+  
+  /** The unknown document, or the other order or window involved */
+  referenceId?: string;
+  
+  /** circular-dependency only: order IDs around the cycle, first repeated at the end */
+  cycle?: string[];
+  
+  /** circular-dependency only: all orders in the cycle group */
+  component?: string[];
+  
+  /** circular-dependency only: links to remove to break the group's cycles */
+  edgesToBreak?: DependencyEdge[];
+}
+
+/**
+ * Everything wrong with a plan, collected without scheduling it.
+ */
+export interface ValidationReport {
+  /** True if no issues were found */
+  isValid: boolean;
+  
+  issues: ValidationIssue[];
+}
+
+/**
+ * A change to a plan, for incremental reflow and what-if scenarios.
+ * - move-order: the order should start at `startDate` instead
+ * - change-duration: the order needs `durationMinutes` instead; for a routed
+ *   order, the operation `operationId` does
+ * - add-maintenance: the work center is down from `startDate` to `endDate`
+ * - remove-shift: the work center no longer works its shifts on `dayOfWeek`
+ *   (only the one starting at `startHour`, if given)
+ * - add-order: a new order, e.g. a rush order, joins the plan
+ */
+export type PlanEdit =
+  | { type: 'move-order'; workOrderId: string; startDate: string }
+  | { type: 'change-duration'; workOrderId: string; operationId?: string; durationMinutes: number }
+  | { type: 'add-maintenance'; workCenterId: string; startDate: string; endDate: string; reason?: string }
+  | { type: 'remove-shift'; workCenterId: string; dayOfWeek: number; startHour?: number }
+  | { type: 'add-order'; workOrder: WorkOrder };
+
+/**
+ * What an incremental reflow changed.
+ */
+export interface IncrementalReflowSummary {
+  /** Orders recomputed because the edits could affect them */
+  impactedCount: number;
+  
+  /** Impacted orders whose start, end or work center changed */
+  changedCount: number;
+  
+  /** Orders left exactly as they were */
+  untouchedCount: number;
+  
+  /** Largest start shift among changed orders, in calendar minutes (negative = earlier) */
+  maxStartShiftMinutes: number;
+  
+  /** Change of the plan's latest end, in calendar minutes */
+  makespanDeltaMinutes: number;
+}
+
+/**
+ * Output of an incremental reflow: only the orders that changed.
+ */
+export interface IncrementalReflowOutput {
+  /**
+   * Results for impacted orders whose start, end or work center changed.
+   * Original dates are the ones from before the edits.
+   */
+  results: ReflowResult[];
+  
+  /** Warnings about impacted orders */
+  warnings: string[];
+  
+  /** The same warnings with codes and severities */
+  warningDetails: ScheduleWarning[];
+  
+  summary: IncrementalReflowSummary;
+}
+
+/**
+ * A named set of edits to try against a baseline plan.
+ */
+export interface Scenario {
+  name: string;
+  edits: PlanEdit[];
+}
+
+/**
+ * Headline figures of a reflowed plan, for comparing scenarios.
+ */
+export interface ScenarioMetrics {
+  /** Latest end of any order, if there are any */
+  makespanEndDate?: string;
+  
+  /** Calendar minutes from the earliest start to the latest end */
+  makespanMinutes: number;
+  
+  lateCount: number;
+  totalTardinessMinutes: number;
+  
+  /** Share of each work center's working time over the plan that is booked */
+  utilization: { workCenterId: string; utilizationPercentage: number }[];
+}
+
+/**
+ * How one order moved between the baseline and a scenario.
+ * Orders only in the scenario (added orders) have no baseline dates.
+ */
+export interface ScenarioOrderDelta {
+  workOrderId: string;
+  workOrderNumber: string;
+  baselineStartDate?: string;
+  baselineEndDate?: string;
+  scenarioStartDate: string;
+  scenarioEndDate: string;
+  
+  /** Calendar minutes the start moved (negative = earlier) */
+  startDeltaMinutes?: number;
+  
+  /** Calendar minutes the end moved (negative = earlier) */
+  endDeltaMinutes?: number;
+}
+
+/**
+ * One scenario reflowed and compared with the baseline.
+ */
+export interface ScenarioResult {
+  name: string;
+  output: ReflowOutput;
+  metrics: ScenarioMetrics;
+  orderDeltas: ScenarioOrderDelta[];
+  makespanDeltaMinutes: number;
+  lateCountDelta: number;
+  tardinessDeltaMinutes: number;
+  
+  /** Percentage points of utilization gained (or lost) per work center */
+  utilizationDeltas: { workCenterId: string; deltaPercentage: number }[];
+}
+
+/**
+ * A baseline plan and every scenario, reflowed independently.
+ */
+export interface ScenarioComparison {
+  baseline: { output: ReflowOutput; metrics: ScenarioMetrics };
+  scenarios: ScenarioResult[];
+}
+
+/**
+ * The parts of a reflow result a schedule diff reads. Any `ReflowResult`
+ * qualifies; results stored before `originalWorkCenterId` existed are
+ * treated as never reassigned.
+ */
+export type ScheduledOrder = Pick<
+  ReflowResult,
+  | 'workOrderId'
+  | 'workOrderNumber'
+  | 'originalStartDate'
+  | 'originalEndDate'
+  | 'newStartDate'
+  | 'newEndDate'
+  | 'workCenterId'
+  | 'dueDate'
+> &
+  Partial<Pick<ReflowResult, 'originalWorkCenterId'>>;
+
+/**
+ * An order whose start or end changed between two schedules.
+ */
+export interface OrderMove {
+  workOrderId: string;
+  workOrderNumber: string;
+  
+  /** Work center the order is on in the new schedule */
+  workCenterId: string;
+  
+  previousStartDate: string;
+  previousEndDate: string;
+  newStartDate: string;
+  newEndDate: string;
+  
+  /** Calendar minutes the start moved (negative = earlier) */
+  startShiftMinutes: number;
+  
+  /** Working minutes the start moved, on the new work center's calendar */
+  startShiftWorkingMinutes: number;
+  
+  /** Calendar minutes the end moved (negative = earlier) */
+  endShiftMinutes: number;
+  
+  /** Working minutes the end moved, on the new work center's calendar */
+  endShiftWorkingMinutes: number;
+}
+
+/**
+ * A work center whose orders run in a different order than before.
+ * Sequences are order ids sorted by start; only orders on the work center
+ * in both schedules are compared.
+ */
+export interface WorkCenterResequence {
+  workCenterId: string;
+  previousSequence: string[];
+  newSequence: string[];
+  
+  /** Orders whose position in the sequence changed */
+  resequencedOrderIds: string[];
+}
+
+/**
+ * An order that meets its due date in the previous schedule but not in the new one.
+ */
+export interface NewlyLateOrder {
+  workOrderId: string;
+  workOrderNumber: string;
+  dueDate: string;
+  newEndDate: string;
+  
+  /** Calendar minutes after the due date */
+  latenessMinutes: number;
+}
+
+/**
+ * An order that moved to a different work center.
+ */
+export interface OrderReassignment {
+  workOrderId: string;
+  workOrderNumber: string;
+  fromWorkCenterId: string;
+  toWorkCenterId: string;
+}
+
+/**
+ * Normalized change set between two schedules, for notifying downstream systems.
+ */
+export interface ScheduleDiff {
+  /** Whether anything changed at all */
+  hasChanges: boolean;
+  
+  movedOrders: OrderMove[];
+  resequencedWorkCenters: WorkCenterResequence[];
+  newlyLateOrders: NewlyLateOrder[];
+  reassignedOrders: OrderReassignment[];
+  
+  /** Orders only in the new schedule */
+  addedOrderIds: string[];
+  
+  /** Orders only in the previous schedule */
+  removedOrderIds: string[];
+}
+
+/**
+ * Options for quoting new orders against a plan.
+ */
+export interface PromiseOptions {
+  /**
+   * Let existing orders with a lower priority than the new orders move out
+   * of their way. Default: false (the plan is left exactly as it is)
+   */
+  shiftLowerPriority?: boolean;
+}
+
+/**
+ * Earliest feasible completion of a hypothetical order.
+ */
+export interface PromiseQuote {
+  workOrderId: string;
+  workOrderNumber: string;
+  
+  /** Work center the order would run on */
+  workCenterId: string;
+  
+  startDate: string;
+  
+  /** Earliest time the order can be complete */
+  promisedDate: string;
+  
+  dueDate?: string;
+  isLate: boolean;
+  latenessMinutes?: number;
+  
+  /** The constraint that kept the order from starting sooner */
+  bindingConstraint?: ScheduleConstraint;
+  
+  /** False if no work center had working time left for the order */
+  canPromise: boolean;
+}
+
+/**
+ * Quotes for hypothetical orders, and what they would do to the plan.
+ */
+export interface PromiseOutput {
+  quotes: PromiseQuote[];
+  
+  /** Existing orders that would move; always empty unless `shiftLowerPriority` is set */
+  shiftedOrders: OrderMove[];
+  
+  /** Warnings about the new and shifted orders */
+  warnings: string[];
+  
+  /** The same warnings with codes and severities */
+  warningDetails: ScheduleWarning[];
+}
+
+/**
+ * A dependency link, as an edge from an order to the order it depends on.
+ */
+export interface DependencyEdge {
+  workOrderId: string;
+  dependsOnWorkOrderId: string;
+}
+
+/**
+ * A group of work orders that all depend on each other, directly or
+ * transitively (a strongly connected component of the dependency graph).
+ */
+export interface CyclicComponent {
+  /** Orders in the group */
+  workOrderIds: string[];
+  
+  /** One cycle through the group, first order repeated at the end */
+  cycle: string[];
+  
+  /**
+   * Links whose removal makes the group acyclic. The set is minimal: keeping
+   * any one of them leaves a cycle, though a smaller set may exist.
+   */
+  edgesToBreak: DependencyEdge[];
+}
+
+/**
+ * Error thrown when a circular dependency is detected in work order dependencies.
+ */
+export class CircularDependencyError extends Error {
+  /** Cycle through the first group, kept for clients that show a single cycle */
+  public readonly cycle: string[];
+  
+  constructor(
+    public readonly components: CyclicComponent[],
+    message?: string,
+  ) {
+    super(
+      message ||
+      (components.length === 1
+        ? `Circular dependency detected: ${components[0].cycle.join(' -> ')}`
+        : `Circular dependencies detected in ${components.length} groups: ` +
+          components.map(c => c.cycle.join(' -> ')).join('; ')),
+    );
+    this.name = 'CircularDependencyError';
+    this.cycle = components[0]?.cycle ?? [];
+  }
+  
+  /** Links to remove, across all groups, to make the plan acyclic */
+  get edgesToBreak(): DependencyEdge[] {
+    return this.components.flatMap(c => c.edgesToBreak);
+  }
+}
+
+/**
+ * Error thrown when a work center has no working time left to search,
+ * e.g. because it has no shifts.
+ */
+export class NoWorkableSlotError extends Error {
+  constructor(
+    public readonly workCenterId: string,
+    public readonly from: string,
+    public readonly direction: SchedulingDirection,
+  ) {
+    super(
+      `No workable slots found for work center "${workCenterId}" ` +
+      `${direction === 'forward' ? 'starting from' : 'before'} ${from}. Check shift configuration.`,
+    );
+    this.name = 'NoWorkableSlotError';
+  }
+}
+
+/**
+ * Error thrown when a plan edit refers to an order, operation or work center
+ * that does not exist, changes the duration of a routed order without naming
+ * an operation, or would add an order that already exists.
+ */
+export class InvalidPlanEditError extends Error {
+  constructor(
+    public readonly edit: PlanEdit,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'InvalidPlanEditError';
+  }
+}
+
+/**
+ * Error thrown when a work order references a non-existent dependency.
+ */
+export class MissingDependencyError extends Error {
+  constructor(
+    public readonly workOrderId: string,
+    public readonly missingDependencyId: string,
+  ) {
+    super(
+      `Work order "${workOrderId}" depends on non-existent order "${missingDependencyId}"`,
     );
     this.name = 'MissingDependencyError';
   }
@@ -215,4 +1422,37 @@ export class MissingWorkCenterError extends Error {
   }
 }
 
+/**
+ * Error thrown when a work center references a non-existent shared calendar.
+ */
+export class MissingCalendarError extends Error {
+  constructor(
+    public readonly workCenterId: string,
+    public readonly calendarId: string,
+  ) {
+    super(
+      `Work center "${workCenterId}" references non-existent calendar "${calendarId}"`,
+    );
+    this.name = 'MissingCalendarError';
+  }
+}
+
+/**
+ * Error thrown when a dispatch rule name is neither built in nor registered.
+ */
+export class UnknownDispatchRuleError extends Error {
+  constructor(public readonly rule: string) {
+    super(`Unknown dispatch rule "${rule}"`);
+    this.name = 'UnknownDispatchRuleError';
+  }
+}
 
+/**
+ * Error thrown when a custom dispatch rule reuses the name of a built-in rule.
+ */
+export class DispatchRuleConflictError extends Error {
+  constructor(public readonly rule: string) {
+    super(`Cannot override built-in dispatch rule "${rule}"`);
+    this.name = 'DispatchRuleConflictError';
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Work Center Utilization
+ *
+ * Reflow metadata counts orders; planners also need to know how loaded each
+ * work center is. Working time is walked slot by slot with
+ * `findNextWorkableSlot`, the same slots orders are scheduled into, so
+ * shifts, calendar exceptions and maintenance windows count exactly as they
+ * do for scheduling. Maintenance orders take the whole work center down and
+ * are subtracted from the available time as well. Work centers that serve
+ * as secondary resources (operator pools, molds) are loaded by every order
+ * that needs them.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  IdleGap,
+  LoadPeriod,
+  ReflowResult,
+  SchedulerConfig,
+  UtilizationReport,
+  WorkCenter,
+  WorkCenterUtilization,
+} from './types';
+import { resolveWorkCenterCalendars } from './calendar.service';
+import {
+  findNextWorkableSlot,
+  maxDateTime,
+  minDateTime,
+} from '../utils/date-utils';
+
+/**
+ * A half-open interval [start, end).
+ */
+interface Span {
+  start: DateTime;
+  end: DateTime;
+}
+
+/**
+ * Reports the load of every work center over the horizon of a schedule.
+ *
+ * @param results - Reflow results; completed orders are ignored, and routed
+ *                  orders count by operation
+ * @param workCenters - Work centers to report on
+ * @param config - Timezone and shared calendars
+ * @returns Available, booked and idle time per work center, in total and per day and week
+ */
+export function buildUtilizationReport(
+  results: ReflowResult[],
+  workCenters: WorkCenter[],
+  config: Pick<SchedulerConfig, 'timezone' | 'calendars'> = {},
+): UtilizationReport {
+  const timezone = config.timezone ?? 'UTC';
+  const calendars = new Map((config.calendars ?? []).map((c) => [c.docId, c]));
+  const active = results
+    .flatMap((r) => r.operations ?? [r])
+    .filter((r) => r.fixedReason !== 'completed')
+    .map((r) => ({ result: r, span: toSpan(r, timezone) }));
+
+  const start = minDateTime(...active.map((a) => a.span.start));
+  const end = maxDateTime(...active.map((a) => a.span.end));
+  if (!start || !end) {
+    return {
+      workCenters: workCenters.map((wc) => ({
+        workCenterId: wc.docId,
+        availableMinutes: 0,
+        bookedMinutes: 0,
+        maintenanceMinutes: 0,
+        utilizationPercentage: 0,
+        overloadMinutes: 0,
+        idleGaps: [],
+        daily: [],
+        weekly: [],
+      })),
+    };
+  }
+
+  return {
+    horizonStart: start.toISO()!,
+    horizonEnd: end.toISO()!,
+    workCenters: workCenters.map((wc): WorkCenterUtilization => {
+      const workCenter = resolveWorkCenterCalendars(wc, calendars);
+      const capacity = Math.max(1, wc.data.capacity ?? 1);
+      const onCenter = active.filter((a) => a.result.workCenterId === wc.docId);
+      const maintenance = onCenter
+        .filter((a) => a.result.fixedReason === 'maintenance')
+        .map((a) => a.span);
+      const bookings = [
+        ...onCenter.filter((a) => a.result.fixedReason !== 'maintenance'),
+        // Orders that need the work center as a secondary resource
+        ...active.filter((a) =>
+          a.result.requiredResourceIds?.includes(wc.docId),
+        ),
+      ].map((a) => a.span);
+
+      const shiftTime = findWorkingSpans(start, end, workCenter, timezone);
+      const working = subtract(shiftTime, maintenance);
+      // Pieces of different bookings may overlap; each counts separately
+      const booked = bookings.flatMap((b) => clip(working, b.start, b.end));
+
+      const load = (from: DateTime, to: DateTime) => {
+        const availableMinutes = Math.round(
+          minutes(clip(working, from, to)) * capacity,
+        );
+        const bookedMinutes = Math.round(minutes(clip(booked, from, to)));
+        return {
+          availableMinutes,
+          bookedMinutes,
+          utilizationPercentage:
+            availableMinutes > 0
+              ? round2((bookedMinutes / availableMinutes) * 100)
+              : 0,
+          overloadMinutes: Math.max(0, bookedMinutes - availableMinutes),
+        };
+      };
+      const periods = (unit: 'day' | 'week'): LoadPeriod[] => {
+        const loads: LoadPeriod[] = [];
+        for (
+          let from = start.setZone(timezone).startOf(unit);
+          from < end;
+          from = from.plus({ [unit]: 1 })
+        ) {
+          const to = from.plus({ [unit]: 1 });
+          loads.push({
+            periodStart: from.toISO()!,
+            periodEnd: to.toISO()!,
+            ...load(from, to),
+          });
+        }
+        return loads;
+      };
+
+      return {
+        workCenterId: wc.docId,
+        ...load(start, end),
+        maintenanceMinutes: Math.round(
+          minutes(maintenance.flatMap((m) => clip(shiftTime, m.start, m.end))),
+        ),
+        idleGaps: findIdleGaps(working, bookings),
+        daily: periods('day'),
+        weekly: periods('week'),
+      };
+    }),
+  };
+}
+
+/**
+ * Working slots of a work center between two times, clipped to them.
+ */
+function findWorkingSpans(
+  start: DateTime,
+  end: DateTime,
+  workCenter: WorkCenter,
+  timezone: string,
+): Span[] {
+  const spans: Span[] = [];
+  let current = start;
+
+  while (current < end) {
+    const slot = findNextWorkableSlot(current, workCenter, timezone);
+    if (!slot || slot.start >= end) {
+      break;
+    }
+    spans.push({
+      start: slot.start > current ? slot.start : current,
+      end: slot.end < end ? slot.end : end,
+    });
+    current = slot.end;
+  }
+
+  return spans;
+}
+
+/**
+ * Working time not covered by any booking, with touching pieces joined.
+ */
+function findIdleGaps(working: Span[], bookings: Span[]): IdleGap[] {
+  const gaps: Span[] = [];
+  for (const span of subtract(working, bookings)) {
+    const last = gaps[gaps.length - 1];
+    if (last && last.end.equals(span.start)) {
+      last.end = span.end;
+    } else {
+      gaps.push({ ...span });
+    }
+  }
+
+  return gaps.map((gap) => ({
+    startDate: gap.start.toISO()!,
+    endDate: gap.end.toISO()!,
+    minutes: Math.round(gap.end.diff(gap.start, 'minutes').minutes),
+  }));
+}
+
+/**
+ * The parts of the spans inside [from, to).
+ */
+function clip(spans: Span[], from: DateTime, to: DateTime): Span[] {
+  return spans
+    .map((s) => ({
+      start: s.start > from ? s.start : from,
+      end: s.end < to ? s.end : to,
+    }))
+    .filter((s) => s.start < s.end);
+}
+
+/**
+ * The parts of the spans not covered by any of the holes.
+ */
+function subtract(spans: Span[], holes: Span[]): Span[] {
+  return holes.reduce(
+    (remaining, hole) =>
+      remaining.flatMap((s) =>
+        [
+          { start: s.start, end: hole.start < s.end ? hole.start : s.end },
+          { start: hole.end > s.start ? hole.end : s.start, end: s.end },
+        ].filter((part) => part.start < part.end),
+      ),
+    spans,
+  );
+}
+
+function minutes(spans: Span[]): number {
+  return spans.reduce(
+    (sum, s) => sum + s.end.diff(s.start, 'minutes').minutes,
+    0,
+  );
+}
+
+/**
+ * The interval a result occupies its work center, including setup.
+ */
+function toSpan(result: ReflowResult, timezone: string): Span {
+  return {
+    start: DateTime.fromISO(result.setupStartDate ?? result.newStartDate, {
+      zone: timezone,
+    }),
+    end: DateTime.fromISO(result.newEndDate, { zone: timezone }),
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
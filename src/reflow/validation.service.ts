@@ -0,0 +1,389 @@
+/**
+ * Plan Validation
+ *
+ * Scheduling stops at the first bad reference or cycle it meets, which makes
+ * fixing an imported plan a one-error-at-a-time loop. `validatePlan` checks
+ * the whole plan up front instead and reports every problem it finds,
+ * without scheduling anything.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  Calendar,
+  MaintenanceWindow,
+  ShiftWindow,
+  ValidationIssue,
+  ValidationReport,
+  WorkCenter,
+  WorkOrder,
+} from './types';
+import {
+  buildDependencyGraph,
+  findCyclicComponents,
+  getDependencyLinks,
+} from './dag.service';
+import { expandRoutings } from './routing.service';
+
+/**
+ * Collects every problem in a plan: broken dependency links and cycles,
+ * unknown work centers and calendars, invalid dates and durations, shifts
+ * out of range, and pinned orders overlapping maintenance.
+ *
+ * @param workOrders - Work orders to check; routed orders are checked by
+ *                     operation
+ * @param workCenters - Work centers the orders run on
+ * @param calendars - Shared calendars work centers may reference
+ * @returns All issues found; the plan is valid if there are none
+ */
+export function validatePlan(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  calendars: Calendar[] = [],
+): ValidationReport {
+  const orders = expandRoutings(workOrders);
+  const issues: ValidationIssue[] = [
+    ...validateDependencyLinks(orders),
+    ...validateReferences(orders, workCenters, calendars),
+    ...orders.flatMap(validateWorkOrderTimes),
+    ...workCenters.flatMap(validateWorkCenterCalendar),
+    ...validateMaintenanceOverlaps(orders, workCenters),
+  ];
+
+  return { isValid: issues.length === 0, issues };
+}
+
+/**
+ * Reports missing and self dependencies, and every group of orders caught
+ * in a cycle among the rest.
+ */
+function validateDependencyLinks(workOrders: WorkOrder[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const orderIds = new Set(workOrders.map((o) => o.docId));
+  const dependencies = new Map<string, string[]>();
+
+  for (const order of workOrders) {
+    const valid: string[] = [];
+
+    for (const { workOrderId: depId } of getDependencyLinks(order)) {
+      if (depId === order.docId) {
+        issues.push({
+          code: 'self-dependency',
+          message: `Work order "${order.docId}" depends on itself`,
+          workOrderId: order.docId,
+        });
+      } else if (!orderIds.has(depId)) {
+        issues.push({
+          code: 'missing-dependency',
+          message: `Work order "${order.docId}" depends on non-existent order "${depId}"`,
+          workOrderId: order.docId,
+          referenceId: depId,
+        });
+      } else {
+        valid.push(depId);
+      }
+    }
+
+    dependencies.set(order.docId, valid);
+  }
+
+  // Cycles among the links that do resolve
+  const graph = buildDependencyGraph(
+    workOrders.map((order) => ({
+      ...order,
+      data: {
+        ...order.data,
+        dependsOnWorkOrderIds: dependencies.get(order.docId)!,
+      },
+    })),
+  );
+  for (const component of findCyclicComponents(graph)) {
+    issues.push({
+      code: 'circular-dependency',
+      message:
+        `Circular dependency among ${component.workOrderIds.map((id) => `"${id}"`).join(', ')}: ` +
+        component.cycle.join(' -> '),
+      workOrderId: component.workOrderIds[0],
+      cycle: component.cycle,
+      component: component.workOrderIds,
+      edgesToBreak: component.edgesToBreak,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Reports work centers and calendars that are referenced but not provided.
+ */
+function validateReferences(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+  calendars: Calendar[],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const workCenterIds = new Set(workCenters.map((wc) => wc.docId));
+  const calendarIds = new Set(calendars.map((c) => c.docId));
+
+  for (const order of workOrders) {
+    const referenced = [
+      order.data.workCenterId,
+      ...(order.data.alternateWorkCenters ?? []).map((a) => a.workCenterId),
+      ...(order.data.requiredResourceIds ?? []),
+    ];
+    for (const workCenterId of referenced.filter(
+      (id) => !workCenterIds.has(id),
+    )) {
+      issues.push({
+        code: 'missing-work-center',
+        message: `Work order "${order.docId}" references non-existent work center "${workCenterId}"`,
+        workOrderId: order.docId,
+        referenceId: workCenterId,
+      });
+    }
+  }
+
+  for (const workCenter of workCenters) {
+    for (const calendarId of (workCenter.data.calendarIds ?? []).filter(
+      (id) => !calendarIds.has(id),
+    )) {
+      issues.push({
+        code: 'missing-calendar',
+        message: `Work center "${workCenter.docId}" references non-existent calendar "${calendarId}"`,
+        workCenterId: workCenter.docId,
+        referenceId: calendarId,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Reports invalid dates, orders ending before they start and negative durations.
+ */
+function validateWorkOrderTimes(order: WorkOrder): ValidationIssue[] {
+  const subject = `Work order "${order.docId}"`;
+  const issues = validateInterval(order.data, subject, '', {
+    workOrderId: order.docId,
+  });
+
+  if (order.data.dueDate !== undefined) {
+    issues.push(
+      ...validateDate(order.data.dueDate, subject, 'dueDate', {
+        workOrderId: order.docId,
+      }),
+    );
+  }
+
+  if (!(order.data.durationMinutes >= 0)) {
+    issues.push({
+      code: 'negative-duration',
+      message: `${subject} has a negative duration (${order.data.durationMinutes} minutes)`,
+      workOrderId: order.docId,
+      field: 'durationMinutes',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Reports shifts out of range and invalid maintenance or overtime windows.
+ */
+function validateWorkCenterCalendar(workCenter: WorkCenter): ValidationIssue[] {
+  const subject = `Work center "${workCenter.docId}"`;
+  const context = { workCenterId: workCenter.docId };
+  const issues: ValidationIssue[] = [];
+
+  workCenter.data.shifts.forEach((shift, i) => {
+    issues.push(...validateShift(shift, subject, `shifts[${i}]`, context));
+    if (!isInRange(shift.dayOfWeek, 6)) {
+      issues.push({
+        code: 'invalid-shift',
+        message: `${subject} has a shift on day ${shift.dayOfWeek}; days run from 0 (Sunday) to 6`,
+        ...context,
+        field: `shifts[${i}].dayOfWeek`,
+      });
+    }
+  });
+
+  (workCenter.data.shiftOverrides ?? []).forEach((override, i) => {
+    override.shifts.forEach((shift, j) => {
+      issues.push(
+        ...validateShift(
+          shift,
+          subject,
+          `shiftOverrides[${i}].shifts[${j}]`,
+          context,
+        ),
+      );
+    });
+  });
+
+  workCenter.data.maintenanceWindows.forEach((window, i) => {
+    issues.push(
+      ...validateInterval(
+        window,
+        subject,
+        `maintenanceWindows[${i}].`,
+        context,
+      ),
+    );
+  });
+
+  (workCenter.data.overtimeWindows ?? []).forEach((window, i) => {
+    issues.push(
+      ...validateInterval(window, subject, `overtimeWindows[${i}].`, context),
+    );
+  });
+
+  return issues;
+}
+
+/**
+ * Reports pinned orders that overlap a maintenance order or a maintenance
+ * window on their work center, since neither of them can move.
+ */
+function validateMaintenanceOverlaps(
+  workOrders: WorkOrder[],
+  workCenters: WorkCenter[],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const workCenterById = new Map(workCenters.map((wc) => [wc.docId, wc]));
+  const interval = (i: { startDate: string; endDate: string }) => ({
+    start: DateTime.fromISO(i.startDate),
+    end: DateTime.fromISO(i.endDate),
+  });
+  const overlaps = (
+    a: ReturnType<typeof interval>,
+    b: ReturnType<typeof interval>,
+  ) => a.start < b.end && b.start < a.end;
+
+  const pinned = workOrders.filter(
+    (o) => o.data.pinned && !o.data.isMaintenance,
+  );
+  const maintenance = workOrders.filter((o) => o.data.isMaintenance);
+
+  for (const order of pinned) {
+    const times = interval(order.data);
+    if (!times.start.isValid || !times.end.isValid) continue;
+
+    for (const other of maintenance) {
+      if (
+        other.data.workCenterId === order.data.workCenterId &&
+        overlaps(times, interval(other.data))
+      ) {
+        issues.push({
+          code: 'maintenance-overlap',
+          message: `Pinned work order "${order.docId}" overlaps maintenance order "${other.docId}"`,
+          workOrderId: order.docId,
+          workCenterId: order.data.workCenterId,
+          referenceId: other.docId,
+        });
+      }
+    }
+
+    const windows: MaintenanceWindow[] =
+      workCenterById.get(order.data.workCenterId)?.data.maintenanceWindows ??
+      [];
+    windows.forEach((window, i) => {
+      if (overlaps(times, interval(window))) {
+        issues.push({
+          code: 'maintenance-overlap',
+          message:
+            `Pinned work order "${order.docId}" overlaps maintenance window ` +
+            `${window.startDate} - ${window.endDate} on work center "${order.data.workCenterId}"`,
+          workOrderId: order.docId,
+          workCenterId: order.data.workCenterId,
+          field: `maintenanceWindows[${i}]`,
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that both ends of an interval are valid dates in the right order.
+ */
+function validateInterval(
+  interval: { startDate: string; endDate: string },
+  subject: string,
+  prefix: string,
+  context: Pick<ValidationIssue, 'workOrderId' | 'workCenterId'>,
+): ValidationIssue[] {
+  const issues = [
+    ...validateDate(interval.startDate, subject, `${prefix}startDate`, context),
+    ...validateDate(interval.endDate, subject, `${prefix}endDate`, context),
+  ];
+
+  if (
+    issues.length === 0 &&
+    DateTime.fromISO(interval.endDate) < DateTime.fromISO(interval.startDate)
+  ) {
+    issues.push({
+      code: 'end-before-start',
+      message: `${subject} ${prefix}endDate ${interval.endDate} is before ${prefix}startDate ${interval.startDate}`,
+      ...context,
+      field: `${prefix}endDate`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that a value parses as an ISO 8601 date.
+ */
+function validateDate(
+  value: string,
+  subject: string,
+  field: string,
+  context: Pick<ValidationIssue, 'workOrderId' | 'workCenterId'>,
+): ValidationIssue[] {
+  return DateTime.fromISO(value).isValid
+    ? []
+    : [
+        {
+          code: 'invalid-date',
+          message: `${subject} ${field} "${value}" is not a valid ISO 8601 date`,
+          ...context,
+          field,
+        },
+      ];
+}
+
+/**
+ * Checks that shift hours are 0-23 (end hours 0-24) and minutes are 0-59.
+ */
+function validateShift(
+  shift: ShiftWindow,
+  subject: string,
+  prefix: string,
+  context: Pick<ValidationIssue, 'workCenterId'>,
+): ValidationIssue[] {
+  const fields: [keyof ShiftWindow, number | undefined, number][] = [
+    ['startHour', shift.startHour, 23],
+    ['startMinute', shift.startMinute, 59],
+    ['endHour', shift.endHour, 24],
+    ['endMinute', shift.endMinute, 59],
+  ];
+
+  return fields
+    .filter(([, value]) => value !== undefined)
+    .filter(([, value, max]) => !isInRange(value!, max))
+    .map(([name, value, max]) => ({
+      code: 'invalid-shift',
+      message: `${subject} ${prefix}.${name} is ${value}; it must be an integer from 0 to ${max}`,
+      ...context,
+      field: `${prefix}.${name}`,
+    }));
+}
+
+/**
+ * Whether a value is an integer from 0 to `max`.
+ */
+function isInRange(value: number, max: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= max;
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { UpdateWorkCenterDto, WorkCenterDto } from './dto/reflow.dto';
+import { toWorkCenter } from './reflow.mapper';
+import { WorkCenterService } from './work-center.service';
+import { WorkCenter } from './types';
+
+@ApiTags('Work Centers')
+@Controller('work-centers')
+export class WorkCenterController {
+  constructor(private readonly workCenterService: WorkCenterService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List stored work centers' })
+  @ApiResponse({ status: 200, type: [WorkCenterDto] })
+  findAll(): Promise<WorkCenter[]> {
+    return this.workCenterService.findAll();
+  }
+
+  @Get(':docId')
+  @ApiOperation({ summary: 'Get a stored work center' })
+  @ApiResponse({ status: 200, type: WorkCenterDto })
+  @ApiResponse({ status: 404, description: 'Work center not found' })
+  findOne(@Param('docId') docId: string): Promise<WorkCenter> {
+    return this.workCenterService.findOne(docId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a work center' })
+  @ApiResponse({ status: 201, type: WorkCenterDto })
+  @ApiResponse({ status: 409, description: 'Work center already exists' })
+  create(@Body() dto: WorkCenterDto): Promise<WorkCenter> {
+    return this.workCenterService.create(toWorkCenter(dto));
+  }
+
+  @Patch(':docId')
+  @ApiOperation({ summary: 'Update fields of a stored work center' })
+  @ApiResponse({ status: 200, type: WorkCenterDto })
+  @ApiResponse({ status: 404, description: 'Work center not found' })
+  update(
+    @Param('docId') docId: string,
+    @Body() dto: UpdateWorkCenterDto,
+  ): Promise<WorkCenter> {
+    return this.workCenterService.update(docId, dto.data);
+  }
+
+  @Delete(':docId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a stored work center' })
+  @ApiResponse({ status: 204, description: 'Work center deleted' })
+  @ApiResponse({ status: 404, description: 'Work center not found' })
+  remove(@Param('docId') docId: string): Promise<void> {
+    return this.workCenterService.remove(docId);
+  }
+}
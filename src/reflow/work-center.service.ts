@@ -0,0 +1,111 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { WorkCenterEntity } from './schemas/work-center.schema';
+import { toDataUpdate } from './reflow.mapper';
+import { WorkCenter } from './types';
+
+/**
+ * Persistence layer for work centers.
+ * All methods return plain `WorkCenter` objects, never Mongoose documents.
+ */
+@Injectable()
+export class WorkCenterService {
+  constructor(
+    @InjectModel(WorkCenterEntity.name)
+    private readonly workCenterModel: Model<WorkCenterEntity>,
+  ) {}
+
+  async findAll(): Promise<WorkCenter[]> {
+    const entities = await this.workCenterModel
+      .find()
+      .sort({ docId: 1 })
+      .lean<WorkCenterEntity[]>()
+      .exec();
+    return entities.map(toWorkCenterRecord);
+  }
+
+  async findOne(docId: string): Promise<WorkCenter> {
+    const entity = await this.workCenterModel
+      .findOne({ docId })
+      .lean<WorkCenterEntity>()
+      .exec();
+
+    if (!entity) {
+      throw new NotFoundException(`Work center "${docId}" not found`);
+    }
+    return toWorkCenterRecord(entity);
+  }
+
+  async create(workCenter: WorkCenter): Promise<WorkCenter> {
+    const existing = await this.workCenterModel
+      .findOne({ docId: workCenter.docId })
+      .lean<WorkCenterEntity>()
+      .exec();
+
+    if (existing) {
+      throw new ConflictException(
+        `Work center "${workCenter.docId}" already exists`,
+      );
+    }
+
+    await this.workCenterModel.create(workCenter);
+    return workCenter;
+  }
+
+  async update(
+    docId: string,
+    changes: Partial<WorkCenter['data']>,
+  ): Promise<WorkCenter> {
+    const entity = await this.workCenterModel
+      .findOneAndUpdate(
+        { docId },
+        { $set: toDataUpdate(changes) },
+        { new: true },
+      )
+      .lean<WorkCenterEntity>()
+      .exec();
+
+    if (!entity) {
+      throw new NotFoundException(`Work center "${docId}" not found`);
+    }
+    return toWorkCenterRecord(entity);
+  }
+
+  async remove(docId: string): Promise<void> {
+    const { deletedCount } = await this.workCenterModel
+      .deleteOne({ docId })
+      .exec();
+
+    if (deletedCount === 0) {
+      throw new NotFoundException(`Work center "${docId}" not found`);
+    }
+  }
+}
+
+/**
+ * Strips Mongo bookkeeping fields (_id, __v, timestamps) from a stored entity.
+ * Nested schemas are declared without `_id`, so `data` can be copied as-is.
+ */
+function toWorkCenterRecord(entity: WorkCenterEntity): WorkCenter {
+  return {
+    docId: entity.docId,
+    docType: 'workCenter',
+    data: {
+      ...entity.data,
+      shifts: entity.data.shifts ?? [],
+      maintenanceWindows: entity.data.maintenanceWindows ?? [],
+      capacity: entity.data.capacity ?? 1,
+      setupMatrix: entity.data.setupMatrix ?? [],
+      defaultSetupMinutes: entity.data.defaultSetupMinutes ?? 0,
+      holidays: entity.data.holidays ?? [],
+      shiftOverrides: entity.data.shiftOverrides ?? [],
+      overtimeWindows: entity.data.overtimeWindows ?? [],
+      calendarIds: entity.data.calendarIds ?? [],
+    },
+  };
+}
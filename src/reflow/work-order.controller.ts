@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { UpdateWorkOrderDto, WorkOrderDto } from './dto/reflow.dto';
+import { toWorkOrder } from './reflow.mapper';
+import { WorkOrderService } from './work-order.service';
+import { WorkOrder } from './types';
+
+@ApiTags('Work Orders')
+@Controller('work-orders')
+export class WorkOrderController {
+  constructor(private readonly workOrderService: WorkOrderService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List stored work orders' })
+  @ApiResponse({ status: 200, type: [WorkOrderDto] })
+  findAll(): Promise<WorkOrder[]> {
+    return this.workOrderService.findAll();
+  }
+
+  @Get(':docId')
+  @ApiOperation({ summary: 'Get a stored work order' })
+  @ApiResponse({ status: 200, type: WorkOrderDto })
+  @ApiResponse({ status: 404, description: 'Work order not found' })
+  findOne(@Param('docId') docId: string): Promise<WorkOrder> {
+    return this.workOrderService.findOne(docId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a work order' })
+  @ApiResponse({ status: 201, type: WorkOrderDto })
+  @ApiResponse({ status: 409, description: 'Work order already exists' })
+  create(@Body() dto: WorkOrderDto): Promise<WorkOrder> {
+    return this.workOrderService.create(toWorkOrder(dto));
+  }
+
+  @Patch(':docId')
+  @ApiOperation({ summary: 'Update fields of a stored work order' })
+  @ApiResponse({ status: 200, type: WorkOrderDto })
+  @ApiResponse({ status: 404, description: 'Work order not found' })
+  update(
+    @Param('docId') docId: string,
+    @Body() dto: UpdateWorkOrderDto,
+  ): Promise<WorkOrder> {
+    return this.workOrderService.update(docId, dto.data);
+  }
+
+  @Delete(':docId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a stored work order' })
+  @ApiResponse({ status: 204, description: 'Work order deleted' })
+  @ApiResponse({ status: 404, description: 'Work order not found' })
+  remove(@Param('docId') docId: string): Promise<void> {
+    return this.workOrderService.remove(docId);
+  }
+}
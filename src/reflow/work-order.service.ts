@@ -0,0 +1,165 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { WorkOrderEntity } from './schemas/work-order.schema';
+import { toDataUpdate } from './reflow.mapper';
+import { ReflowResult, WorkOrder } from './types';
+
+/**
+ * Persistence layer for work orders.
+ * All methods return plain `WorkOrder` objects, never Mongoose documents.
+ */
+@Injectable()
+export class WorkOrderService {
+  constructor(
+    @InjectModel(WorkOrderEntity.name)
+    private readonly workOrderModel: Model<WorkOrderEntity>,
+  ) {}
+
+  async findAll(): Promise<WorkOrder[]> {
+    const entities = await this.workOrderModel
+      .find()
+      .sort({ docId: 1 })
+      .lean<WorkOrderEntity[]>()
+      .exec();
+    return entities.map(toWorkOrderRecord);
+  }
+
+  async findOne(docId: string): Promise<WorkOrder> {
+    const entity = await this.workOrderModel
+      .findOne({ docId })
+      .lean<WorkOrderEntity>()
+      .exec();
+
+    if (!entity) {
+      throw new NotFoundException(`Work order "${docId}" not found`);
+    }
+    return toWorkOrderRecord(entity);
+  }
+
+  async create(workOrder: WorkOrder): Promise<WorkOrder> {
+    const existing = await this.workOrderModel
+      .findOne({ docId: workOrder.docId })
+      .lean<WorkOrderEntity>()
+      .exec();
+
+    if (existing) {
+      throw new ConflictException(
+        `Work order "${workOrder.docId}" already exists`,
+      );
+    }
+
+    await this.workOrderModel.create(workOrder);
+    return workOrder;
+  }
+
+  async update(
+    docId: string,
+    changes: Partial<WorkOrder['data']>,
+  ): Promise<WorkOrder> {
+    const entity = await this.workOrderModel
+      .findOneAndUpdate(
+        { docId },
+        { $set: toDataUpdate(changes) },
+        { new: true },
+      )
+      .lean<WorkOrderEntity>()
+      .exec();
+
+    if (!entity) {
+      throw new NotFoundException(`Work order "${docId}" not found`);
+    }
+    return toWorkOrderRecord(entity);
+  }
+
+  async remove(docId: string): Promise<void> {
+    const { deletedCount } = await this.workOrderModel
+      .deleteOne({ docId })
+      .exec();
+
+    if (deletedCount === 0) {
+      throw new NotFoundException(`Work order "${docId}" not found`);
+    }
+  }
+
+  /**
+   * Writes the new start/end dates and work center of rescheduled or
+   * reassigned orders back to the store, and those of each operation of
+   * routed orders.
+   *
+   * @param results - Reflow results; only rescheduled or reassigned orders are written
+   * @returns Number of work orders updated
+   */
+  async applySchedule(results: ReflowResult[]): Promise<number> {
+    const operations = results
+      .filter((r) => r.wasRescheduled || r.wasReassigned)
+      .map((r) => ({
+        updateOne: {
+          filter: { docId: r.workOrderId },
+          update: {
+            $set: {
+              'data.startDate': r.newStartDate,
+              'data.endDate': r.newEndDate,
+              'data.workCenterId': r.workCenterId,
+              ...toOperationsUpdate(r.operations),
+            },
+          },
+        },
+      }));
+
+    if (operations.length === 0) {
+      return 0;
+    }
+
+    const result = await this.workOrderModel.bulkWrite(operations);
+    return result.modifiedCount;
+  }
+}
+
+/**
+ * Strips Mongo bookkeeping fields (_id, __v, timestamps) from a stored entity.
+ */
+function toWorkOrderRecord(entity: WorkOrderEntity): WorkOrder {
+  return {
+    docId: entity.docId,
+    docType: 'workOrder',
+    data: {
+      workOrderNumber: entity.data.workOrderNumber,
+      workCenterId: entity.data.workCenterId,
+      alternateWorkCenters: entity.data.alternateWorkCenters ?? [],
+      requiredResourceIds: entity.data.requiredResourceIds ?? [],
+      startDate: entity.data.startDate,
+      endDate: entity.data.endDate,
+      durationMinutes: entity.data.durationMinutes,
+      isMaintenance: entity.data.isMaintenance ?? false,
+      pinned: entity.data.pinned ?? false,
+      status: entity.data.status ?? 'planned',
+      completedMinutes: entity.data.completedMinutes ?? 0,
+      dependsOnWorkOrderIds: entity.data.dependsOnWorkOrderIds ?? [],
+      dueDate: entity.data.dueDate,
+      priority: entity.data.priority,
+      productFamily: entity.data.productFamily,
+      operations: entity.data.operations,
+    },
+  };
+}
+
+/**
+ * Dotted `$set` paths for the new dates and work center of each operation
+ * of a routed order, by its position in the routing.
+ */
+function toOperationsUpdate(
+  operations: ReflowResult[] = [],
+): Record<string, string> {
+  return Object.fromEntries(
+    operations.flatMap((op, i) => [
+      [`data.operations.${i}.startDate`, op.newStartDate],
+      [`data.operations.${i}.endDate`, op.newEndDate],
+      [`data.operations.${i}.workCenterId`, op.workCenterId],
+    ]),
+  );
+}
@@ -3,6 +3,7 @@
  * 
  * This module provides robust date/time calculations that respect:
  * - Work center shift schedules (when work can occur)
+ * - Calendar exceptions (holidays, date-specific overrides, overtime)
  * - Maintenance windows (blocked periods)
  * - Timezone handling via Luxon
  * 
@@ -12,7 +13,8 @@
  */
 
 import { DateTime, Interval } from 'luxon';
-import type { WorkCenter, MaintenanceWindow } from '../reflow/types';
+import type { WorkCenter, MaintenanceWindow, ShiftWindow } from '../reflow/types';
+import { NoWorkableSlotError } from '../reflow/types';
 
 /**
  * Represents a time slot where work can be performed.
@@ -25,9 +27,18 @@ interface WorkableSlot {
   durationMinutes: number;
 }
 
+/**
+ * A period during which a work center is scheduled to work,
+ * before maintenance windows are taken into account.
+ */
+interface WorkingWindow {
+  start: DateTime;
+  end: DateTime;
+}
+
 /**
  * Calculates the end date for a work order given a start date, duration,
- * and work center constraints (shifts and maintenance windows).
+ * and work center constraints (shifts, calendar exceptions and maintenance windows).
  * 
  * The algorithm:
  * 1. Start from the given startDate
@@ -41,6 +52,7 @@ interface WorkableSlot {
  * @param workCenter - Work center with shift/maintenance definitions
  * @param timezone - Timezone for shift calculations (default: UTC)
  * @returns The calculated end date as DateTime
+ * @throws NoWorkableSlotError if the work center has no working time left to search
  * 
  * @example
  * // Order starts at 4pm, needs 2 hours, shift ends at 5pm
@@ -62,6 +74,7 @@ export function calculateEndDateWithShifts(
     return current;
   }
 
+  const searchStart = current;
   let remainingMinutes = durationMinutes;
   
   // Safety limit to prevent infinite loops (max 365 days of searching)
@@ -76,10 +89,7 @@ export function calculateEndDateWithShifts(
     
     if (!slot) {
       // No more workable slots found - this shouldn't happen with valid shift config
-      throw new Error(
-        `No workable slots found for work center "${workCenter.data.name}" ` +
-        `starting from ${current.toISO()}. Check shift configuration.`
-      );
+      throw new NoWorkableSlotError(workCenter.docId, current.toISO()!, 'forward');
     }
 
     // If current time is before the slot start, jump to slot start
@@ -108,21 +118,146 @@ export function calculateEndDateWithShifts(
   }
 
   if (iterations >= maxIterations) {
-    throw new Error(
-      `Could not schedule work order within reasonable time frame. ` +
-      `Duration: ${durationMinutes} minutes, Work Center: ${workCenter.data.name}`
-    );
+    throw new NoWorkableSlotError(workCenter.docId, searchStart.toISO()!, 'forward');
   }
 
   return current;
 }
 
+/**
+ * Calculates the start date for a work order that must finish at a given
+ * end date, walking working time backwards through shifts, calendar
+ * exceptions and maintenance windows. Mirror image of
+ * `calculateEndDateWithShifts`.
+ * 
+ * @param endDate - When the work must be finished (ISO string or DateTime)
+ * @param durationMinutes - Total working minutes required
+ * @param workCenter - Work center with shift/maintenance definitions
+ * @param timezone - Timezone for shift calculations (default: UTC)
+ * @returns The latest start date as DateTime
+ * @throws NoWorkableSlotError if the work center has no working time left to search
+ * 
+ * @example
+ * // Order must end at 10am, needs 2 hours, shift is 9am-5pm
+ * // Result: 4pm previous working day (1 hour there + 1 hour today)
+ */
+export function calculateStartDateWithShifts(
+  endDate: string | DateTime,
+  durationMinutes: number,
+  workCenter: WorkCenter,
+  timezone: string = 'UTC',
+): DateTime {
+  let current = typeof endDate === 'string'
+    ? DateTime.fromISO(endDate, { zone: timezone })
+    : endDate.setZone(timezone);
+
+  if (durationMinutes <= 0) {
+    return current;
+  }
+
+  const searchStart = current;
+  let remainingMinutes = durationMinutes;
+  
+  // Same safety limit as the forward calculation
+  const maxIterations = 365 * 24;
+  let iterations = 0;
+
+  while (remainingMinutes > 0 && iterations < maxIterations) {
+    iterations++;
+    
+    // Find the latest workable slot ending at or before current time
+    const slot = findPreviousWorkableSlot(current, workCenter, timezone);
+    
+    if (!slot) {
+      throw new NoWorkableSlotError(workCenter.docId, current.toISO()!, 'backward');
+    }
+
+    // If current time is after the slot end, jump back to slot end
+    if (current > slot.end) {
+      current = slot.end;
+    }
+
+    const availableInSlot = current.diff(slot.start, 'minutes').minutes;
+
+    if (remainingMinutes <= availableInSlot) {
+      // We can start in this slot
+      current = current.minus({ minutes: remainingMinutes });
+      remainingMinutes = 0;
+    } else {
+      // Consume entire slot and continue further back
+      remainingMinutes -= availableInSlot;
+      current = slot.start;
+    }
+  }
+
+  if (iterations >= maxIterations) {
+    throw new NoWorkableSlotError(workCenter.docId, searchStart.toISO()!, 'backward');
+  }
+
+  return current;
+}
+
+/**
+ * Counts the working minutes between two date/times on a work center,
+ * i.e. the inverse of `calculateEndDateWithShifts`. Negative if the end
+ * date is before the start date.
+ * 
+ * @param startDate - Start of the interval (ISO string or DateTime)
+ * @param endDate - End of the interval (ISO string or DateTime)
+ * @param workCenter - Work center with shift/maintenance definitions
+ * @param timezone - Timezone for shift calculations (default: UTC)
+ * @returns Working minutes in the interval
+ */
+export function calculateWorkingMinutesBetween(
+  startDate: string | DateTime,
+  endDate: string | DateTime,
+  workCenter: WorkCenter,
+  timezone: string = 'UTC',
+): number {
+  let current = typeof startDate === 'string'
+    ? DateTime.fromISO(startDate, { zone: timezone })
+    : startDate.setZone(timezone);
+  const end = typeof endDate === 'string'
+    ? DateTime.fromISO(endDate, { zone: timezone })
+    : endDate.setZone(timezone);
+
+  if (end < current) {
+    return -calculateWorkingMinutesBetween(end, current, workCenter, timezone);
+  }
+
+  let total = 0;
+  
+  // Same safety limit as the end date calculation
+  const maxIterations = 365 * 24;
+  let iterations = 0;
+
+  while (current < end && iterations < maxIterations) {
+    iterations++;
+
+    const slot = findNextWorkableSlot(current, workCenter, timezone);
+    if (!slot || slot.start >= end) {
+      break;
+    }
+
+    // Count the part of the slot that lies inside the interval
+    const from = slot.start > current ? slot.start : current;
+    const to = slot.end < end ? slot.end : end;
+    total += to.diff(from, 'minutes').minutes;
+    current = slot.end;
+  }
+
+  return total;
+}
+
 /**
  * Finds the next workable time slot starting from a given date/time.
  * A workable slot is a continuous period where:
- * - A shift is active for the work center
+ * - A shift (or overtime window) is active for the work center
  * - No maintenance window is blocking
  * 
+ * Shifts are resolved per date from the weekly pattern plus calendar
+ * exceptions; see `getShiftWindowsForDate`.
+ * 
  * @param fromDate - Start searching from this date/time
  * @param workCenter - Work center with shift definitions
  * @param timezone - Timezone for calculations
@@ -133,51 +268,41 @@ export function findNextWorkableSlot(
   workCenter: WorkCenter,
   timezone: string = 'UTC',
 ): WorkableSlot | null {
-  let searchDate = fromDate.setZone(timezone);
+  const from = fromDate.setZone(timezone);
+  const overtimeWindows = getOvertimeWindows(workCenter, timezone);
+
+  // Start one day early so an overnight shift that began yesterday is found
+  let searchDate = from.startOf('day').minus({ days: 1 });
+  const firstSearchDate = searchDate;
   
   // Search up to 30 days ahead (handles long maintenance windows)
-  const searchLimit = searchDate.plus({ days: 30 });
+  const searchLimit = from.plus({ days: 30 });
   
   while (searchDate < searchLimit) {
-    const dayOfWeek = searchDate.weekday % 7; // Luxon uses 1-7 (Mon-Sun), convert to 0-6 (Sun-Sat)
-    
-    // Find all shifts for this day of week
-    const shiftsToday = workCenter.data.shifts.filter(s => s.dayOfWeek === dayOfWeek);
-    
-    if (shiftsToday.length === 0) {
-      // No shifts today, move to start of next day
-      searchDate = searchDate.plus({ days: 1 }).startOf('day');
-      continue;
-    }
-
-    // Sort shifts by start hour
-    shiftsToday.sort((a, b) => a.startHour - b.startHour);
-
-    for (const shift of shiftsToday) {
-      const slotStart = searchDate.set({ hour: shift.startHour, minute: 0, second: 0, millisecond: 0 });
-      let slotEnd = searchDate.set({ hour: shift.endHour, minute: 0, second: 0, millisecond: 0 });
-      
-      // Handle overnight shifts (end hour < start hour)
-      if (shift.endHour <= shift.startHour) {
-        slotEnd = slotEnd.plus({ days: 1 });
-      }
-
-      // Skip if this slot has already passed
-      if (slotEnd <= fromDate) {
+    const nextDate = searchDate.plus({ days: 1 });
+
+    // Windows starting on this date: resolved shifts plus overtime.
+    // On the first date we also pick up overtime that started even earlier.
+    const windows = [
+      ...getShiftWindowsForDate(searchDate, workCenter, timezone),
+      ...overtimeWindows.filter(w =>
+        w.start < nextDate && (searchDate.equals(firstSearchDate) || w.start >= searchDate),
+      ),
+    ].sort((a, b) => a.start.toMillis() - b.start.toMillis());
+
+    for (const window of windows) {
+      // Skip if this window has already passed
+      if (window.end <= from) {
         continue;
       }
 
-      // Adjust start if we're already partway through the shift
-      const effectiveStart = slotStart < fromDate ? fromDate : slotStart;
-      
-      if (effectiveStart >= slotEnd) {
-        continue;
-      }
+      // Adjust start if we're already partway through the window
+      const effectiveStart = window.start < from ? from : window.start;
 
       // Check against maintenance windows and split if necessary
       const availableSlot = subtractMaintenanceWindows(
         effectiveStart,
-        slotEnd,
+        window.end,
         workCenter.data.maintenanceWindows,
         timezone,
       );
@@ -187,13 +312,136 @@ export function findNextWorkableSlot(
       }
     }
 
-    // No valid slots found today, move to next day
-    searchDate = searchDate.plus({ days: 1 }).startOf('day');
+    // No valid slots found on this date, move to next day
+    searchDate = nextDate;
   }
 
   return null;
 }
 
+/**
+ * Finds the latest workable time slot ending at or before a given date/time.
+ * Mirror image of `findNextWorkableSlot`; slots are cut at midnight, which
+ * only costs an extra iteration when walking backwards.
+ * 
+ * @param fromDate - Search backwards from this date/time
+ * @param workCenter - Work center with shift definitions
+ * @param timezone - Timezone for calculations
+ * @returns The previous available work slot, or null if none found within search limit
+ */
+export function findPreviousWorkableSlot(
+  fromDate: DateTime,
+  workCenter: WorkCenter,
+  timezone: string = 'UTC',
+): WorkableSlot | null {
+  const from = fromDate.setZone(timezone);
+  const overtimeWindows = getOvertimeWindows(workCenter, timezone);
+
+  let dayStart = from.startOf('day');
+  
+  // Search up to 30 days back (handles long maintenance windows)
+  const searchLimit = from.minus({ days: 30 });
+
+  while (dayStart > searchLimit) {
+    const nextDay = dayStart.plus({ days: 1 });
+    const rangeEnd = from < nextDay ? from : nextDay;
+
+    // Everything working on this date before `from`: shifts starting today,
+    // overnight shifts from yesterday, and overtime - clipped to the date
+    const windows = [
+      ...getShiftWindowsForDate(dayStart.minus({ days: 1 }), workCenter, timezone),
+      ...getShiftWindowsForDate(dayStart, workCenter, timezone),
+      ...overtimeWindows,
+    ]
+      .map(w => ({
+        start: w.start < dayStart ? dayStart : w.start,
+        end: w.end > rangeEnd ? rangeEnd : w.end,
+      }))
+      .filter(w => w.start < w.end)
+      .sort((a, b) => b.end.toMillis() - a.end.toMillis());
+
+    for (const window of windows) {
+      const freeSlots = splitByMaintenanceWindows(
+        window.start,
+        window.end,
+        workCenter.data.maintenanceWindows,
+        timezone,
+      );
+
+      if (freeSlots.length > 0) {
+        return freeSlots[freeSlots.length - 1];
+      }
+    }
+
+    dayStart = dayStart.minus({ days: 1 });
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the shift windows that start on a given calendar date.
+ * 
+ * - A shift override for the date replaces the weekly pattern
+ * - Otherwise a holiday on the date yields no shifts
+ * - Otherwise the weekly pattern for that day of week applies
+ * 
+ * Overnight shifts end on the following date. Overtime windows are not
+ * included since they are not tied to a calendar date.
+ * 
+ * @param date - Any time on the calendar date to resolve
+ * @param workCenter - Work center with shift definitions and exceptions
+ * @param timezone - Timezone in which the calendar date is interpreted
+ * @returns Shift windows sorted by start time
+ */
+export function getShiftWindowsForDate(
+  date: DateTime,
+  workCenter: WorkCenter,
+  timezone: string = 'UTC',
+): WorkingWindow[] {
+  const day = date.setZone(timezone).startOf('day');
+  const isoDate = day.toISODate();
+
+  let shifts: ShiftWindow[];
+  const override = workCenter.data.shiftOverrides?.find(o => o.date === isoDate);
+
+  if (override) {
+    shifts = override.shifts;
+  } else if (workCenter.data.holidays?.some(h => h.date === isoDate)) {
+    shifts = [];
+  } else {
+    const dayOfWeek = day.weekday % 7; // Luxon uses 1-7 (Mon-Sun), convert to 0-6 (Sun-Sat)
+    shifts = workCenter.data.shifts.filter(s => s.dayOfWeek === dayOfWeek);
+  }
+
+  return shifts
+    .map(shift => {
+      const bounds = getShiftBounds(shift);
+      const start = day.set({ hour: shift.startHour, minute: shift.startMinute ?? 0 });
+      let end = day.set({ hour: shift.endHour, minute: shift.endMinute ?? 0 });
+
+      // Handle overnight shifts (end time <= start time)
+      if (bounds.end <= bounds.start) {
+        end = end.plus({ days: 1 });
+      }
+
+      return { start, end };
+    })
+    .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+}
+
+/**
+ * Parses a work center's overtime windows, sorted by start time.
+ */
+function getOvertimeWindows(workCenter: WorkCenter, timezone: string): WorkingWindow[] {
+  return (workCenter.data.overtimeWindows ?? [])
+    .map(ot => ({
+      start: DateTime.fromISO(ot.startDate, { zone: timezone }),
+      end: DateTime.fromISO(ot.endDate, { zone: timezone }),
+    }))
+    .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+}
+
 /**
  * Subtracts maintenance windows from a time slot.
  * Returns the first available portion of the slot that doesn't overlap
@@ -266,6 +514,36 @@ function subtractMaintenanceWindows(
   };
 }
 
+/**
+ * Splits a time slot into the portions not covered by maintenance windows.
+ * 
+ * @param slotStart - Start of the potential work slot
+ * @param slotEnd - End of the potential work slot
+ * @param maintenanceWindows - List of blocked periods
+ * @param timezone - Timezone for calculations
+ * @returns Free portions of the slot in time order (empty if fully blocked)
+ */
+function splitByMaintenanceWindows(
+  slotStart: DateTime,
+  slotEnd: DateTime,
+  maintenanceWindows: MaintenanceWindow[],
+  timezone: string,
+): WorkableSlot[] {
+  const slots: WorkableSlot[] = [];
+  let current = slotStart;
+
+  while (current < slotEnd) {
+    const slot = subtractMaintenanceWindows(current, slotEnd, maintenanceWindows, timezone);
+    if (!slot) {
+      break;
+    }
+    slots.push(slot);
+    current = slot.end;
+  }
+
+  return slots;
+}
+
 /**
  * Finds the earliest valid start time for a work order at a specific work center.
  * The start time must be during an active shift and not during maintenance.
@@ -274,6 +552,7 @@ function subtractMaintenanceWindows(
  * @param workCenter - Work center with shift definitions
  * @param timezone - Timezone for calculations
  * @returns The earliest valid start time
+ * @throws NoWorkableSlotError if the work center has no working time left to search
  */
 export function findEarliestValidStart(
   fromDate: string | DateTime,
@@ -287,10 +566,7 @@ export function findEarliestValidStart(
   const slot = findNextWorkableSlot(from, workCenter, timezone);
   
   if (!slot) {
-    throw new Error(
-      `No valid start time found for work center "${workCenter.data.name}" ` +
-      `starting from ${from.toISO()}`
-    );
+    throw new NoWorkableSlotError(workCenter.docId, from.toISO()!, 'forward');
   }
 
   // Return the later of: our requested time or the slot start
@@ -298,7 +574,38 @@ export function findEarliestValidStart(
 }
 
 /**
- * Checks if a specific date/time falls within working hours for a work center.
+ * Finds the latest valid end time for a work order at a specific work center.
+ * Mirror image of `findEarliestValidStart`: the end time must close a period
+ * of working time (shift, not maintenance).
+ * 
+ * @param fromDate - Latest possible end date/time
+ * @param workCenter - Work center with shift definitions
+ * @param timezone - Timezone for calculations
+ * @returns The latest valid end time
+ * @throws NoWorkableSlotError if the work center has no working time left to search
+ */
+export function findLatestValidEnd(
+  fromDate: string | DateTime,
+  workCenter: WorkCenter,
+  timezone: string = 'UTC',
+): DateTime {
+  const from = typeof fromDate === 'string'
+    ? DateTime.fromISO(fromDate, { zone: timezone })
+    : fromDate.setZone(timezone);
+
+  const slot = findPreviousWorkableSlot(from, workCenter, timezone);
+  
+  if (!slot) {
+    throw new NoWorkableSlotError(workCenter.docId, from.toISO()!, 'backward');
+  }
+
+  // Return the earlier of: our requested time or the slot end
+  return from < slot.end ? from : slot.end;
+}
+
+/**
+ * Checks if a specific date/time falls within working hours for a work center,
+ * taking shift overrides, holidays and overtime into account.
  * 
  * @param dateTime - Date/time to check
  * @param workCenter - Work center with shift definitions
@@ -314,23 +621,15 @@ export function isWithinWorkingHours(
     ? DateTime.fromISO(dateTime, { zone: timezone })
     : dateTime.setZone(timezone);
 
-  const dayOfWeek = dt.weekday % 7; // Convert Luxon's 1-7 to 0-6
-  const hour = dt.hour;
+  // A shift that started yesterday may still be running (overnight shifts)
+  const day = dt.startOf('day');
+  const windows = [
+    ...getShiftWindowsForDate(day.minus({ days: 1 }), workCenter, timezone),
+    ...getShiftWindowsForDate(day, workCenter, timezone),
+    ...getOvertimeWindows(workCenter, timezone),
+  ];
 
-  // Check if within any shift for this day
-  const isInShift = workCenter.data.shifts.some(shift => {
-    if (shift.dayOfWeek !== dayOfWeek) {
-      return false;
-    }
-    
-    if (shift.endHour > shift.startHour) {
-      // Normal shift (doesn't cross midnight)
-      return hour >= shift.startHour && hour < shift.endHour;
-    } else {
-      // Overnight shift
-      return hour >= shift.startHour || hour < shift.endHour;
-    }
-  });
+  const isInShift = windows.some(w => dt >= w.start && dt < w.end);
 
   if (!isInShift) {
     return false;
@@ -346,6 +645,20 @@ export function isWithinWorkingHours(
   return !isInMaintenance;
 }
 
+/**
+ * Converts a shift's start/end into minutes since midnight.
+ * Hour-only shifts (no startMinute/endMinute) start and end on the hour.
+ * 
+ * @param shift - Shift definition
+ * @returns Start and end as minutes of day (an end of 1440 is midnight)
+ */
+export function getShiftBounds(shift: ShiftWindow): { start: number; end: number } {
+  return {
+    start: shift.startHour * 60 + (shift.startMinute ?? 0),
+    end: shift.endHour * 60 + (shift.endMinute ?? 0),
+  };
+}
+
 /**
  * Utility to convert between timezones while preserving the instant.
  * 
@@ -382,3 +695,21 @@ export function maxDateTime(...dates: (DateTime | null | undefined)[]): DateTime
   );
 }
 
+
+/**
+ * Returns the minimum (earliest) DateTime from an array of DateTimes.
+ * 
+ * @param dates - Array of DateTimes to compare
+ * @returns The earliest DateTime, or null if array is empty
+ */
+export function minDateTime(...dates: (DateTime | null | undefined)[]): DateTime | null {
+  const validDates = dates.filter((d): d is DateTime => d != null);
+  
+  if (validDates.length === 0) {
+    return null;
+  }
+
+  return validDates.reduce((min, current) => 
+    current < min ? current : min
+  );
+}